@@ -1,8 +1,11 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { AppMode, SystemStats } from './types/index';
+import { AppMode, SystemStats, Emotion } from './types/index';
 import ChatInterface from './components/ChatInterface';
 import LiveInterface from './components/LiveInterface';
-import { MessageSquare, Zap, Activity, Wifi, Video, Mic } from 'lucide-react';
+import PersonaEditor from './components/PersonaEditor';
+import MemoryPanel from './components/MemoryPanel';
+import { ConversationBackendProvider } from './components/ConversationBackendProvider';
+import { MessageSquare, Zap, Activity, Wifi, Video, Mic, Smile, Drama, Brain } from 'lucide-react';
 
 // --- Background Particle Component ---
 const ParticleBackground: React.FC<{ mode: AppMode }> = ({ mode }) => {
@@ -91,8 +94,24 @@ const ParticleBackground: React.FC<{ mode: AppMode }> = ({ mode }) => {
   return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none z-0 opacity-60" />;
 };
 
+// Accent colours that tint the ambient background and mood readout while YUMI shows an emotion
+const EMOTION_ACCENTS: Record<Emotion, { blob: string; text: string } | null> = {
+  neutral: null,
+  happy: { blob: 'bg-amber-700', text: 'text-amber-300' },
+  sad: { blob: 'bg-blue-800', text: 'text-blue-300' },
+  angry: { blob: 'bg-red-800', text: 'text-red-400' },
+  surprised: { blob: 'bg-yellow-600', text: 'text-yellow-300' },
+  thinking: { blob: 'bg-indigo-800', text: 'text-indigo-300' },
+  relaxed: { blob: 'bg-emerald-800', text: 'text-emerald-300' },
+  embarrassed: { blob: 'bg-pink-700', text: 'text-pink-300' }
+};
+
 const App: React.FC = () => {
   const [mode, setMode] = useState<AppMode>(AppMode.LIVE);
+  const [emotion, setEmotion] = useState<Emotion>('neutral');
+  const [panel, setPanel] = useState<'persona' | 'memory' | null>(null);
+  const togglePanel = (next: 'persona' | 'memory') => setPanel(prev => (prev === next ? null : next));
+  const accent = EMOTION_ACCENTS[emotion];
   const [stats, setStats] = useState<SystemStats>({
     latency: 0,
     videoStatus: 'OFFLINE',
@@ -107,6 +126,9 @@ const App: React.FC = () => {
     setStats(prev => ({ ...prev, ...newStats }));
   }, []);
 
+  // Heartbeat round trips keep the latency readout current between replies
+  const handleLatency = useCallback((latency: number) => handleStatsUpdate({ latency }), [handleStatsUpdate]);
+
   if (!apiKey) {
     return (
       <div className="min-h-screen bg-black flex items-center justify-center text-red-500 font-mono">
@@ -166,7 +188,7 @@ const App: React.FC = () => {
         
         {/* Blob 3: Center/Floating */}
         <div className={`absolute top-[40%] left-[40%] w-[30%] h-[30%] rounded-full blur-[100px] opacity-20 animate-blob animation-delay-4000 transition-colors duration-1000 ease-in-out mix-blend-screen ${
-           mode === AppMode.CHAT ? 'bg-blue-900' : 'bg-amber-900'
+           accent ? accent.blob : mode === AppMode.CHAT ? 'bg-blue-900' : 'bg-amber-900'
         }`}></div>
 
         {/* Live Mode Specific Effects */}
@@ -197,6 +219,22 @@ const App: React.FC = () => {
             <Zap className="w-6 h-6" />
              <span className="absolute left-full ml-4 px-2 py-1 bg-fuchsia-900/80 border border-fuchsia-500/30 text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none md:block hidden">Live Mode</span>
           </button>
+
+          <button 
+            onClick={() => togglePanel('persona')}
+            className={`p-3 rounded-xl transition-all duration-300 relative group ${panel === 'persona' ? 'bg-fuchsia-500/20 text-fuchsia-300' : 'text-slate-600 hover:text-fuchsia-400'}`}
+          >
+            <Drama className="w-6 h-6" />
+            <span className="absolute left-full ml-4 px-2 py-1 bg-fuchsia-900/80 border border-fuchsia-500/30 text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none md:block hidden">Persona</span>
+          </button>
+
+          <button 
+            onClick={() => togglePanel('memory')}
+            className={`p-3 rounded-xl transition-all duration-300 relative group ${panel === 'memory' ? 'bg-fuchsia-500/20 text-fuchsia-300' : 'text-slate-600 hover:text-fuchsia-400'}`}
+          >
+            <Brain className="w-6 h-6" />
+            <span className="absolute left-full ml-4 px-2 py-1 bg-fuchsia-900/80 border border-fuchsia-500/30 text-xs rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none md:block hidden">Memories</span>
+          </button>
         </div>
 
         <div className="mt-auto hidden md:block">
@@ -232,6 +270,16 @@ const App: React.FC = () => {
                  </div>
               </div>
 
+              {/* Emotion */}
+              <div className="hidden sm:flex flex-col items-end border-l border-cyan-900/30 pl-4">
+                 <div className="flex items-center gap-1.5 text-[10px] text-cyan-500 font-mono tracking-wider">
+                   <Smile className="w-3 h-3" /> MOOD
+                 </div>
+                 <div className={`text-xs font-bold font-mono uppercase transition-colors duration-500 ${accent ? accent.text : 'text-slate-500'}`}>
+                   {emotion}
+                 </div>
+              </div>
+
               {/* Webcam Status */}
               <div className="hidden sm:flex flex-col items-end border-l border-cyan-900/30 pl-4">
                  <div className="flex items-center gap-1.5 text-[10px] text-cyan-500 font-mono tracking-wider">
@@ -263,13 +311,17 @@ const App: React.FC = () => {
         </header>
 
         {/* Dynamic Viewport */}
-        <div className="flex-1 relative">
-           {mode === AppMode.CHAT ? (
-             <ChatInterface apiKey={apiKey} onStatsUpdate={handleStatsUpdate} />
-           ) : (
-             <LiveInterface apiKey={apiKey} onStatsUpdate={handleStatsUpdate} />
-           )}
-        </div>
+        <ConversationBackendProvider apiKey={apiKey} onLatency={handleLatency}>
+          <div className="flex-1 relative">
+             {mode === AppMode.CHAT ? (
+               <ChatInterface onStatsUpdate={handleStatsUpdate} onEmotionChange={setEmotion} />
+             ) : (
+               <LiveInterface onStatsUpdate={handleStatsUpdate} onEmotionChange={setEmotion} />
+             )}
+             {panel === 'persona' && <PersonaEditor onClose={() => setPanel(null)} />}
+             {panel === 'memory' && <MemoryPanel onClose={() => setPanel(null)} />}
+          </div>
+        </ConversationBackendProvider>
       </main>
     </div>
   );
@@ -0,0 +1,227 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { AvatarBone, AvatarGesture } from '../types';
+import { AvatarRig } from './rig';
+
+/** Seconds to cross-fade between clips */
+const CROSS_FADE_S = 0.4;
+
+interface ProceduralGesture {
+  /** Seconds */
+  duration: number;
+  /** Bones the gesture needs; it is skipped on rigs without them */
+  bones: AvatarBone[];
+  /** Add bone offsets for progress `t` (0–1); `weight` eases in and out */
+  apply: (rig: AvatarRig, t: number, weight: number) => void;
+}
+
+// Fallbacks for models without gesture clips, layered on the rig as bone offsets
+const PROCEDURAL_GESTURES: Record<AvatarGesture, ProceduralGesture> = {
+  nod: {
+    duration: 1.2,
+    bones: ['head'],
+    apply: (rig, t, weight) => {
+      const pitch = Math.sin(t * Math.PI * 4) * 0.16 * weight;
+      rig.addRotation('head', pitch, 0, 0);
+      rig.addRotation('neck', pitch * 0.4, 0, 0);
+    }
+  },
+  shrug: {
+    duration: 1.4,
+    bones: ['leftShoulder', 'rightShoulder'],
+    apply: (rig, _t, weight) => {
+      rig.addRotation('leftShoulder', 0, 0, 0.25 * weight);
+      rig.addRotation('rightShoulder', 0, 0, -0.25 * weight);
+      rig.addRotation('leftLowerArm', 0, -0.4 * weight, 0);
+      rig.addRotation('rightLowerArm', 0, 0.4 * weight, 0);
+      rig.addRotation('head', 0, 0, 0.08 * weight);
+    }
+  },
+  wave: {
+    duration: 2.4,
+    bones: ['rightUpperArm', 'rightLowerArm'],
+    apply: (rig, t, weight) => {
+      rig.addRotation('rightUpperArm', 0, 0, -1.2 * weight);
+      rig.addRotation('rightLowerArm', 0, 0, (-0.6 + Math.sin(t * Math.PI * 8) * 0.35) * weight);
+    }
+  }
+};
+
+const isGesture = (name: string): name is AvatarGesture => Object.hasOwn(PROCEDURAL_GESTURES, name);
+
+// Smooth in/out over the first and last fifth of a gesture
+const envelope = (t: number) => {
+  const edge = Math.min(1, t / 0.2, (1 - t) / 0.2);
+  return edge * edge * (3 - 2 * edge);
+};
+
+/**
+ * Body animation for one avatar. Clips (embedded in the model or loaded
+ * separately) play through an AnimationMixer: an idle clip loops and gesture
+ * clips cross-fade in and back out. Gestures without a clip fall back to
+ * procedural bone motion, and breathing and head sway are always layered on
+ * top as rig offsets.
+ */
+export class AvatarAnimator {
+  private mixer: THREE.AnimationMixer;
+  private actions: Map<string, THREE.AnimationAction> = new Map();
+  private idle: THREE.AnimationAction | null = null;
+  private gestureAction: THREE.AnimationAction | null = null;
+  private procedural: { gesture: ProceduralGesture; start: number } | null = null;
+  private elapsed = 0;
+
+  constructor(root: THREE.Object3D, private rig: AvatarRig, clips: THREE.AnimationClip[] = []) {
+    this.mixer = new THREE.AnimationMixer(root);
+    this.mixer.addEventListener('finished', this.handleFinished);
+    this.addClips(clips);
+  }
+
+  /** Register clips by lower-cased name; the first idle-looking clip starts looping */
+  addClips(clips: THREE.AnimationClip[]) {
+    clips.forEach(clip => {
+      this.actions.set(clip.name.toLowerCase(), this.mixer.clipAction(clip));
+    });
+    if (!this.idle) {
+      const idle = this.find('idle');
+      if (idle) this.playIdle(idle);
+    }
+  }
+
+  /** Load clips from separate GLB files, naming each after its key */
+  async loadClips(sources: Record<string, string>): Promise<void> {
+    const loader = new GLTFLoader();
+    await Promise.all(Object.entries(sources).map(async ([name, url]) => {
+      try {
+        const gltf = await loader.loadAsync(url);
+        const clip = gltf.animations[0];
+        if (!clip) {
+          console.warn(`AvatarAnimator: ${url} has no animations`);
+          return;
+        }
+        clip.name = name;
+        this.addClips([clip]);
+      } catch (error) {
+        console.warn(`AvatarAnimator: Could not load clip "${name}" from ${url}`, error);
+      }
+    }));
+  }
+
+  get clipNames(): string[] {
+    return [...this.actions.keys()];
+  }
+
+  private find(name: string): THREE.AnimationAction | undefined {
+    const key = name.toLowerCase();
+    if (this.actions.has(key)) return this.actions.get(key);
+    const match = [...this.actions.keys()].find(clip => clip.includes(key));
+    return match ? this.actions.get(match) : undefined;
+  }
+
+  private playIdle(action: THREE.AnimationAction) {
+    const previous = this.idle;
+    this.idle = action;
+    action.reset().setLoop(THREE.LoopRepeat, Infinity).play();
+    if (previous && previous !== action) {
+      action.crossFadeFrom(previous, CROSS_FADE_S, false);
+    } else {
+      action.fadeIn(CROSS_FADE_S);
+    }
+  }
+
+  /** Switch the looping idle clip; returns false when the model has no such clip */
+  setIdle(name: string): boolean {
+    const action = this.find(name);
+    if (!action) return false;
+    if (action !== this.idle) this.playIdle(action);
+    return true;
+  }
+
+  /**
+   * Play a gesture once, then return to idle. Clips win over the procedural
+   * fallback. Returns false when neither is available for this model.
+   */
+  gesture(name: string): boolean {
+    const action = this.find(name);
+    if (action && action !== this.idle) {
+      const from = this.gestureAction ?? this.idle;
+      action.reset().setLoop(THREE.LoopOnce, 1).play();
+      action.clampWhenFinished = true;
+      if (from && from !== action) {
+        action.crossFadeFrom(from, CROSS_FADE_S, false);
+      } else {
+        action.fadeIn(CROSS_FADE_S);
+      }
+      this.gestureAction = action;
+      this.procedural = null;
+      return true;
+    }
+
+    const key = name.toLowerCase();
+    if (isGesture(key)) {
+      const gesture = PROCEDURAL_GESTURES[key];
+      if (gesture.bones.every(bone => this.rig.has(bone))) {
+        this.procedural = { gesture, start: this.elapsed };
+        return true;
+      }
+    }
+
+    console.warn(`AvatarAnimator: No clip or procedural fallback for gesture "${name}"`);
+    return false;
+  }
+
+  private handleFinished = (event: { action: THREE.AnimationAction }) => {
+    if (event.action !== this.gestureAction) return;
+    this.gestureAction = null;
+    if (this.idle) {
+      this.idle.reset().play().crossFadeFrom(event.action, CROSS_FADE_S, false);
+    } else {
+      event.action.fadeOut(CROSS_FADE_S);
+    }
+  };
+
+  /**
+   * Advance clips, then add procedural offsets to the rig. Call before any
+   * other layer adds offsets this frame; the caller flushes the rig.
+   */
+  update(delta: number) {
+    this.elapsed += delta;
+
+    if (this.actions.size) {
+      // Clear last frame's offsets so bones the clips don't touch keep their rest pose
+      this.rig.restore();
+      this.mixer.update(delta);
+      this.rig.captureBasePose();
+    }
+
+    if (this.procedural) {
+      const t = (this.elapsed - this.procedural.start) / this.procedural.gesture.duration;
+      if (t >= 1) {
+        this.procedural = null;
+      } else {
+        this.procedural.gesture.apply(this.rig, t, envelope(t));
+      }
+    }
+
+    this.applyBreathing();
+  }
+
+  // Slow chest rise and fall plus a wandering head, so a still idle pose never looks frozen
+  private applyBreathing() {
+    const t = this.elapsed;
+    const breath = Math.sin(t * Math.PI * 2 * 0.25);
+    this.rig.addRotation(this.rig.has('chest') ? 'chest' : 'spine', -breath * 0.02, 0, 0);
+    this.rig.addRotation('leftShoulder', 0, 0, breath * 0.012);
+    this.rig.addRotation('rightShoulder', 0, 0, -breath * 0.012);
+
+    const yaw = Math.sin(t * 0.3) * 0.06 + Math.sin(t * 0.71) * 0.02;
+    const pitch = Math.sin(t * 0.23 + 1) * 0.02;
+    const roll = Math.sin(t * 0.17 + 2) * 0.025;
+    this.rig.addRotation(this.rig.has('neck') ? 'neck' : 'head', pitch, yaw, roll);
+  }
+
+  dispose() {
+    this.mixer.removeEventListener('finished', this.handleFinished);
+    this.mixer.stopAllAction();
+    this.mixer.uncacheRoot(this.mixer.getRoot());
+  }
+}
@@ -0,0 +1,51 @@
+const BASE_INTERVAL_MS = 4500;
+const BLINK_DURATION_MS = 150;
+// Pause between the two halves of a double blink
+const DOUBLE_BLINK_GAP_MS = 90;
+const DOUBLE_BLINK_CHANCE = 0.15;
+
+/**
+ * Schedules blinks with a jittered interval around the base rate, with the
+ * occasional double blink. `update` returns how closed the eyes are (0–1).
+ */
+export class BlinkController {
+  private blinkStart = -Infinity;
+  private nextBlink: number;
+  private pendingDouble = false;
+
+  constructor(now = performance.now()) {
+    this.nextBlink = now + this.sampleInterval(1);
+  }
+
+  // Uniform jitter from 40% to 160% of the base interval, averaging the base rate
+  private sampleInterval(rate: number): number {
+    return (BASE_INTERVAL_MS / Math.max(0.1, rate)) * (0.4 + Math.random() * 1.2);
+  }
+
+  /** Blink now, e.g. to accompany a large gaze shift; ignored mid-blink */
+  trigger(now = performance.now()) {
+    if (now - this.blinkStart < BLINK_DURATION_MS) return;
+    this.blinkStart = now;
+  }
+
+  /** `rate` scales blink frequency (the expression's blink rate) */
+  update(now = performance.now(), rate = 1): number {
+    if (now >= this.nextBlink) {
+      this.blinkStart = now;
+      this.pendingDouble = Math.random() < DOUBLE_BLINK_CHANCE;
+      this.nextBlink = now + this.sampleInterval(rate);
+    }
+
+    const elapsed = now - this.blinkStart;
+    if (this.pendingDouble && elapsed >= BLINK_DURATION_MS + DOUBLE_BLINK_GAP_MS) {
+      this.pendingDouble = false;
+      this.blinkStart = now;
+      return 0;
+    }
+    if (elapsed >= BLINK_DURATION_MS) return 0;
+
+    // Close over the first half, open over the second
+    const progress = elapsed / BLINK_DURATION_MS;
+    return progress < 0.5 ? progress * 2 : (1 - progress) * 2;
+  }
+}
@@ -0,0 +1,156 @@
+import { Emotion } from '../types';
+
+export interface HeadPose {
+  pitch: number;
+  yaw: number;
+  roll: number;
+}
+
+export interface ExpressionState {
+  /** Morph target weights; ARKit and VRM names are both listed and missing shapes are ignored */
+  morphs: Record<string, number>;
+  /** Head offset in radians */
+  head: HeadPose;
+  /** Multiplier on blink frequency (below 1 blinks less often) */
+  blinkRate: number;
+}
+
+const NEUTRAL: ExpressionState = {
+  morphs: {},
+  head: { pitch: 0, yaw: 0, roll: 0 },
+  blinkRate: 1
+};
+
+export const EXPRESSIONS: Record<Emotion, ExpressionState> = {
+  neutral: NEUTRAL,
+  happy: {
+    morphs: {
+      mouthSmileLeft: 0.7, mouthSmileRight: 0.7, cheekSquintLeft: 0.4, cheekSquintRight: 0.4,
+      eyeSquintLeft: 0.2, eyeSquintRight: 0.2, happy: 1, joy: 1
+    },
+    head: { pitch: -0.05, yaw: 0, roll: 0.04 },
+    blinkRate: 1.1
+  },
+  sad: {
+    morphs: {
+      mouthFrownLeft: 0.6, mouthFrownRight: 0.6, browInnerUp: 0.7, eyeLookDownLeft: 0.2,
+      eyeLookDownRight: 0.2, sad: 1, sorrow: 1
+    },
+    head: { pitch: 0.12, yaw: 0, roll: -0.03 },
+    blinkRate: 0.7
+  },
+  angry: {
+    morphs: {
+      browDownLeft: 0.8, browDownRight: 0.8, noseSneerLeft: 0.4, noseSneerRight: 0.4,
+      mouthPressLeft: 0.4, mouthPressRight: 0.4, eyeSquintLeft: 0.4, eyeSquintRight: 0.4, angry: 1
+    },
+    head: { pitch: 0.06, yaw: 0, roll: 0 },
+    blinkRate: 0.6
+  },
+  surprised: {
+    morphs: {
+      eyeWideLeft: 0.8, eyeWideRight: 0.8, browInnerUp: 0.6, browOuterUpLeft: 0.6,
+      browOuterUpRight: 0.6, jawOpen: 0.25, surprised: 1
+    },
+    head: { pitch: -0.08, yaw: 0, roll: 0 },
+    blinkRate: 0.3
+  },
+  thinking: {
+    morphs: {
+      browInnerUp: 0.3, browDownLeft: 0.3, mouthPucker: 0.2, mouthLeft: 0.3,
+      eyeLookUpLeft: 0.4, eyeLookUpRight: 0.4
+    },
+    head: { pitch: -0.06, yaw: 0.12, roll: 0.08 },
+    blinkRate: 0.8
+  },
+  relaxed: {
+    morphs: {
+      mouthSmileLeft: 0.3, mouthSmileRight: 0.3, eyeBlinkLeft: 0.15, eyeBlinkRight: 0.15,
+      relaxed: 1, fun: 1
+    },
+    head: { pitch: 0.02, yaw: 0, roll: 0.05 },
+    blinkRate: 0.9
+  },
+  embarrassed: {
+    morphs: {
+      mouthSmileLeft: 0.3, mouthSmileRight: 0.3, browInnerUp: 0.4, eyeLookDownLeft: 0.4,
+      eyeLookDownRight: 0.4, cheekPuff: 0.2
+    },
+    head: { pitch: 0.1, yaw: -0.1, roll: -0.06 },
+    blinkRate: 1.5
+  }
+};
+
+const TRANSITION_MS = 400;
+const DECAY_MS = 1200;
+const DEFAULT_HOLD_MS = 4000;
+
+const easeInOut = (t: number) => t * t * (3 - 2 * t);
+
+function scale(state: ExpressionState, amount: number): ExpressionState {
+  return {
+    morphs: Object.fromEntries(Object.entries(state.morphs).map(([name, w]) => [name, w * amount])),
+    head: { pitch: state.head.pitch * amount, yaw: state.head.yaw * amount, roll: state.head.roll * amount },
+    blinkRate: 1 + (state.blinkRate - 1) * amount
+  };
+}
+
+function mix(from: ExpressionState, to: ExpressionState, t: number): ExpressionState {
+  const morphs: Record<string, number> = {};
+  new Set([...Object.keys(from.morphs), ...Object.keys(to.morphs)]).forEach(name => {
+    const a = from.morphs[name] ?? 0;
+    const b = to.morphs[name] ?? 0;
+    morphs[name] = a + (b - a) * t;
+  });
+  return {
+    morphs,
+    head: {
+      pitch: from.head.pitch + (to.head.pitch - from.head.pitch) * t,
+      yaw: from.head.yaw + (to.head.yaw - from.head.yaw) * t,
+      roll: from.head.roll + (to.head.roll - from.head.roll) * t
+    },
+    blinkRate: from.blinkRate + (to.blinkRate - from.blinkRate) * t
+  };
+}
+
+/**
+ * Blends between emotion presets over time. Each emotion eases in, holds,
+ * then decays back to neutral unless it was set with an infinite hold.
+ */
+export class ExpressionController {
+  private emotion: Emotion = 'neutral';
+  private from: ExpressionState = NEUTRAL;
+  private to: ExpressionState = NEUTRAL;
+  private current: ExpressionState = NEUTRAL;
+  private transitionStart = 0;
+  private transitionMs = TRANSITION_MS;
+  private holdUntil = Infinity;
+
+  constructor(private onChange?: (emotion: Emotion) => void) {}
+
+  set(emotion: Emotion, intensity = 1, holdMs = DEFAULT_HOLD_MS, now = performance.now()) {
+    this.from = this.current;
+    this.to = scale(EXPRESSIONS[emotion], Math.max(0, Math.min(1, intensity)));
+    this.transitionStart = now;
+    this.transitionMs = emotion === 'neutral' ? DECAY_MS : TRANSITION_MS;
+    this.holdUntil = emotion === 'neutral' ? Infinity : now + this.transitionMs + holdMs;
+
+    if (emotion !== this.emotion) {
+      this.emotion = emotion;
+      this.onChange?.(emotion);
+    }
+  }
+
+  get(): Emotion {
+    return this.emotion;
+  }
+
+  update(now = performance.now()): ExpressionState {
+    if (now > this.holdUntil) {
+      this.set('neutral', 1, 0, now);
+    }
+    const t = Math.min(1, (now - this.transitionStart) / this.transitionMs);
+    this.current = mix(this.from, this.to, easeInOut(t));
+    return this.current;
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { facePoseFrom, smoothFacePose, BlendshapeScore } from './faceTracking';
+
+const scores = (values: Record<string, number>): BlendshapeScore[] =>
+  Object.entries(values).map(([categoryName, score]) => ({ categoryName, score }));
+
+const transform = (matrix: THREE.Matrix4) => matrix.toArray();
+
+describe('facePoseFrom', () => {
+  it('leaves the head centred without a transform', () => {
+    expect(facePoseFrom([], null).head).toEqual({ yaw: 0, pitch: 0, roll: 0 });
+  });
+
+  it('mirrors head turns and nods', () => {
+    const turned = facePoseFrom([], transform(new THREE.Matrix4().makeRotationY(0.3)));
+    expect(turned.head.yaw).toBeCloseTo(-0.3);
+    expect(turned.head.pitch).toBeCloseTo(0);
+
+    const nodded = facePoseFrom([], transform(new THREE.Matrix4().makeRotationX(0.2)));
+    expect(nodded.head.pitch).toBeCloseTo(-0.2);
+  });
+
+  it("swaps sides so the performer's left eye drives the avatar's right", () => {
+    const pose = facePoseFrom(scores({ eyeBlinkLeft: 0.75, eyeBlinkRight: 0.2 }), null);
+    expect(pose.blinkRight).toBe(1);
+    expect(pose.blinkLeft).toBe(0);
+  });
+
+  it("turns the eyes the reflection's way", () => {
+    const pose = facePoseFrom(scores({ eyeLookOutLeft: 1, eyeLookInRight: 1, eyeLookUpLeft: 1, eyeLookUpRight: 1 }), null);
+    expect(pose.eyes.yaw).toBeCloseTo(-0.5);
+    expect(pose.eyes.pitch).toBeCloseTo(0.35);
+  });
+
+  it('rescales the jaw so a resting mouth is closed and a wide one fully open', () => {
+    expect(facePoseFrom(scores({ jawOpen: 0.05 }), null).jawOpen).toBe(0);
+    expect(facePoseFrom(scores({ jawOpen: 0.325 }), null).jawOpen).toBeCloseTo(0.5);
+    expect(facePoseFrom(scores({ jawOpen: 0.9 }), null).jawOpen).toBe(1);
+  });
+
+  it('passes the remaining shapes through under mirrored names', () => {
+    const pose = facePoseFrom(scores({
+      _neutral: 0.1,
+      eyeBlinkLeft: 1,
+      jawOpen: 0.5,
+      mouthSmileLeft: 0.8,
+      browInnerUp: 0.4
+    }), null);
+    expect(pose.shapes).toEqual({ mouthSmileRight: 0.8, browInnerUp: 0.4 });
+  });
+});
+
+describe('smoothFacePose', () => {
+  const pose = (value: number) => facePoseFrom(scores({ jawOpen: value, eyeBlinkLeft: value, mouthSmileLeft: value }), null);
+
+  it('eases everything but blinks towards the new pose', () => {
+    const smoothed = smoothFacePose(pose(0.05), pose(0.6), 0.5);
+    expect(smoothed.jawOpen).toBeCloseTo(0.5);
+    expect(smoothed.shapes.mouthSmileRight).toBeCloseTo(0.325);
+    expect(smoothed.blinkRight).toBe(pose(0.6).blinkRight);
+  });
+
+  it('starts from the new pose when there is no previous one', () => {
+    const next = pose(0.3);
+    expect(smoothFacePose(null, next, 0.5)).toBe(next);
+  });
+});
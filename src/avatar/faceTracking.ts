@@ -0,0 +1,111 @@
+import * as THREE from 'three';
+import { GazeAngles } from './gaze';
+
+/**
+ * The performer's face as the avatar should show it, already mirrored so
+ * the avatar moves like a reflection. Angles follow the gaze convention:
+ * yaw positive towards the avatar's left, pitch positive up, radians.
+ */
+export interface FacePose {
+  head: GazeAngles & { roll: number };
+  /** Eye direction relative to the head */
+  eyes: GazeAngles;
+  /** How closed each of the avatar's eyes is (0–1) */
+  blinkLeft: number;
+  blinkRight: number;
+  /** Mouth opening (0–1) */
+  jawOpen: number;
+  /** ARKit-named blendshapes (mouth, brows, cheeks), mirrored, for models that have them */
+  shapes: Record<string, number>;
+}
+
+/** A blendshape category as landmark models report it */
+export interface BlendshapeScore {
+  categoryName: string;
+  score: number;
+}
+
+// Eye blendshapes saturate well short of their range; these reach it
+const EYE_YAW_RANGE = 0.5;
+const EYE_PITCH_RANGE = 0.35;
+// Relaxed eyes and a closed mouth still score a little, and closed eyes rarely reach 1
+const BLINK_RANGE: [number, number] = [0.35, 0.75];
+const JAW_RANGE: [number, number] = [0.05, 0.6];
+
+// Handled through the head, eyes, blinks and jaw instead of passed through
+const DEDICATED_SHAPES = /^(eyeBlink|eyeLook|jawOpen|_neutral)/;
+
+const remap = (value: number, [from, to]: [number, number]) => Math.max(0, Math.min(1, (value - from) / (to - from)));
+
+// A reflection swaps sides, so the performer's left eye is the avatar's right
+const mirrorName = (name: string) =>
+  name.endsWith('Left') ? `${name.slice(0, -4)}Right` : name.endsWith('Right') ? `${name.slice(0, -5)}Left` : name;
+
+const scratchMatrix = new THREE.Matrix4();
+const scratchEuler = new THREE.Euler();
+
+/**
+ * Build a pose from a face landmarker's blendshapes and facial transform
+ * (a column-major 4×4 in the camera's frame: x right in the image, y up,
+ * z towards the camera). Blendshape sides are the performer's own.
+ */
+export function facePoseFrom(blendshapes: BlendshapeScore[], transform: ArrayLike<number> | null): FacePose {
+  const scores: Record<string, number> = {};
+  blendshapes.forEach(({ categoryName, score }) => {
+    scores[categoryName] = score;
+  });
+  const score = (name: string) => scores[name] ?? 0;
+
+  const head = { yaw: 0, pitch: 0, roll: 0 };
+  if (transform) {
+    scratchEuler.setFromRotationMatrix(scratchMatrix.fromArray(Array.from(transform)), 'YXZ');
+    // Turning to their left moves the performer's nose to image right; the reflection turns the other way
+    head.yaw = -scratchEuler.y;
+    // Rotating about +x tips the nose down
+    head.pitch = -scratchEuler.x;
+    head.roll = -scratchEuler.z;
+  }
+
+  // Towards the performer's own left: left eye looks out, right eye looks in
+  const towardsTheirLeft = (score('eyeLookOutLeft') + score('eyeLookInRight') - score('eyeLookInLeft') - score('eyeLookOutRight')) / 2;
+  const up = (score('eyeLookUpLeft') + score('eyeLookUpRight') - score('eyeLookDownLeft') - score('eyeLookDownRight')) / 2;
+
+  const shapes: Record<string, number> = {};
+  Object.entries(scores).forEach(([name, value]) => {
+    if (!DEDICATED_SHAPES.test(name)) {
+      shapes[mirrorName(name)] = value;
+    }
+  });
+
+  return {
+    head,
+    eyes: { yaw: -towardsTheirLeft * EYE_YAW_RANGE, pitch: up * EYE_PITCH_RANGE },
+    blinkLeft: remap(score('eyeBlinkRight'), BLINK_RANGE),
+    blinkRight: remap(score('eyeBlinkLeft'), BLINK_RANGE),
+    jawOpen: remap(score('jawOpen'), JAW_RANGE),
+    shapes
+  };
+}
+
+/** Ease `previous` towards `next`; `amount` is the share of the gap closed (1 = no smoothing) */
+export function smoothFacePose(previous: FacePose | null, next: FacePose, amount: number): FacePose {
+  if (!previous) return next;
+  const mix = (a: number, b: number) => a + (b - a) * amount;
+  const shapes: Record<string, number> = {};
+  Object.entries(next.shapes).forEach(([name, value]) => {
+    shapes[name] = mix(previous.shapes[name] ?? 0, value);
+  });
+  return {
+    head: {
+      yaw: mix(previous.head.yaw, next.head.yaw),
+      pitch: mix(previous.head.pitch, next.head.pitch),
+      roll: mix(previous.head.roll, next.head.roll)
+    },
+    eyes: { yaw: mix(previous.eyes.yaw, next.eyes.yaw), pitch: mix(previous.eyes.pitch, next.eyes.pitch) },
+    // Blinks are quick; smoothing them would swallow most of one
+    blinkLeft: next.blinkLeft,
+    blinkRight: next.blinkRight,
+    jawOpen: mix(previous.jawOpen, next.jawOpen),
+    shapes
+  };
+}
@@ -0,0 +1,129 @@
+import * as THREE from 'three';
+
+/** Where the avatar looks: the orbit camera, the mouse cursor, or the viewer's face via webcam */
+export type GazeSource = 'camera' | 'mouse' | 'webcam';
+
+/** `thinking` glances up and away, `listening` glances down and away */
+export type GazeMode = 'attentive' | 'thinking' | 'listening';
+
+/** Yaw (positive towards the avatar's left) and pitch (positive up), in radians */
+export interface GazeAngles {
+  yaw: number;
+  pitch: number;
+}
+
+export interface GazeOutput {
+  /** Eye rotation relative to the head */
+  eyes: GazeAngles;
+  /** Head rotation relative to the body */
+  head: GazeAngles;
+}
+
+const EYE_LIMIT: GazeAngles = { yaw: 0.5, pitch: 0.35 };
+const HEAD_LIMIT: GazeAngles = { yaw: 0.6, pitch: 0.3 };
+// Share of the gaze direction the head turns; the eyes cover the rest
+const HEAD_SHARE = 0.4;
+// Exponential follow speeds (per second); eyes snap, the head lags
+const EYE_SPEED = 30;
+const HEAD_SPEED = 3;
+// Gaze jumps larger than this (radians) come with a blink
+const SHIFT_BLINK_THRESHOLD = 0.3;
+
+const AVERSION: Record<Exclude<GazeMode, 'attentive'>, { offset: GazeAngles; awayMs: [number, number]; backMs: [number, number] }> = {
+  thinking: { offset: { yaw: 0.4, pitch: 0.25 }, awayMs: [1500, 3000], backMs: [800, 1500] },
+  listening: { offset: { yaw: 0.3, pitch: -0.15 }, awayMs: [1000, 2000], backMs: [2000, 4000] }
+};
+
+const between = ([min, max]: [number, number]) => min + Math.random() * (max - min);
+const clamp = (value: number, limit: number) => Math.max(-limit, Math.min(limit, value));
+
+const scratchDirection = new THREE.Vector3();
+const scratchQuaternion = new THREE.Quaternion();
+
+/**
+ * Angles from `from` to `to` (world positions) in the local frame of `body`,
+ * whose +Z axis is taken to be the way the avatar faces.
+ */
+export function gazeAnglesTo(from: THREE.Vector3, to: THREE.Vector3, body: THREE.Object3D): GazeAngles {
+  const direction = scratchDirection.subVectors(to, from);
+  direction.applyQuaternion(body.getWorldQuaternion(scratchQuaternion).invert());
+  return {
+    yaw: Math.atan2(direction.x, direction.z),
+    pitch: Math.atan2(direction.y, Math.hypot(direction.x, direction.z))
+  };
+}
+
+/**
+ * Turns a look-at target into eye and head angles. Adds random
+ * micro-saccades, and in thinking or listening mode alternates between
+ * looking away and glancing back.
+ */
+export class GazeController {
+  private target: GazeAngles = { yaw: 0, pitch: 0 };
+  private eyes: GazeAngles = { yaw: 0, pitch: 0 };
+  private head: GazeAngles = { yaw: 0, pitch: 0 };
+  private saccade: GazeAngles = { yaw: 0, pitch: 0 };
+  private nextSaccade = 0;
+  private mode: GazeMode = 'attentive';
+  private averted = false;
+  private aversionSide = 1;
+  private nextAversionChange = 0;
+  private lastGoal: GazeAngles = { yaw: 0, pitch: 0 };
+
+  /** `onShift` fires on large gaze jumps, so the caller can blink with them */
+  constructor(private onShift?: () => void) {}
+
+  setTarget(angles: GazeAngles) {
+    this.target = angles;
+  }
+
+  setMode(mode: GazeMode, now = performance.now()) {
+    if (mode === this.mode) return;
+    this.mode = mode;
+    this.averted = false;
+    // Start looking away shortly after entering an averting mode
+    this.nextAversionChange = now + 300;
+  }
+
+  update(now: number, delta: number): GazeOutput {
+    if (now >= this.nextSaccade) {
+      this.saccade = { yaw: (Math.random() - 0.5) * 0.06, pitch: (Math.random() - 0.5) * 0.04 };
+      this.nextSaccade = now + 300 + Math.random() * 1500;
+    }
+
+    let aversion: GazeAngles = { yaw: 0, pitch: 0 };
+    if (this.mode !== 'attentive') {
+      const config = AVERSION[this.mode];
+      if (now >= this.nextAversionChange) {
+        this.averted = !this.averted;
+        if (this.averted) this.aversionSide = Math.random() < 0.5 ? -1 : 1;
+        this.nextAversionChange = now + between(this.averted ? config.awayMs : config.backMs);
+      }
+      if (this.averted) {
+        aversion = { yaw: config.offset.yaw * this.aversionSide, pitch: config.offset.pitch };
+      }
+    }
+
+    const goal: GazeAngles = {
+      yaw: this.target.yaw + aversion.yaw,
+      pitch: this.target.pitch + aversion.pitch
+    };
+    if (Math.hypot(goal.yaw - this.lastGoal.yaw, goal.pitch - this.lastGoal.pitch) > SHIFT_BLINK_THRESHOLD) {
+      this.onShift?.();
+    }
+    this.lastGoal = goal;
+
+    const headFollow = 1 - Math.exp(-delta * HEAD_SPEED);
+    this.head.yaw += (clamp(goal.yaw * HEAD_SHARE, HEAD_LIMIT.yaw) - this.head.yaw) * headFollow;
+    this.head.pitch += (clamp(goal.pitch * HEAD_SHARE, HEAD_LIMIT.pitch) - this.head.pitch) * headFollow;
+
+    // Eyes cover whatever the head has not turned yet, plus the saccade
+    const eyeFollow = 1 - Math.exp(-delta * EYE_SPEED);
+    const eyeYaw = clamp(goal.yaw - this.head.yaw + this.saccade.yaw, EYE_LIMIT.yaw);
+    const eyePitch = clamp(goal.pitch - this.head.pitch + this.saccade.pitch, EYE_LIMIT.pitch);
+    this.eyes.yaw += (eyeYaw - this.eyes.yaw) * eyeFollow;
+    this.eyes.pitch += (eyePitch - this.eyes.pitch) * eyeFollow;
+
+    return { eyes: { ...this.eyes }, head: { ...this.head } };
+  }
+}
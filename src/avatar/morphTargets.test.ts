@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import * as THREE from 'three';
+import { MorphTargetIndex } from './morphTargets';
+
+const meshWith = (names: string[]) => {
+  const mesh = new THREE.Mesh();
+  mesh.morphTargetDictionary = Object.fromEntries(names.map((name, index) => [name, index]));
+  mesh.morphTargetInfluences = names.map(() => 0);
+  return mesh;
+};
+
+const influence = (mesh: THREE.Mesh, name: string) => mesh.morphTargetInfluences![mesh.morphTargetDictionary![name]];
+
+describe('MorphTargetIndex', () => {
+  it('finds shapes by name in any case, across every mesh that has them', () => {
+    const face = meshWith(['JawOpen', 'eyeBlinkLeft']);
+    const teeth = meshWith(['jawOpen']);
+    const root = new THREE.Group().add(face, teeth);
+    const index = new MorphTargetIndex(root);
+
+    expect(index.has('jawopen')).toBe(true);
+    expect(index.get('JAWOPEN')).toHaveLength(2);
+    expect(index.has('mouthSmile')).toBe(false);
+    expect(new MorphTargetIndex(new THREE.Group()).isEmpty).toBe(true);
+  });
+
+  it("maps standard names onto the model's own shapes", () => {
+    const face = meshWith(['Fcl_MTH_A']);
+    const index = new MorphTargetIndex(face, { aa: 'Fcl_MTH_A' });
+
+    index.add('aa', 0.7);
+    index.flush();
+
+    expect(index.has('aa')).toBe(true);
+    expect(influence(face, 'Fcl_MTH_A')).toBeCloseTo(0.7);
+  });
+
+  it('sums what each layer adds in a frame and clamps the result', () => {
+    const face = meshWith(['jawOpen', 'mouthFunnel']);
+    const index = new MorphTargetIndex(face);
+
+    index.add('jawOpen', 0.6);
+    index.add('jawOpen', 0.7);
+    index.add('mouthFunnel', -0.4);
+    index.add('unknownShape', 1);
+    index.flush();
+
+    expect(influence(face, 'jawOpen')).toBe(1);
+    expect(influence(face, 'mouthFunnel')).toBe(0);
+  });
+
+  it('resets shapes nobody drove in the next frame', () => {
+    const face = meshWith(['jawOpen', 'mouthSmileLeft']);
+    const index = new MorphTargetIndex(face);
+
+    index.add('jawOpen', 0.5);
+    index.add('mouthSmileLeft', 0.5);
+    index.flush();
+    index.add('mouthSmileLeft', 0.2);
+    index.flush();
+
+    expect(influence(face, 'jawOpen')).toBe(0);
+    expect(influence(face, 'mouthSmileLeft')).toBeCloseTo(0.2);
+  });
+});
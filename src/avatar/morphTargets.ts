@@ -0,0 +1,90 @@
+import * as THREE from 'three';
+
+export interface MorphBinding {
+  mesh: THREE.Mesh;
+  index: number;
+}
+
+/**
+ * A set of named blend shapes the avatar layers (visemes, expressions,
+ * blinking) write into. Weights are accumulated per frame and written by flush().
+ */
+export interface ShapeTargets {
+  has(name: string): boolean;
+  add(name: string, weight: number): void;
+  flush(): void;
+}
+
+/**
+ * Case-insensitive lookup of every morph target (blend shape) in a model,
+ * grouped by name across meshes so one shape can be driven on all of them.
+ */
+export class MorphTargetIndex implements ShapeTargets {
+  private bindings: Map<string, MorphBinding[]> = new Map();
+  private aliases: Map<string, string> = new Map();
+  private pending: Map<string, number> = new Map();
+  private written: Set<string> = new Set();
+
+  /** `aliases` maps standard shape names onto this model's own morph target names */
+  constructor(root: THREE.Object3D, aliases: Record<string, string> = {}) {
+    Object.entries(aliases).forEach(([standard, actual]) => {
+      this.aliases.set(standard.toLowerCase(), actual.toLowerCase());
+    });
+
+    root.traverse((child) => {
+      if (!(child instanceof THREE.Mesh) || !child.morphTargetDictionary || !child.morphTargetInfluences) return;
+      Object.entries(child.morphTargetDictionary).forEach(([name, index]) => {
+        const key = name.toLowerCase();
+        if (!this.bindings.has(key)) this.bindings.set(key, []);
+        this.bindings.get(key)!.push({ mesh: child, index });
+      });
+    });
+  }
+
+  get isEmpty(): boolean {
+    return this.bindings.size === 0;
+  }
+
+  private resolve(name: string): string {
+    const key = name.toLowerCase();
+    return this.aliases.get(key) ?? key;
+  }
+
+  has(name: string): boolean {
+    return this.bindings.has(this.resolve(name));
+  }
+
+  get(name: string): MorphBinding[] {
+    return this.bindings.get(this.resolve(name)) ?? [];
+  }
+
+  set(name: string, weight: number) {
+    this.get(name).forEach(({ mesh, index }) => {
+      mesh.morphTargetInfluences![index] = weight;
+    });
+  }
+
+  /**
+   * Add to a shape's weight for this frame. Several layers (visemes,
+   * expressions, tracking) can contribute to the same shape; flush() writes
+   * the clamped sums once per frame.
+   */
+  add(name: string, weight: number) {
+    const key = this.resolve(name);
+    if (!this.bindings.has(key) || weight === 0) return;
+    this.pending.set(key, (this.pending.get(key) ?? 0) + weight);
+  }
+
+  /** Write accumulated weights and reset shapes nobody drove this frame */
+  flush() {
+    this.written.forEach(key => {
+      if (!this.pending.has(key)) this.set(key, 0);
+    });
+    this.written.clear();
+    this.pending.forEach((weight, key) => {
+      this.set(key, Math.min(1, Math.max(0, weight)));
+      this.written.add(key);
+    });
+    this.pending.clear();
+  }
+}
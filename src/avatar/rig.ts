@@ -0,0 +1,105 @@
+import * as THREE from 'three';
+import type { VRM, VRMHumanBoneName } from '@pixiv/three-vrm';
+import { AvatarBone, AvatarManifest } from '../types';
+
+// Common node names per bone across Mixamo, VRoid/VRM raw rigs and generic exports
+const BONE_NAME_PATTERNS: Record<AvatarBone, RegExp> = {
+  hips: /^(mixamorig:?)?hips$|j_bip_c_hips|pelvis/i,
+  spine: /^(mixamorig:?)?spine$|j_bip_c_spine$/i,
+  chest: /^(mixamorig:?)?spine[12]$|j_bip_c_chest|^chest$/i,
+  neck: /^(mixamorig:?)?neck$|j_bip_c_neck/i,
+  head: /^(mixamorig:?)?head$|j_bip_c_head/i,
+  leftEye: /^(mixamorig:?)?lefteye$|j_adj_l_faceeye|^eye[._]?l$/i,
+  rightEye: /^(mixamorig:?)?righteye$|j_adj_r_faceeye|^eye[._]?r$/i,
+  leftShoulder: /^(mixamorig:?)?leftshoulder$|j_bip_l_shoulder/i,
+  rightShoulder: /^(mixamorig:?)?rightshoulder$|j_bip_r_shoulder/i,
+  leftUpperArm: /^(mixamorig:?)?leftarm$|j_bip_l_upperarm|upper_?arm[._]?l$/i,
+  rightUpperArm: /^(mixamorig:?)?rightarm$|j_bip_r_upperarm|upper_?arm[._]?r$/i,
+  leftLowerArm: /^(mixamorig:?)?leftforearm$|j_bip_l_lowerarm|fore_?arm[._]?l$/i,
+  rightLowerArm: /^(mixamorig:?)?rightforearm$|j_bip_r_lowerarm|fore_?arm[._]?r$/i,
+  leftHand: /^(mixamorig:?)?lefthand$|j_bip_l_hand|^hand[._]?l$/i,
+  rightHand: /^(mixamorig:?)?righthand$|j_bip_r_hand|^hand[._]?r$/i
+};
+
+const BONES = Object.keys(BONE_NAME_PATTERNS) as AvatarBone[];
+
+/**
+ * Humanoid bones of the loaded avatar. Procedural layers (expressions, sway,
+ * gaze) add rotation offsets each frame; flush() applies them on top of the
+ * bone's base pose.
+ */
+export class AvatarRig {
+  private bones: Partial<Record<AvatarBone, THREE.Object3D>> = {};
+  private basePose: Map<THREE.Object3D, THREE.Quaternion> = new Map();
+  private offsets: Map<AvatarBone, THREE.Euler> = new Map();
+  private scratch = new THREE.Quaternion();
+
+  constructor(root: THREE.Object3D, manifest?: AvatarManifest, vrm?: VRM) {
+    BONES.forEach(bone => {
+      const declared = manifest?.bones?.[bone];
+      const node = (declared && root.getObjectByName(declared))
+        || vrm?.humanoid?.getNormalizedBoneNode(bone as VRMHumanBoneName)
+        || this.findByName(root, BONE_NAME_PATTERNS[bone]);
+      if (node) {
+        this.bones[bone] = node;
+        this.basePose.set(node, node.quaternion.clone());
+      } else if (declared) {
+        console.warn(`AvatarRig: Manifest bone "${declared}" for ${bone} not found`);
+      }
+    });
+  }
+
+  private findByName(root: THREE.Object3D, pattern: RegExp): THREE.Object3D | undefined {
+    let found: THREE.Object3D | undefined;
+    root.traverse((child) => {
+      if (!found && (child as THREE.Bone).isBone && pattern.test(child.name)) {
+        found = child;
+      }
+    });
+    return found;
+  }
+
+  get(bone: AvatarBone): THREE.Object3D | undefined {
+    return this.bones[bone];
+  }
+
+  has(bone: AvatarBone): boolean {
+    return this.bones[bone] !== undefined;
+  }
+
+  /** Add a rotation offset (radians) for this frame */
+  addRotation(bone: AvatarBone, x: number, y: number, z: number) {
+    if (!this.bones[bone]) return;
+    const offset = this.offsets.get(bone) ?? new THREE.Euler();
+    offset.set(offset.x + x, offset.y + y, offset.z + z);
+    this.offsets.set(bone, offset);
+  }
+
+  /** Put every bone back in its base pose, undoing the last flush */
+  restore() {
+    Object.values(this.bones).forEach(node => {
+      node!.quaternion.copy(this.basePose.get(node!)!);
+    });
+  }
+
+  /** Re-capture the base pose, e.g. after an animation mixer has posed the skeleton */
+  captureBasePose() {
+    Object.values(this.bones).forEach(node => {
+      this.basePose.get(node!)?.copy(node!.quaternion);
+    });
+  }
+
+  /** Apply this frame's offsets on top of the base pose and clear them */
+  flush() {
+    (Object.entries(this.bones) as Array<[AvatarBone, THREE.Object3D]>).forEach(([bone, node]) => {
+      const base = this.basePose.get(node)!;
+      const offset = this.offsets.get(bone);
+      if (offset) {
+        node.quaternion.copy(base).multiply(this.scratch.setFromEuler(offset));
+      } else {
+        node.quaternion.copy(base);
+      }
+    });
+    this.offsets.clear();
+  }
+}
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import { ShapeTargets } from './morphTargets';
+import { VisemePlayback, VisemeRig, VisemeTrack, toViseme, toVisemeCues } from './visemes';
+
+/** Records what a rig adds, for models that have the given shapes */
+const shapes = (names: string[]) => {
+  const added = new Map<string, number>();
+  const targets: ShapeTargets = {
+    has: name => names.some(candidate => candidate.toLowerCase() === name.toLowerCase()),
+    add: (name, weight) => added.set(name, weight),
+    flush: () => added.clear()
+  };
+  return { targets, added };
+};
+
+describe('toViseme', () => {
+  it('accepts Oculus viseme IDs and names in any case', () => {
+    expect(toViseme(0)).toBe('sil');
+    expect(toViseme(10)).toBe('aa');
+    expect(toViseme('PP')).toBe('PP');
+    expect(toViseme('AA')).toBe('aa');
+    expect(toViseme('kk')).toBe('kk');
+  });
+
+  it('maps ARPAbet phonemes, ignoring stress digits', () => {
+    expect(toViseme('B')).toBe('PP');
+    expect(toViseme('dh')).toBe('TH');
+    expect(toViseme('IY1')).toBe('I');
+    expect(toViseme('OW0')).toBe('O');
+  });
+
+  it('falls back to silence for anything unknown', () => {
+    expect(toViseme(15)).toBe('sil');
+    expect(toViseme(-1)).toBe('sil');
+    expect(toViseme('QX')).toBe('sil');
+    expect(toViseme('constructor')).toBe('sil');
+  });
+
+  it('turns server entries into cues with full weight by default', () => {
+    expect(toVisemeCues([{ id: 'M', time: 0 }, { id: 10, time: 120, weight: 0.5 }])).toEqual([
+      { time: 0, viseme: 'PP', weight: 1 },
+      { time: 120, viseme: 'aa', weight: 0.5 }
+    ]);
+  });
+});
+
+describe('VisemeTrack', () => {
+  const track = new VisemeTrack([
+    { time: 200, viseme: 'O', weight: 1 },
+    { time: 0, viseme: 'PP', weight: 1 },
+    { time: 100, viseme: 'aa', weight: 0.5 }
+  ]);
+
+  it('sorts its cues and lasts until the last one has blended in', () => {
+    expect(track.cues.map(cue => cue.viseme)).toEqual(['PP', 'aa', 'O']);
+    expect(track.duration).toBe(280);
+    expect(new VisemeTrack([]).duration).toBe(0);
+  });
+
+  it('is silent before the first cue and after the end', () => {
+    expect(track.sample(-10)).toEqual({});
+    expect(track.sample(281)).toEqual({});
+  });
+
+  it('cross-fades from the previous cue to the current one', () => {
+    const halfway = track.sample(140);
+    expect(halfway.aa).toBeCloseTo(0.25);
+    expect(halfway.PP).toBeCloseTo(0.5);
+
+    expect(track.sample(190)).toEqual({ aa: 0.5 });
+  });
+
+  it('adds up a viseme that blends into itself', () => {
+    const repeated = new VisemeTrack([
+      { time: 0, viseme: 'aa', weight: 1 },
+      { time: 100, viseme: 'aa', weight: 1 }
+    ]);
+    expect(repeated.sample(120).aa).toBeCloseTo(1);
+  });
+});
+
+describe('VisemePlayback', () => {
+  const track = new VisemeTrack([{ time: 0, viseme: 'aa', weight: 1 }, { time: 500, viseme: 'O', weight: 1 }]);
+
+  it('follows the audio clock rather than arrival time', () => {
+    const playback = new VisemePlayback(track, 0, true);
+    expect(playback.sample(5000, 0.5)).toEqual({ O: 0, aa: 1 });
+    expect(playback.sample(5040, 0.54)?.O).toBeCloseTo(0.5);
+  });
+
+  it('holds cues that arrive before their audio until playback begins', () => {
+    const playback = new VisemePlayback(track, 0, true);
+    expect(playback.sample(300, null)).toBeNull();
+    expect(playback.sample(900, null)).toBeNull();
+    expect(playback.finished).toBe(false);
+
+    expect(playback.sample(950, 0)).toEqual({ aa: 0 });
+    expect(playback.sample(1050, 0.1)).toEqual({ aa: 1 });
+  });
+
+  it('keeps its anchor when the audio clock goes away, so the mouth does not jump back', () => {
+    const playback = new VisemePlayback(track, 0, true);
+    playback.sample(100, 0.3);
+    expect(playback.sample(380, null)).toEqual({ O: 1 });
+    expect(playback.sample(700, null)).toBeNull();
+    expect(playback.finished).toBe(true);
+    expect(playback.sample(700, 0)).toBeNull();
+  });
+
+  it('plays on its own once the audio is overdue', () => {
+    const playback = new VisemePlayback(track, 0, true);
+    expect(playback.sample(999, null)).toBeNull();
+    expect(playback.sample(1000, null)).toEqual({ aa: 0 });
+    expect(playback.sample(1580, null)).toEqual({ O: 1 });
+  });
+
+  it('starts at once when there is no audio clock to wait for', () => {
+    const playback = new VisemePlayback(track, 0, false);
+    expect(playback.sample(40, null)?.aa).toBeCloseTo(0);
+    expect(playback.sample(120, null)).toEqual({ aa: 1 });
+  });
+});
+
+describe('VisemeRig', () => {
+  it('drives viseme_* shapes directly', () => {
+    const { targets, added } = shapes(['viseme_PP', 'viseme_FF', 'viseme_TH', 'viseme_DD', 'viseme_kk', 'viseme_CH',
+      'viseme_SS', 'viseme_nn', 'viseme_RR', 'viseme_aa', 'viseme_E', 'viseme_I', 'viseme_O', 'viseme_U']);
+    const rig = new VisemeRig(targets);
+
+    rig.apply({ O: 0.8 }, 0, 1);
+
+    expect(rig.hasMouthShapes).toBe(true);
+    expect(added.get('viseme_o')).toBeCloseTo(0.8);
+  });
+
+  it('approximates visemes with ARKit shapes and VRM vowels', () => {
+    const arkit = shapes(['jawOpen', 'mouthFunnel']);
+    new VisemeRig(arkit.targets).apply({ O: 1 }, 0, 1);
+    expect(arkit.added.get('jawopen')).toBeCloseTo(0.4);
+    expect(arkit.added.get('mouthfunnel')).toBeCloseTo(0.6);
+
+    const vrm = shapes(['aa', 'ih', 'ou', 'ee', 'oh']);
+    new VisemeRig(vrm.targets).apply({ SS: 1 }, 0, 1);
+    expect(vrm.added.get('ih')).toBeCloseTo(0.5);
+  });
+
+  it('opens on plain mouth intensity when no track is playing', () => {
+    const { targets, added } = shapes(['jawOpen']);
+    new VisemeRig(targets).apply(null, 0.5, 1);
+    expect(added.get('jawopen')).toBeCloseTo(0.3);
+  });
+
+  it('eases towards the target and back to rest', () => {
+    const { targets, added } = shapes(['aa']);
+    const rig = new VisemeRig(targets);
+
+    rig.apply({ aa: 1 }, 0, 0.5);
+    expect(added.get('aa')).toBeCloseTo(0.5);
+    rig.apply({}, 0, 0.5);
+    expect(added.get('aa')).toBeCloseTo(0.25);
+  });
+
+  it('does nothing for a model without mouth shapes', () => {
+    const { targets, added } = shapes(['eyeBlinkLeft']);
+    const rig = new VisemeRig(targets);
+    rig.apply({ aa: 1 }, 1, 1);
+    expect(rig.hasMouthShapes).toBe(false);
+    expect(added.size).toBe(0);
+  });
+});
@@ -0,0 +1,219 @@
+import { ShapeTargets } from './morphTargets';
+
+/** Oculus OVR LipSync viseme set, in its canonical ID order (0–14) */
+export const VISEMES = [
+  'sil', 'PP', 'FF', 'TH', 'DD', 'kk', 'CH', 'SS', 'nn', 'RR', 'aa', 'E', 'I', 'O', 'U'
+] as const;
+
+export type Viseme = typeof VISEMES[number];
+
+export interface VisemeCue {
+  /** Milliseconds from the start of the utterance */
+  time: number;
+  viseme: Viseme;
+  weight: number;
+}
+
+// ARPAbet phonemes (stress digits stripped) to the closest viseme
+const PHONEME_TO_VISEME: Record<string, Viseme> = {
+  P: 'PP', B: 'PP', M: 'PP',
+  F: 'FF', V: 'FF',
+  TH: 'TH', DH: 'TH',
+  T: 'DD', D: 'DD',
+  K: 'kk', G: 'kk', NG: 'kk', HH: 'kk',
+  CH: 'CH', JH: 'CH', SH: 'CH', ZH: 'CH',
+  S: 'SS', Z: 'SS',
+  N: 'nn', L: 'nn',
+  R: 'RR', ER: 'RR',
+  AA: 'aa', AE: 'aa', AH: 'aa', AY: 'aa', AW: 'aa',
+  EH: 'E', EY: 'E',
+  IH: 'I', IY: 'I', Y: 'I',
+  AO: 'O', OW: 'O', OY: 'O',
+  UH: 'U', UW: 'U', W: 'U'
+};
+
+// ARKit has no viseme shapes, so each viseme is approximated from its mouth blend shapes
+const ARKIT_VISEME_SHAPES: Record<Viseme, Record<string, number>> = {
+  sil: {},
+  PP: { mouthClose: 0.6, mouthPressLeft: 0.4, mouthPressRight: 0.4 },
+  FF: { mouthRollLower: 0.6, mouthUpperUpLeft: 0.2, mouthUpperUpRight: 0.2 },
+  TH: { jawOpen: 0.15, tongueOut: 0.4 },
+  DD: { jawOpen: 0.2, mouthShrugUpper: 0.2 },
+  kk: { jawOpen: 0.25, mouthStretchLeft: 0.2, mouthStretchRight: 0.2 },
+  CH: { jawOpen: 0.15, mouthFunnel: 0.5 },
+  SS: { jawOpen: 0.1, mouthSmileLeft: 0.3, mouthSmileRight: 0.3 },
+  nn: { jawOpen: 0.15, mouthShrugUpper: 0.3 },
+  RR: { jawOpen: 0.15, mouthPucker: 0.4 },
+  aa: { jawOpen: 0.6 },
+  E: { jawOpen: 0.35, mouthStretchLeft: 0.4, mouthStretchRight: 0.4 },
+  I: { jawOpen: 0.2, mouthSmileLeft: 0.5, mouthSmileRight: 0.5 },
+  O: { jawOpen: 0.4, mouthFunnel: 0.6 },
+  U: { jawOpen: 0.2, mouthPucker: 0.7 }
+};
+
+// VRM presets only cover the five vowels; consonants borrow the nearest one
+const VRM_VISEME_SHAPES: Record<Viseme, Record<string, number>> = {
+  sil: {},
+  PP: {}, FF: { ih: 0.3 }, TH: { ih: 0.3 }, DD: { ih: 0.4 }, kk: { aa: 0.3 },
+  CH: { ou: 0.4 }, SS: { ih: 0.5 }, nn: { ih: 0.3 }, RR: { ou: 0.4 },
+  aa: { aa: 1 }, E: { ee: 1 }, I: { ih: 1 }, O: { oh: 1 }, U: { ou: 1 }
+};
+
+const BLEND_MS = 80;
+
+/** Normalise a server viseme or phoneme ID into a known viseme */
+export function toViseme(id: number | string): Viseme {
+  if (typeof id === 'number') {
+    return VISEMES[id] ?? 'sil';
+  }
+  const exact = VISEMES.find(v => v === id) ?? VISEMES.find(v => v.toLowerCase() === id.toLowerCase());
+  if (exact) return exact;
+  return PHONEME_TO_VISEME[id.toUpperCase().replace(/[0-9]/g, '')] ?? 'sil';
+}
+
+/** Convert raw server entries (viseme IDs or phonemes) into cues */
+export function toVisemeCues(entries: Array<{ id: number | string; time: number; weight?: number }>): VisemeCue[] {
+  return entries.map(entry => ({
+    time: entry.time,
+    viseme: toViseme(entry.id),
+    weight: entry.weight ?? 1
+  }));
+}
+
+/**
+ * A timed viseme track. Sampling cross-fades from each cue to the next over
+ * BLEND_MS so the mouth moves smoothly between shapes.
+ */
+export class VisemeTrack {
+  readonly cues: VisemeCue[];
+
+  constructor(cues: VisemeCue[]) {
+    this.cues = [...cues].sort((a, b) => a.time - b.time);
+  }
+
+  get duration(): number {
+    return this.cues.length ? this.cues[this.cues.length - 1].time + BLEND_MS : 0;
+  }
+
+  sample(timeMs: number): Partial<Record<Viseme, number>> {
+    const weights: Partial<Record<Viseme, number>> = {};
+    if (!this.cues.length || timeMs < this.cues[0].time || timeMs > this.duration) {
+      return weights;
+    }
+
+    let index = 0;
+    while (index + 1 < this.cues.length && this.cues[index + 1].time <= timeMs) {
+      index++;
+    }
+
+    const current = this.cues[index];
+    const previous = this.cues[index - 1];
+    const fadeIn = Math.min(1, (timeMs - current.time) / BLEND_MS);
+
+    weights[current.viseme] = current.weight * fadeIn;
+    if (previous && fadeIn < 1) {
+      weights[previous.viseme] = (weights[previous.viseme] ?? 0) + previous.weight * (1 - fadeIn);
+    }
+    return weights;
+  }
+}
+
+// Cues that arrive ahead of their audio wait this long for it before playing on their own
+const AUDIO_WAIT_MS = 1000;
+
+/**
+ * Plays a viseme track against the utterance's audio. Cue times count from
+ * the start of playback, so a track that arrives before its audio holds
+ * until playback begins. Without an audio clock, or when the audio never
+ * comes, it counts from when it stopped waiting. Once started it keeps its
+ * anchor, so it does not jump when the clock appears or goes away.
+ */
+export class VisemePlayback {
+  private startedAt: number | null = null;
+  private ended = false;
+
+  constructor(
+    readonly track: VisemeTrack,
+    private receivedAt: number,
+    private waitsForAudio: boolean
+  ) {}
+
+  /** True once the whole track has played */
+  get finished(): boolean {
+    return this.ended;
+  }
+
+  /**
+   * Viseme weights at `now` (ms), or null while waiting for the audio and
+   * after the track ends. `playbackTime` is seconds of the utterance's audio
+   * played so far, or null when none is playing.
+   */
+  sample(now: number, playbackTime: number | null): Partial<Record<Viseme, number>> | null {
+    if (this.ended) return null;
+    if (playbackTime !== null) {
+      this.startedAt = now - playbackTime * 1000;
+    } else if (this.startedAt === null && (!this.waitsForAudio || now - this.receivedAt >= AUDIO_WAIT_MS)) {
+      this.startedAt = now;
+    }
+    if (this.startedAt === null) return null;
+
+    const elapsed = now - this.startedAt;
+    if (elapsed > this.track.duration) {
+      this.ended = true;
+      return null;
+    }
+    return this.track.sample(elapsed);
+  }
+}
+
+/**
+ * Drives mouth morph targets from viseme weights. Supports Oculus-style
+ * `viseme_*` shapes directly, and approximates visemes on ARKit or VRM rigs.
+ */
+export class VisemeRig {
+  private shapeTable: Record<Viseme, Record<string, number>> | null = null;
+  private current: Map<string, number> = new Map();
+
+  constructor(private morphs: ShapeTargets) {
+    if (VISEMES.every(v => v === 'sil' || morphs.has(`viseme_${v}`))) {
+      this.shapeTable = Object.fromEntries(
+        VISEMES.map(v => [v, v === 'sil' ? {} : { [`viseme_${v}`]: 1 }])
+      ) as Record<Viseme, Record<string, number>>;
+    } else if (morphs.has('jawOpen')) {
+      this.shapeTable = ARKIT_VISEME_SHAPES;
+    } else if (morphs.has('aa')) {
+      this.shapeTable = VRM_VISEME_SHAPES;
+    }
+  }
+
+  /** True when the model has mouth morph targets this rig can drive */
+  get hasMouthShapes(): boolean {
+    return this.shapeTable !== null;
+  }
+
+  /**
+   * Blend towards the given viseme weights, adding the result to this frame's
+   * morph weights (the caller flushes). `openness` (0–1) is used instead
+   * when no track is active, mapping plain mouth intensity onto the `aa` shape.
+   */
+  apply(weights: Partial<Record<Viseme, number>> | null, openness: number, smoothing: number) {
+    if (!this.shapeTable) return;
+
+    const target: Map<string, number> = new Map();
+    const source = weights ?? { aa: openness };
+    (Object.entries(source) as Array<[Viseme, number]>).forEach(([viseme, weight]) => {
+      Object.entries(this.shapeTable![viseme]).forEach(([shape, amount]) => {
+        const key = shape.toLowerCase();
+        target.set(key, Math.min(1, (target.get(key) ?? 0) + amount * weight));
+      });
+    });
+
+    const keys = new Set([...this.current.keys(), ...target.keys()]);
+    keys.forEach(key => {
+      const previous = this.current.get(key) ?? 0;
+      const next = previous + ((target.get(key) ?? 0) - previous) * smoothing;
+      this.current.set(key, next);
+      this.morphs.add(key, next);
+    });
+  }
+}
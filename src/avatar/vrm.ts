@@ -0,0 +1,48 @@
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRM, VRMLoaderPlugin } from '@pixiv/three-vrm';
+import { ShapeTargets } from './morphTargets';
+
+/** useLoader extension for three's GLTFLoader: parse VRM extensions so `gltf.userData.vrm` is populated */
+export function registerVrmPlugin(loader: GLTFLoader) {
+  loader.register((parser) => new VRMLoaderPlugin(parser));
+}
+
+/**
+ * ShapeTargets backed by a VRM's expression manager, so visemes, emotions
+ * and blinks use the model's own presets (aa, happy, blink, …).
+ */
+export class VrmShapeTargets implements ShapeTargets {
+  private names: Map<string, string> = new Map();
+  private pending: Map<string, number> = new Map();
+  private written: Set<string> = new Set();
+
+  constructor(private vrm: VRM) {
+    vrm.expressionManager?.expressions.forEach(expression => {
+      this.names.set(expression.expressionName.toLowerCase(), expression.expressionName);
+    });
+  }
+
+  has(name: string): boolean {
+    return this.names.has(name.toLowerCase());
+  }
+
+  add(name: string, weight: number) {
+    const actual = this.names.get(name.toLowerCase());
+    if (!actual || weight === 0) return;
+    this.pending.set(actual, (this.pending.get(actual) ?? 0) + weight);
+  }
+
+  flush() {
+    const manager = this.vrm.expressionManager;
+    if (!manager) return;
+    this.written.forEach(name => {
+      if (!this.pending.has(name)) manager.setValue(name, 0);
+    });
+    this.written.clear();
+    this.pending.forEach((weight, name) => {
+      manager.setValue(name, Math.min(1, Math.max(0, weight)));
+      this.written.add(name);
+    });
+    this.pending.clear();
+  }
+}
@@ -1,36 +1,135 @@
 import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
-import { useFrame } from '@react-three/fiber';
-import { useGLTF } from '@react-three/drei';
+import { useFrame, useLoader } from '@react-three/fiber';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
 import * as THREE from 'three';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { VRM, VRMUtils } from '@pixiv/three-vrm';
+import { MorphTargetIndex, ShapeTargets } from '../avatar/morphTargets';
+import { AvatarRig } from '../avatar/rig';
+import { AvatarAnimator } from '../avatar/animation';
+import { BlinkController } from '../avatar/blink';
+import { GazeController, GazeSource, gazeAnglesTo } from '../avatar/gaze';
+import { registerVrmPlugin, VrmShapeTargets } from '../avatar/vrm';
+import { VisemeRig, VisemeTrack, VisemePlayback, VisemeCue, Viseme } from '../avatar/visemes';
+import { ExpressionController } from '../avatar/expressions';
+import { FacePose } from '../avatar/faceTracking';
+import { Emotion, AvatarModel } from '../types';
+import { DEFAULT_AVATAR } from '../services/avatarRegistry';
+
+/** What an avatar is doing, for callers that need to check before commanding it */
+export interface AvatarState {
+  speaking: boolean;
+  emotion: Emotion;
+  /** Point set with `lookAt`, or null while following the gaze source */
+  lookingAt: { x: number; y: number } | null;
+}
 
 export interface Avatar3DRef {
   triggerMouthMovement: (duration: number) => void;
   speak: (duration: number) => void;
+  stopSpeaking: () => void;
+  /** Play a timed viseme track, timed from the start of the utterance's audio (or from now when none is playing) */
+  setVisemes: (cues: VisemeCue[]) => void;
+  /** Ease into an emotion; it decays back to neutral after `holdMs` (Infinity holds until replaced) */
+  setEmotion: (emotion: Emotion, intensity?: number, holdMs?: number) => void;
+  /** Play a gesture clip (or built-in gesture) once, cross-fading back to idle; false if unavailable */
+  playGesture: (name: string) => boolean;
+  /** Look at a pointer-style point (-1..1) regardless of the gaze source; null to follow it again */
+  lookAt: (point: { x: number; y: number } | null) => void;
+  getState: () => AvatarState;
 }
 
 interface Avatar3DProps {
+  /** Model to render; swap it (with a new React key) to change avatars without reloading */
+  model?: AvatarModel;
   onLoad?: () => void;
   onMouthMove?: (isMoving: boolean) => void;
   onMouthAnimation?: (intensity: number) => void;
+  /** Per-frame RMS of the speech being played, or null when no audio is playing */
+  getAudioLevel?: () => number | null;
+  /** Seconds into the utterance being played, or null when no audio is playing; viseme cues are timed against it */
+  getPlaybackTime?: () => number | null;
+  onEmotionChange?: (emotion: Emotion) => void;
+  /** What the eyes and head follow (default: the camera) */
+  gazeSource?: GazeSource;
+  /** Viewer's face position (-1..1, pointer-style) for the `webcam` gaze source; null when not in view */
+  getFacePosition?: () => { x: number; y: number } | null;
+  /** True while the user is speaking, so the avatar glances away as it listens */
+  listening?: boolean;
+  /** Tracked performer's face; while it returns a pose it drives the head, eyes, blinks and mouth */
+  getFacePose?: () => FacePose | null;
+}
+
+// RMS of normal speech rarely exceeds ~0.3, so scale it up to a 0–1 mouth opening
+const AUDIO_LEVEL_GAIN = 4;
+
+// Scratch objects for the per-frame gaze target
+const gazeOrigin = new THREE.Vector3();
+const gazeTarget = new THREE.Vector3();
+const gazePointer = new THREE.Vector2();
+const gazeRaycaster = new THREE.Raycaster();
+
+interface SceneFit {
+  scale: number;
+  position: THREE.Vector3;
 }
 
+// Center the model and scale it to fit the viewport
+const measureFit = (scene: THREE.Object3D): SceneFit => {
+  const box = new THREE.Box3().setFromObject(scene);
+  const center = box.getCenter(new THREE.Vector3());
+  const size = box.getSize(new THREE.Vector3());
+  const scale = 2.5 / Math.max(size.x, size.y, size.z);
+  const position = scene.position.clone().sub(center.multiplyScalar(scale));
+  position.y -= size.y * scale * 0.1;
+  return { scale, position };
+};
+
+// The VRM currently on screen; the loader cache keeps it for remounts until another model replaces it
+let retainedVrm: { url: string; vrm: VRM } | null = null;
+
 export const Avatar3D = forwardRef<Avatar3DRef, Avatar3DProps>(
-  ({ onLoad, onMouthMove, onMouthAnimation }, ref) => {
+  (
+    {
+      model = DEFAULT_AVATAR, onLoad, onMouthMove, onMouthAnimation, getAudioLevel, getPlaybackTime, onEmotionChange,
+      gazeSource = 'camera', getFacePosition, listening = false, getFacePose
+    },
+    ref
+  ) => {
     const groupRef = useRef<THREE.Group>(null);
-    const { scene } = useGLTF('/fantasy-female-character.glb');
+    const gltf = useLoader(GLTFLoader, model.url, registerVrmPlugin);
+    const { scene } = gltf;
+    const vrm = gltf.userData.vrm as VRM | undefined;
     
     const [eyeMeshes, setEyeMeshes] = useState<THREE.Mesh[]>([]);
     const [originalEyeScales, setOriginalEyeScales] = useState<THREE.Vector3[]>([]);
     const [mouthMesh, setMouthMesh] = useState<THREE.Mesh | null>(null);
     const [originalMouthScale, setOriginalMouthScale] = useState<THREE.Vector3 | null>(null);
     
-    const blinkStateRef = useRef({
-      isBlinking: false,
-      lastBlinkTime: performance.now(),
-      blinkStartTime: 0,
-      blinkDuration: 150,
-      blinkInterval: 4500
-    });
+    const sceneRef = useRef<THREE.Object3D | null>(null);
+    const blinkRef = useRef<BlinkController | null>(null);
+    if (!blinkRef.current) {
+      blinkRef.current = new BlinkController();
+    }
+    const gazeRef = useRef<GazeController | null>(null);
+    if (!gazeRef.current) {
+      gazeRef.current = new GazeController(() => blinkRef.current!.trigger());
+    }
+    // Set through the control API; overrides the gaze source until cleared
+    const lookAtRef = useRef<{ x: number; y: number } | null>(null);
+
+    const shapeTargetsRef = useRef<ShapeTargets | null>(null);
+    const rigRef = useRef<AvatarRig | null>(null);
+    const animatorRef = useRef<AvatarAnimator | null>(null);
+    const visemeRigRef = useRef<VisemeRig | null>(null);
+    const visemePlaybackRef = useRef<VisemePlayback | null>(null);
+
+    const onEmotionChangeRef = useRef(onEmotionChange);
+    onEmotionChangeRef.current = onEmotionChange;
+    const expressionRef = useRef<ExpressionController | null>(null);
+    if (!expressionRef.current) {
+      expressionRef.current = new ExpressionController(emotion => onEmotionChangeRef.current?.(emotion));
+    }
 
     const mouthAnimationRef = useRef({
       isSpeaking: false,
@@ -42,53 +141,90 @@ export const Avatar3D = forwardRef<Avatar3DRef, Avatar3DProps>(
     useEffect(() => {
       if (!scene) return;
 
-      const clonedScene = scene.clone(true);
-      
-      // Auto-center and scale model
-      const box = new THREE.Box3().setFromObject(clonedScene);
-      const center = box.getCenter(new THREE.Vector3());
-      const size = box.getSize(new THREE.Vector3());
-      
-      const maxDim = Math.max(size.x, size.y, size.z);
-      const scale = 2.5 / maxDim;
+      const manifest = model.manifest;
+      // VRM scenes carry their humanoid/expression bindings, so use them as-is rather than cloning
+      const clonedScene = vrm ? vrm.scene : cloneSkinned(scene);
+      if (vrm) {
+        VRMUtils.rotateVRM0(vrm);
+      }
+      // Swapping models frees the previous VRM, and drops it from the cache so picking it again reloads it
+      if (retainedVrm && retainedVrm.vrm !== vrm) {
+        VRMUtils.deepDispose(retainedVrm.vrm.scene);
+        useLoader.clear(GLTFLoader, retainedVrm.url);
+        retainedVrm = null;
+      }
+      if (vrm) {
+        retainedVrm = { url: model.url, vrm };
+      }
       
-      clonedScene.scale.setScalar(scale);
-      clonedScene.position.sub(center.multiplyScalar(scale));
-      clonedScene.position.y -= size.y * scale * 0.1;
+      // Auto-center and scale model. A VRM scene is shared across mounts and already fitted after the first,
+      // so its fit is measured once and kept on the scene
+      let fit = clonedScene.userData.avatarFit as SceneFit | undefined;
+      if (!fit) {
+        fit = measureFit(clonedScene);
+        if (vrm) {
+          clonedScene.userData.avatarFit = fit;
+        }
+      }
+      clonedScene.scale.setScalar(fit.scale);
+      clonedScene.position.copy(fit.position);
       
       if (groupRef.current) {
         groupRef.current.clear();
         groupRef.current.add(clonedScene);
       }
 
+      const shapeTargets: ShapeTargets = vrm
+        ? new VrmShapeTargets(vrm)
+        : new MorphTargetIndex(clonedScene, manifest?.shapes);
+      const hasBlinkShapes = shapeTargets.has('blink') || shapeTargets.has('eyeBlinkLeft');
+
       // Find eye meshes
       const foundEyes: THREE.Mesh[] = [];
       const eyeScales: THREE.Vector3[] = [];
-      
-      clonedScene.traverse((child) => {
-        if (child instanceof THREE.Mesh) {
-          const name = child.name.toLowerCase();
-          
-          // Search for eye meshes (Tripo nodes or by name patterns)
-          if (name.includes('eye') || name.includes('eyelid') || name.includes('lid')) {
-            foundEyes.push(child);
-            eyeScales.push(child.scale.clone());
-            console.log('Found eye mesh:', child.name);
+      let foundMouth: THREE.Mesh | null = null;
+
+      if (manifest?.eyes || manifest?.mouth) {
+        // Explicit mappings from the model manifest
+        manifest.eyes?.forEach(name => {
+          const eye = clonedScene.getObjectByName(name);
+          if (eye instanceof THREE.Mesh) {
+            foundEyes.push(eye);
+            eyeScales.push(eye.scale.clone());
+          } else {
+            console.warn(`Avatar3D: Manifest eye mesh "${name}" not found`);
           }
+        });
+        const mouth = manifest.mouth ? clonedScene.getObjectByName(manifest.mouth) : undefined;
+        if (mouth instanceof THREE.Mesh) {
+          foundMouth = mouth;
+        }
+      } else if (!vrm) {
+        // Name-based guessing for plain GLB models
+        clonedScene.traverse((child) => {
+          if (child instanceof THREE.Mesh) {
+            const name = child.name.toLowerCase();
           
-          // Search for mouth mesh
-          if (name.includes('mouth') || name.includes('lip') || name.includes('jaw')) {
-            if (!mouthMesh) {
-              setMouthMesh(child);
-              setOriginalMouthScale(child.scale.clone());
-              console.log('Found mouth mesh:', child.name);
+            // Search for eye meshes (Tripo nodes or by name patterns)
+            if (name.includes('eye') || name.includes('eyelid') || name.includes('lid')) {
+              foundEyes.push(child);
+              eyeScales.push(child.scale.clone());
+              console.log('Found eye mesh:', child.name);
+            }
+          
+            // Search for mouth mesh
+            if (name.includes('mouth') || name.includes('lip') || name.includes('jaw')) {
+              if (!foundMouth) {
+                foundMouth = child;
+                console.log('Found mouth mesh:', child.name);
+              }
             }
           }
-        }
-      });
+        });
+      }
 
       // Heuristic eye detection fallback
-      if (foundEyes.length === 0) {
+      if (foundEyes.length === 0 && !hasBlinkShapes && !vrm && !manifest?.eyes) {
         console.warn('No eye meshes found by name. Attempting heuristic detection...');
         
         clonedScene.traverse((child) => {
@@ -116,75 +252,181 @@ export const Avatar3D = forwardRef<Avatar3DRef, Avatar3DProps>(
         });
       }
 
+      const visemeRig = new VisemeRig(shapeTargets);
+      shapeTargetsRef.current = shapeTargets;
+      visemeRigRef.current = visemeRig;
+      const rig = new AvatarRig(clonedScene, manifest, vrm);
+      const animator = new AvatarAnimator(clonedScene, rig, gltf.animations);
+      if (manifest?.animations) {
+        animator.loadClips(manifest.animations);
+      }
+      rigRef.current = rig;
+      animatorRef.current = animator;
+      sceneRef.current = clonedScene;
+      if (vrm?.lookAt) {
+        // Gaze drives the VRM eyes directly instead of a look-at target
+        vrm.lookAt.autoUpdate = false;
+      }
+      if (visemeRig.hasMouthShapes) {
+        console.log('Avatar3D: Using morph targets for lip sync');
+      }
+
       setEyeMeshes(foundEyes);
       setOriginalEyeScales(eyeScales);
+      setMouthMesh(foundMouth);
+      setOriginalMouthScale(foundMouth ? (foundMouth as THREE.Mesh).scale.clone() : null);
       
-      if (foundEyes.length > 0) {
+      if (hasBlinkShapes) {
+        console.log('Avatar3D: Using blink shapes for blinking');
+      } else if (foundEyes.length > 0) {
         console.log(`Avatar3D initialized with ${foundEyes.length} eye meshes for blinking`);
       } else {
         console.warn('Avatar3D: No eye meshes found - blinking disabled');
       }
       
       onLoad?.();
-    }, [scene, onLoad]);
 
-    // Blink animation using useFrame and performance.now()
-    useFrame((state) => {
-      if (!groupRef.current) return;
+      return () => {
+        animator.dispose();
+        if (animatorRef.current === animator) {
+          animatorRef.current = null;
+        }
+      };
+    }, [scene, vrm, model, onLoad]);
 
-      // Subtle idle rotation
-      groupRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.3) * 0.1;
+    // Per-frame animation: body, gaze, blinks, mouth and expression layers
+    useFrame((state, delta) => {
+      if (!groupRef.current) return;
 
       const now = performance.now();
-      const blinkState = blinkStateRef.current;
+      const expression = expressionRef.current!.update(now);
+      const rig = rigRef.current;
+      const shapeTargets = shapeTargetsRef.current;
+      const facePose = getFacePose?.() ?? null;
 
-      // Auto-blink every 4.5 seconds
-      if (!blinkState.isBlinking && (now - blinkState.lastBlinkTime) > blinkState.blinkInterval) {
-        blinkState.isBlinking = true;
-        blinkState.blinkStartTime = now;
-        blinkState.lastBlinkTime = now;
+      // Clips, gestures, breathing and sway go on the bones; rigs without a head only sway as a whole
+      animatorRef.current?.update(delta);
+      if (rig?.has('head')) {
+        rig.addRotation('head', expression.head.pitch, expression.head.yaw, expression.head.roll);
+      } else {
+        groupRef.current.rotation.y = Math.sin(state.clock.elapsedTime * 0.3) * 0.1 + expression.head.yaw;
+        groupRef.current.rotation.x = expression.head.pitch;
+        groupRef.current.rotation.z = expression.head.roll;
       }
 
-      if (blinkState.isBlinking) {
-        const elapsed = now - blinkState.blinkStartTime;
-        const progress = Math.min(elapsed / blinkState.blinkDuration, 1);
-        
-        // Scale Y-axis to 0.1 at peak blink
-        const blinkAmount = progress < 0.5 
-          ? 1 - (progress * 2 * 0.9)  // Close
-          : 0.1 + ((progress - 0.5) * 2 * 0.9);  // Open
-
-        eyeMeshes.forEach((mesh, index) => {
-          if (originalEyeScales[index]) {
-            mesh.scale.y = originalEyeScales[index].y * Math.max(0.1, blinkAmount);
-          }
-        });
+      // Gaze: the camera itself, or the point under the cursor / viewer's face at the avatar's depth
+      const gaze = gazeRef.current!;
+      const body = sceneRef.current;
+      if (body) {
+        const headNode = rig?.get('head');
+        const origin = (headNode ?? body).getWorldPosition(gazeOrigin);
+        const face = gazeSource === 'webcam' ? getFacePosition?.() ?? null : null;
+        const pointer = lookAtRef.current ?? (gazeSource === 'mouse' ? state.pointer : face);
+        if (pointer) {
+          gazeRaycaster.setFromCamera(gazePointer.set(pointer.x, pointer.y), state.camera);
+          gazeRaycaster.ray.at(state.camera.position.distanceTo(origin), gazeTarget);
+        } else {
+          gazeTarget.copy(state.camera.position);
+        }
+        gaze.setTarget(gazeAnglesTo(origin, gazeTarget, body));
+      }
+      gaze.setMode(expressionRef.current!.get() === 'thinking' ? 'thinking' : listening ? 'listening' : 'attentive', now);
 
-        if (progress >= 1) {
-          blinkState.isBlinking = false;
-          eyeMeshes.forEach((mesh, index) => {
-            if (originalEyeScales[index]) {
-              mesh.scale.copy(originalEyeScales[index]);
-            }
-          });
+      // A tracked face takes over from gaze; the controller keeps running so it resumes smoothly
+      const gazeOutput = gaze.update(now, delta);
+      const eyes = facePose?.eyes ?? gazeOutput.eyes;
+      if (facePose) {
+        const { pitch, yaw, roll } = facePose.head;
+        if (rig?.has('head')) {
+          rig.addRotation('head', -pitch, yaw, roll);
+        } else {
+          // The performer's head replaces the idle sway; the expression still plays on top
+          groupRef.current.rotation.set(expression.head.pitch - pitch, expression.head.yaw + yaw, expression.head.roll + roll);
         }
+      } else {
+        rig?.addRotation('head', -gazeOutput.head.pitch, gazeOutput.head.yaw, 0);
+      }
+      if (vrm?.lookAt) {
+        vrm.lookAt.yaw = THREE.MathUtils.radToDeg(eyes.yaw);
+        vrm.lookAt.pitch = THREE.MathUtils.radToDeg(eyes.pitch);
+      } else if (rig?.has('leftEye') || rig?.has('rightEye')) {
+        rig.addRotation('leftEye', -eyes.pitch, eyes.yaw, 0);
+        rig.addRotation('rightEye', -eyes.pitch, eyes.yaw, 0);
+      } else if (shapeTargets?.has('eyeLookOutLeft')) {
+        // ARKit eye shapes: looking to the avatar's left turns the left eye out and the right eye in
+        const side = Math.min(1, Math.abs(eyes.yaw) / 0.5);
+        const vertical = Math.min(1, Math.abs(eyes.pitch) / 0.35);
+        shapeTargets.add(eyes.yaw > 0 ? 'eyeLookOutLeft' : 'eyeLookInLeft', side);
+        shapeTargets.add(eyes.yaw > 0 ? 'eyeLookInRight' : 'eyeLookOutRight', side);
+        shapeTargets.add(eyes.pitch > 0 ? 'eyeLookUpLeft' : 'eyeLookDownLeft', vertical);
+        shapeTargets.add(eyes.pitch > 0 ? 'eyeLookUpRight' : 'eyeLookDownRight', vertical);
+      }
+
+      // Jittered blinks (and the odd double blink), scaled by the expression's blink rate, unless the performer's own
+      const autoBlink = blinkRef.current!.update(now, expression.blinkRate);
+      const closedLeft = facePose ? facePose.blinkLeft : autoBlink;
+      const closedRight = facePose ? facePose.blinkRight : autoBlink;
+      const closed = Math.max(closedLeft, closedRight);
+
+      // Eye meshes squash to 10% height at the peak; blink shapes close fully
+      eyeMeshes.forEach((mesh, index) => {
+        if (originalEyeScales[index]) {
+          mesh.scale.y = originalEyeScales[index].y * (1 - closed * 0.9);
+        }
+      });
+      if (closed > 0 && shapeTargets?.has('eyeBlinkLeft')) {
+        shapeTargets.add('eyeBlinkLeft', closedLeft);
+        shapeTargets.add('eyeBlinkRight', closedRight);
+      } else if (closed > 0 && shapeTargets?.has('blinkLeft') && closedLeft !== closedRight) {
+        shapeTargets.add('blinkLeft', closedLeft);
+        shapeTargets.add('blinkRight', closedRight);
+      } else if (closed > 0 && shapeTargets) {
+        shapeTargets.add('blink', closed);
       }
 
       // Mouth animation
       const mouthAnim = mouthAnimationRef.current;
+      const audioLevel = getAudioLevel?.() ?? null;
       
-      // Check if speaking period ended
-      if (mouthAnim.isSpeaking && now > mouthAnim.speakEndTime) {
+      if (audioLevel !== null) {
+        // Real playback drives the mouth directly and overrides timed speech
+        if (!mouthAnim.isSpeaking) {
+          mouthAnim.isSpeaking = true;
+          onMouthMove?.(true);
+        }
+        mouthAnim.speakEndTime = now;
+        mouthAnim.targetIntensity = Math.min(1, audioLevel * AUDIO_LEVEL_GAIN);
+      } else if (mouthAnim.isSpeaking && now > mouthAnim.speakEndTime) {
+        // Check if speaking period ended
         mouthAnim.isSpeaking = false;
         mouthAnim.targetIntensity = 0;
         onMouthMove?.(false);
       }
       
-      // Smooth interpolation of mouth intensity
-      mouthAnim.currentIntensity += (mouthAnim.targetIntensity - mouthAnim.currentIntensity) * 0.1;
+      // Smooth interpolation of mouth intensity; track audio faster so syllables stay distinct
+      const smoothing = audioLevel !== null ? 0.5 : 0.1;
+      mouthAnim.currentIntensity += (mouthAnim.targetIntensity - mouthAnim.currentIntensity) * smoothing;
+      // The performer's mouth replaces synthetic movement outright (the tracker already smooths it)
+      if (facePose) {
+        mouthAnim.currentIntensity = facePose.jawOpen;
+      }
       
-      // Apply mouth animation using scale fallback (no morph targets)
-      if (mouthMesh && originalMouthScale && mouthAnim.currentIntensity > 0.01) {
+      const visemeRig = visemeRigRef.current;
+      const visemePlayback = visemePlaybackRef.current;
+      let visemeWeights: Partial<Record<Viseme, number>> | null = null;
+      if (visemePlayback && !facePose) {
+        // Follow the audio clock so cues stay in step however early or late they arrived
+        visemeWeights = visemePlayback.sample(now, getPlaybackTime?.() ?? null);
+        if (visemePlayback.finished) {
+          visemePlaybackRef.current = null;
+        }
+      }
+
+      if (visemeRig?.hasMouthShapes) {
+        // Morph targets: timed visemes when available, otherwise open on intensity
+        visemeRig.apply(visemeWeights, mouthAnim.currentIntensity, 0.35);
+      } else if (mouthMesh && originalMouthScale && mouthAnim.currentIntensity > 0.01) {
+        // Apply mouth animation using scale fallback (no morph targets)
         const openAmount = 1 + (mouthAnim.currentIntensity * 0.3);
         mouthMesh.scale.y = originalMouthScale.y * openAmount;
         
@@ -195,6 +437,19 @@ export const Avatar3D = forwardRef<Avatar3DRef, Avatar3DProps>(
         // Reset to original scale
         mouthMesh.scale.copy(originalMouthScale);
       }
+
+      if (shapeTargets) {
+        Object.entries(expression.morphs).forEach(([name, weight]) => shapeTargets.add(name, weight));
+        // ARKit-rigged models mirror the rest of the face too: smiles, brows, cheeks
+        if (facePose) {
+          Object.entries(facePose.shapes).forEach(([name, weight]) => {
+            if (shapeTargets.has(name)) shapeTargets.add(name, weight);
+          });
+        }
+        shapeTargets.flush();
+      }
+      rig?.flush();
+      vrm?.update(delta);
       
       onMouthAnimation?.(mouthAnim.currentIntensity);
     });
@@ -213,24 +468,55 @@ export const Avatar3D = forwardRef<Avatar3DRef, Avatar3DProps>(
       triggerMouthMovement(duration);
     };
 
+    const stopSpeaking = () => {
+      const mouthAnim = mouthAnimationRef.current;
+      if (mouthAnim.isSpeaking) {
+        onMouthMove?.(false);
+      }
+      mouthAnim.isSpeaking = false;
+      mouthAnim.speakEndTime = 0;
+      mouthAnim.targetIntensity = 0;
+      mouthAnim.currentIntensity = 0;
+      visemePlaybackRef.current = null;
+    };
+
+    const setVisemes = (cues: VisemeCue[]) => {
+      visemePlaybackRef.current = cues.length
+        ? new VisemePlayback(new VisemeTrack(cues), performance.now(), !!getPlaybackTime)
+        : null;
+    };
+
+    const setEmotion = (emotion: Emotion, intensity?: number, holdMs?: number) => {
+      expressionRef.current!.set(emotion, intensity, holdMs);
+    };
+
+    const playGesture = (name: string) => animatorRef.current?.gesture(name) ?? false;
+
+    const lookAt = (point: { x: number; y: number } | null) => {
+      lookAtRef.current = point;
+    };
+
+    const getState = (): AvatarState => ({
+      speaking: mouthAnimationRef.current.isSpeaking,
+      emotion: expressionRef.current!.get(),
+      lookingAt: lookAtRef.current
+    });
+
     useImperativeHandle(ref, () => ({
       triggerMouthMovement,
-      speak
+      speak,
+      stopSpeaking,
+      setVisemes,
+      setEmotion,
+      playGesture,
+      lookAt,
+      getState
     }));
 
-    // Global access for RikoService integration
-    useEffect(() => {
-      (window as any).__triggerMouthAnimation = triggerMouthMovement;
-      
-      return () => {
-        delete (window as any).__triggerMouthAnimation;
-      };
-    }, []);
-
     return <group ref={groupRef} />;
   }
 );
 
 Avatar3D.displayName = 'Avatar3D';
 
-useGLTF.preload('/fantasy-female-character.glb');
+useLoader.preload(GLTFLoader, DEFAULT_AVATAR.url, registerVrmPlugin);
@@ -0,0 +1,35 @@
+import React from 'react';
+
+interface AvatarErrorBoundaryProps {
+  /** Called once when the avatar fails to load or render */
+  onError: (error: Error) => void;
+  children: React.ReactNode;
+}
+
+interface AvatarErrorBoundaryState {
+  failed: boolean;
+}
+
+/**
+ * Catches a model that fails to load or render (a corrupt or unsupported
+ * upload) so it takes down the avatar rather than the whole app. Give it a
+ * new `key` with the replacement model to try again.
+ */
+class AvatarErrorBoundary extends React.Component<AvatarErrorBoundaryProps, AvatarErrorBoundaryState> {
+  state: AvatarErrorBoundaryState = { failed: false };
+
+  static getDerivedStateFromError(): AvatarErrorBoundaryState {
+    return { failed: true };
+  }
+
+  componentDidCatch(error: Error) {
+    console.error('Avatar3D: Model failed to load', error);
+    this.props.onError(error);
+  }
+
+  render() {
+    return this.state.failed ? null : this.props.children;
+  }
+}
+
+export default AvatarErrorBoundary;
@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { X, Upload, Trash2, FileJson, Check } from 'lucide-react';
+import { AvatarModel } from '../types';
+import { avatarRegistry, parseAvatarManifest } from '../services/avatarRegistry';
+
+interface AvatarPickerProps {
+  currentId: string;
+  onSelect: (model: AvatarModel) => void;
+  onClose: () => void;
+}
+
+const AvatarPicker: React.FC<AvatarPickerProps> = ({ currentId, onSelect, onClose }) => {
+  const [models, setModels] = useState<AvatarModel[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const modelInputRef = useRef<HTMLInputElement>(null);
+  const manifestInputRef = useRef<HTMLInputElement>(null);
+  const manifestTargetRef = useRef<string | null>(null);
+
+  const refresh = () => avatarRegistry.list().then(setModels);
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleSelect = (model: AvatarModel) => {
+    avatarRegistry.select(model.id);
+    onSelect(model);
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const model = await avatarRegistry.add(file);
+      await refresh();
+      handleSelect(model);
+    } catch (err) {
+      console.error('AvatarPicker: Upload failed', err);
+      setError('Could not store the model file.');
+    }
+  };
+
+  const requestManifest = (id: string) => {
+    manifestTargetRef.current = id;
+    manifestInputRef.current?.click();
+  };
+
+  const handleManifest = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const id = manifestTargetRef.current;
+    e.target.value = '';
+    if (!file || !id) return;
+    try {
+      const manifest = parseAvatarManifest(await file.text());
+      await avatarRegistry.setManifest(id, manifest);
+      const all = await avatarRegistry.list();
+      const updated = all.find(model => model.id === id);
+      setModels(all);
+      // Reload the active avatar so the new mappings take effect
+      if (updated && id === currentId) {
+        onSelect(updated);
+      }
+    } catch (err) {
+      console.error('AvatarPicker: Invalid manifest', err);
+      setError(err instanceof Error ? err.message : 'Manifest must be valid JSON.');
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    await avatarRegistry.remove(id);
+    const remaining = await avatarRegistry.list();
+    setModels(remaining);
+    if (id === currentId) {
+      onSelect(remaining[0]);
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-md bg-[#0d0221]/95 border border-fuchsia-500/40 rounded-lg p-5 shadow-[0_0_30px_rgba(236,72,153,0.3)]">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold font-['Orbitron'] tracking-wider text-fuchsia-300">AVATAR MODEL</h2>
+          <button onClick={onClose} className="text-cyan-600 hover:text-cyan-300" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {models.map(model => (
+            <div
+              key={model.id}
+              className={`flex items-center gap-2 rounded px-3 py-2 border transition-colors ${
+                model.id === currentId
+                  ? 'border-fuchsia-400/60 bg-fuchsia-500/10'
+                  : 'border-cyan-900/40 hover:border-fuchsia-500/40'
+              }`}
+            >
+              <button onClick={() => handleSelect(model)} className="flex-1 flex items-center gap-2 text-left">
+                {model.id === currentId && <Check className="w-3 h-3 text-fuchsia-300" />}
+                <span className="text-sm text-cyan-50">{model.name}</span>
+                <span className="text-[10px] font-mono text-cyan-600 uppercase">{model.format}</span>
+                {model.manifest && <span className="text-[10px] font-mono text-fuchsia-400">MANIFEST</span>}
+              </button>
+              {!model.builtIn && (
+                <>
+                  <button onClick={() => requestManifest(model.id)} className="text-cyan-600 hover:text-cyan-300" title="Attach manifest JSON">
+                    <FileJson className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => handleRemove(model.id)} className="text-cyan-600 hover:text-red-400" title="Remove">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {error && <p className="mt-3 text-xs font-mono text-red-400">{error}</p>}
+
+        <button
+          onClick={() => modelInputRef.current?.click()}
+          className="mt-4 w-full flex items-center justify-center gap-2 px-3 py-2 rounded text-xs font-mono bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/50 hover:bg-fuchsia-500/30"
+        >
+          <Upload className="w-3 h-3" /> UPLOAD GLB / VRM
+        </button>
+
+        <input ref={modelInputRef} type="file" accept=".glb,.vrm" className="hidden" onChange={handleUpload} />
+        <input ref={manifestInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleManifest} />
+      </div>
+    </div>
+  );
+};
+
+export default AvatarPicker;
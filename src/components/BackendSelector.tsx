@@ -0,0 +1,42 @@
+import React from 'react';
+import { BackendState } from '../services/conversationBackend';
+import { useConversationBackend } from './ConversationBackendProvider';
+
+const STATE_STYLES: Record<BackendState, { dot: string; label: string }> = {
+  ready: { dot: 'bg-green-400', label: 'online' },
+  degraded: { dot: 'bg-orange-400', label: 'degraded' },
+  connecting: { dot: 'bg-yellow-400', label: 'connecting…' },
+  reconnecting: { dot: 'bg-yellow-400', label: 'reconnecting…' },
+  offline: { dot: 'bg-red-400', label: 'offline' }
+};
+
+/** Status dot, picker and measured round trip for the shared conversation backend */
+const BackendSelector: React.FC = () => {
+  const { backend, state, rtt, backends, selectBackend } = useConversationBackend();
+  const { dot, label } = STATE_STYLES[state];
+
+  return (
+    <div className="flex items-center gap-2" title={`Backend ${state}`}>
+      <div className={`w-2 h-2 rounded-full animate-pulse ${dot}`} />
+      <select
+        value={backend.id}
+        onChange={(e) => selectBackend(e.target.value)}
+        className="bg-transparent text-xs font-mono text-cyan-300 focus:outline-none cursor-pointer"
+      >
+        {backends.map(definition => (
+          <option key={definition.id} value={definition.id} className="bg-[#0d0221]">
+            {definition.label}
+          </option>
+        ))}
+      </select>
+      <span className="text-[10px] font-mono text-cyan-700 uppercase">
+        {label}
+      </span>
+      {rtt !== null && (state === 'ready' || state === 'degraded') && (
+        <span className={`text-[10px] font-mono ${rtt > 500 ? 'text-yellow-500' : 'text-green-500'}`}>{rtt}ms</span>
+      )}
+    </div>
+  );
+};
+
+export default BackendSelector;
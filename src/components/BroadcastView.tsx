@@ -0,0 +1,133 @@
+import React, { useState, useEffect, useCallback, useRef, Suspense } from 'react';
+import { Canvas } from '@react-three/fiber';
+import { Avatar3D, Avatar3DRef } from './Avatar3D';
+import { AvatarModel } from '../types';
+import { avatarRegistry, DEFAULT_AVATAR } from '../services/avatarRegistry';
+import { broadcastLink, BroadcastMessage, applyAvatarCommand, FRAME_STALE_MS, VIEW_HEARTBEAT_MS } from '../services/broadcastLink';
+import SubtitleOverlay from './SubtitleOverlay';
+import AvatarErrorBoundary from './AvatarErrorBoundary';
+
+/**
+ * On-air output for OBS: just the avatar and optional subtitles on a
+ * transparent page, at `?view=broadcast`. It has no controls of its own and
+ * follows the operator window over the broadcast link.
+ */
+const BroadcastView: React.FC = () => {
+  const [avatarModel, setAvatarModel] = useState<AvatarModel>(DEFAULT_AVATAR);
+  const [subtitles, setSubtitles] = useState(true);
+  const [listening, setListening] = useState(false);
+  const [caption, setCaption] = useState<string | null>(null);
+  const avatarRef = useRef<Avatar3DRef>(null);
+  const frameRef = useRef({ level: null as number | null, captionProgress: 0, playbackTime: null as number | null, receivedAt: 0 });
+
+  // OBS shows whatever the page paints, so the page itself has to be transparent
+  useEffect(() => {
+    const { documentElement, body } = document;
+    const previous = [documentElement.style.background, body.style.background];
+    documentElement.style.background = 'transparent';
+    body.style.background = 'transparent';
+    return () => {
+      [documentElement.style.background, body.style.background] = previous;
+    };
+  }, []);
+
+  const showAvatar = useCallback(async (avatarId: string) => {
+    // Uploaded models live in this browser's storage; a view in another browser falls back to the default
+    const models = await avatarRegistry.list();
+    const model = models.find(candidate => candidate.id === avatarId) ?? DEFAULT_AVATAR;
+    setAvatarModel(prev => (prev.id === model.id ? prev : model));
+  }, []);
+
+  useEffect(() => {
+    const viewId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+    const handleMessage = (message: BroadcastMessage) => {
+      if (applyAvatarCommand(avatarRef.current, message)) return;
+      switch (message.type) {
+        case 'scene':
+          showAvatar(message.avatarId);
+          setSubtitles(message.subtitles);
+          setListening(message.listening);
+          break;
+        case 'caption':
+          setCaption(message.text);
+          break;
+        case 'frame':
+          frameRef.current = {
+            level: message.level,
+            captionProgress: message.captionProgress,
+            playbackTime: message.playbackTime ?? null,
+            receivedAt: performance.now()
+          };
+          break;
+      }
+    };
+
+    // Ask the operator for the current scene, again whenever the link reopens
+    const sayHello = () => broadcastLink.post({ type: 'hello', viewId });
+    const sayBye = () => broadcastLink.post({ type: 'bye', viewId });
+
+    broadcastLink.on('message', handleMessage);
+    broadcastLink.on('open', sayHello);
+    broadcastLink.start();
+    sayHello();
+    const heartbeat = setInterval(() => broadcastLink.post({ type: 'alive', viewId }), VIEW_HEARTBEAT_MS);
+    window.addEventListener('beforeunload', sayBye);
+
+    return () => {
+      sayBye();
+      clearInterval(heartbeat);
+      window.removeEventListener('beforeunload', sayBye);
+      broadcastLink.off('message', handleMessage);
+      broadcastLink.off('open', sayHello);
+    };
+  }, [showAvatar]);
+
+  const getAudioLevel = useCallback(() => {
+    const frame = frameRef.current;
+    return performance.now() - frame.receivedAt < FRAME_STALE_MS ? frame.level : null;
+  }, []);
+
+  // The operator's audio clock, carried forward between frames, so visemes wait for the speech they belong to
+  const getPlaybackTime = useCallback(() => {
+    const frame = frameRef.current;
+    const age = performance.now() - frame.receivedAt;
+    return frame.playbackTime !== null && age < FRAME_STALE_MS ? frame.playbackTime + age / 1000 : null;
+  }, []);
+
+  const getCaptionProgress = useCallback(() => frameRef.current.captionProgress, []);
+
+  return (
+    <div className="relative w-screen h-screen overflow-hidden bg-transparent">
+      <Canvas
+        className="w-full h-full"
+        gl={{
+          antialias: true,
+          alpha: true,
+          powerPreference: 'high-performance'
+        }}
+      >
+        <ambientLight intensity={0.4} color="#a855f7" />
+        <pointLight position={[2, 2, 2]} intensity={1.5} color="#ec4899" />
+        <pointLight position={[-2, -1, -2]} intensity={0.8} color="#8b5cf6" />
+
+        <AvatarErrorBoundary key={avatarModel.id} onError={() => setAvatarModel(DEFAULT_AVATAR)}>
+          <Suspense fallback={null}>
+            <Avatar3D
+              key={avatarModel.id}
+              ref={avatarRef}
+              model={avatarModel}
+              getAudioLevel={getAudioLevel}
+              getPlaybackTime={getPlaybackTime}
+              listening={listening}
+            />
+          </Suspense>
+        </AvatarErrorBoundary>
+      </Canvas>
+
+      {subtitles && <SubtitleOverlay text={caption} getProgress={getCaptionProgress} bottomClass="bottom-8" />}
+    </div>
+  );
+};
+
+export default BroadcastView;
@@ -1,31 +1,54 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { SystemStats } from '../types';
-import { Send, Bot, User } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { SystemStats, ChatMessage, Emotion, Persona, DeliveryStatus } from '../types';
+import { conversationStore, ConversationStoreEventMap, newMessageId } from '../services/conversationStore';
+import { personaStore, PersonaStoreEventMap } from '../services/personas';
+import { prepareRequest } from '../services/conversationBackend';
+import { useConversationBackend } from './ConversationBackendProvider';
+import SessionSidebar from './SessionSidebar';
+import BackendSelector from './BackendSelector';
+import DeliveryBadge from './DeliveryBadge';
+import { Send, Bot, User, Square, PanelLeftClose, PanelLeftOpen } from 'lucide-react';
 
 interface ChatInterfaceProps {
-  apiKey: string;
   onStatsUpdate: (stats: Partial<SystemStats>) => void;
+  onEmotionChange?: (emotion: Emotion) => void;
 }
 
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-}
+// The persona's greeting opens every session but is never stored
+const greetingFor = (persona: Persona): ChatMessage => ({
+  id: 'greeting',
+  role: 'assistant',
+  content: persona.greeting,
+  timestamp: Date.now()
+});
 
-const ChatInterface: React.FC<ChatInterfaceProps> = ({ apiKey, onStatsUpdate }) => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      role: 'assistant',
-      content: 'Hello! I\'m YUMI AI. How can I help you today?',
-      timestamp: Date.now()
-    }
-  ]);
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ onStatsUpdate, onEmotionChange }) => {
+  const { backend } = useConversationBackend();
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [greetingFor(personaStore.getActive())]);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [showSidebar, setShowSidebar] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // The session being shown; null until the first one has loaded
+  const sessionIdRef = useRef<string | null>(null);
+  // Messages sent before the session loaded, saved to it once it has (by ID, so the latest version wins)
+  const unsavedRef = useRef<Map<string, ChatMessage>>(new Map());
+  const isLoadingRef = useRef(false);
+  isLoadingRef.current = isLoading;
+
+  useEffect(() => {
+    const handlePersona = ({ active }: PersonaStoreEventMap['change']) => {
+      setMessages(prev => prev.map(m => m.id === 'greeting' ? greetingFor(active) : m));
+    };
+    personaStore.on('change', handlePersona);
+    return () => personaStore.off('change', handlePersona);
+  }, []);
+
+  useEffect(() => {
+    return () => backend.cancel();
+  }, [backend]);
 
   useEffect(() => {
     onStatsUpdate({
@@ -38,51 +61,140 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ apiKey, onStatsUpdate })
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const loadSession = useCallback(async (id?: string) => {
+    try {
+      const session = (id && await conversationStore.getSession(id)) || await conversationStore.getActiveSession();
+      sessionIdRef.current = session.id;
+      const unsaved = Array.from(unsavedRef.current.values());
+      unsavedRef.current.clear();
+      for (const message of unsaved) {
+        await conversationStore.saveMessage(session.id, message);
+      }
+      const stored = await conversationStore.getMessages(session.id);
+      setSessionId(session.id);
+      setMessages([greetingFor(personaStore.getActive()), ...stored]);
+    } catch (error) {
+      console.warn('Chat: Could not load conversation history', error);
+    }
+  }, []);
+
+  // Follow the active session, and pick up messages Live mode adds to it
+  useEffect(() => {
+    loadSession();
+
+    const handleActive = ({ sessionId: id }: ConversationStoreEventMap['active']) => {
+      backend.cancel();
+      loadSession(id);
+    };
+    conversationStore.on('active', handleActive);
+    return () => conversationStore.off('active', handleActive);
+  }, [loadSession, backend]);
+
+  useEffect(() => {
+    const handleChange = ({ sessionId: id }: ConversationStoreEventMap['change']) => {
+      if (!isLoadingRef.current && (id === null || id === sessionId)) {
+        loadSession(sessionId ?? undefined);
+      }
+    };
+    conversationStore.on('change', handleChange);
+    return () => conversationStore.off('change', handleChange);
+  }, [loadSession, sessionId]);
+
+  // Saves to the session the message was sent in, or to the first one loaded when it was sent before that
+  const persist = (session: string | null, message: ChatMessage) => {
+    const id = session ?? sessionIdRef.current;
+    if (!id) {
+      unsavedRef.current.set(message.id, message);
+      return;
+    }
+    conversationStore.saveMessage(id, message).catch(error => {
+      console.warn('Chat: Could not save message', error);
+    });
+  };
+
+  const handleNewSession = async () => {
+    const session = await conversationStore.createSession();
+    conversationStore.setActiveSession(session.id);
+  };
+
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
 
-    const userMessage: Message = {
-      id: Date.now().toString(),
+    const userMessage: ChatMessage = {
+      id: newMessageId(),
       role: 'user',
       content: inputMessage,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      source: 'chat'
     };
+    const assistantId = newMessageId();
+    const history = [...messages, userMessage];
+    const session = sessionIdRef.current;
 
-    setMessages(prev => [...prev, userMessage]);
+    setMessages(history);
     setInputMessage('');
     setIsLoading(true);
+    persist(session, userMessage);
 
-    const startTime = performance.now();
+    const showReply = (text: string) => {
+      setMessages(prev => {
+        const existing = prev.find(m => m.id === assistantId);
+        if (existing) {
+          return prev.map(m => m.id === assistantId ? { ...m, content: text } : m);
+        }
+        return [...prev, { id: assistantId, role: 'assistant', content: text, timestamp: Date.now() }];
+      });
+    };
+
+    // Queueing backends report progress on the user's message; keep it on screen and in history
+    const showDelivery = (delivery: DeliveryStatus) => {
+      setMessages(prev => prev.map(m => m.id === userMessage.id ? { ...m, delivery } : m));
+      persist(session, { ...userMessage, delivery });
+    };
 
     try {
-      const assistantMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: 'This is a placeholder response. Gemini API integration is ready for implementation.',
-        timestamp: Date.now()
-      };
+      const request = await prepareRequest(userMessage.content, history, 'chat');
+      const reply = await backend.stream({ ...request, onDelivery: showDelivery }, (text) => {
+        setStreamingId(assistantId);
+        showReply(text);
+      });
 
-      await new Promise(resolve => setTimeout(resolve, 1000));
+      if (!reply) {
+        showReply(`No reply from ${backend.label}. Is it running?`);
+        return;
+      }
 
-      const endTime = performance.now();
-      const latency = Math.round(endTime - startTime);
-      
-      onStatsUpdate({ latency });
-      setMessages(prev => [...prev, assistantMessage]);
+      onEmotionChange?.(reply.emotion ?? 'neutral');
+      if (reply.text) {
+        showReply(reply.text);
+        persist(session, { id: assistantId, role: 'assistant', content: reply.text, timestamp: Date.now(), source: 'chat', latency: reply.latency });
+      }
+
+      if (reply.latency) {
+        onStatsUpdate({ latency: reply.latency });
+      }
+      if (reply.cancelled && !reply.text) {
+        console.log('Chat: Reply cancelled before first token');
+      }
     } catch (error) {
       console.error('Chat error:', error);
-      const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      const errorMessage: ChatMessage = {
+        id: assistantId,
         role: 'assistant',
         content: 'Sorry, I encountered an error. Please try again.',
         timestamp: Date.now()
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== assistantId), errorMessage]);
     } finally {
+      setStreamingId(null);
       setIsLoading(false);
     }
   };
 
+  const handleCancel = () => {
+    backend.cancel();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -91,83 +203,119 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({ apiKey, onStatsUpdate })
   };
 
   return (
-    <div className="w-full h-full flex flex-col rounded-xl overflow-hidden border border-cyan-500/20 bg-[#0d0221]/40 backdrop-blur-md shadow-[0_0_50px_rgba(34,211,238,0.15)]">
-      
-      <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
-          <div
-            key={message.id}
-            className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
+    <div className="w-full h-full flex rounded-xl overflow-hidden border border-cyan-500/20 bg-[#0d0221]/40 backdrop-blur-md shadow-[0_0_50px_rgba(34,211,238,0.15)]">
+      {showSidebar && (
+        <SessionSidebar
+          activeId={sessionId}
+          onSelect={(id) => conversationStore.setActiveSession(id)}
+          onNew={handleNewSession}
+        />
+      )}
+
+      <div className="flex-1 min-w-0 flex flex-col">
+        <div className="px-4 py-2 border-b border-cyan-500/20 flex items-center">
+          <button
+            onClick={() => setShowSidebar(prev => !prev)}
+            className="text-cyan-600 hover:text-cyan-300 transition-colors"
+            title={showSidebar ? 'Hide history' : 'Show history'}
           >
-            {message.role === 'assistant' && (
-              <div className="w-8 h-8 rounded-full bg-cyan-500/20 border border-cyan-500/50 flex items-center justify-center flex-shrink-0">
-                <Bot className="w-4 h-4 text-cyan-400" />
-              </div>
-            )}
-            
+            {showSidebar ? <PanelLeftClose className="w-4 h-4" /> : <PanelLeftOpen className="w-4 h-4" />}
+          </button>
+          <div className="ml-auto">
+            <BackendSelector />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+          {messages.map((message) => (
             <div
-              className={`max-w-[70%] rounded-lg p-3 ${
-                message.role === 'user'
-                  ? 'bg-cyan-500/20 border border-cyan-500/30 text-cyan-50'
-                  : 'bg-purple-500/20 border border-purple-500/30 text-purple-50'
-              }`}
+              key={message.id}
+              className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
-              <p className="text-sm leading-relaxed">{message.content}</p>
-              <div className="text-xs opacity-50 mt-1 font-mono">
-                {new Date(message.timestamp).toLocaleTimeString()}
+              {message.role === 'assistant' && (
+                <div className="w-8 h-8 rounded-full bg-cyan-500/20 border border-cyan-500/50 flex items-center justify-center flex-shrink-0">
+                  <Bot className="w-4 h-4 text-cyan-400" />
+                </div>
+              )}
+            
+              <div
+                className={`max-w-[70%] rounded-lg p-3 ${
+                  message.role === 'user'
+                    ? 'bg-cyan-500/20 border border-cyan-500/30 text-cyan-50'
+                    : 'bg-purple-500/20 border border-purple-500/30 text-purple-50'
+                }`}
+              >
+                {message.author && (
+                  <p className="text-[10px] font-mono text-cyan-400 mb-1">{message.author} · stream chat</p>
+                )}
+                <p className="text-sm leading-relaxed">{message.content}</p>
+                <div className="text-xs mt-1 font-mono flex items-center gap-2">
+                  <span className="opacity-50">{new Date(message.timestamp).toLocaleTimeString()}</span>
+                  {message.delivery && <DeliveryBadge status={message.delivery} />}
+                </div>
               </div>
-            </div>
 
-            {message.role === 'user' && (
+              {message.role === 'user' && (
+                <div className="w-8 h-8 rounded-full bg-cyan-500/20 border border-cyan-500/50 flex items-center justify-center flex-shrink-0">
+                  <User className="w-4 h-4 text-cyan-400" />
+                </div>
+              )}
+            </div>
+          ))}
+        
+          {isLoading && !streamingId && (
+            <div className="flex gap-3 justify-start">
               <div className="w-8 h-8 rounded-full bg-cyan-500/20 border border-cyan-500/50 flex items-center justify-center flex-shrink-0">
-                <User className="w-4 h-4 text-cyan-400" />
+                <Bot className="w-4 h-4 text-cyan-400" />
               </div>
-            )}
-          </div>
-        ))}
-        
-        {isLoading && (
-          <div className="flex gap-3 justify-start">
-            <div className="w-8 h-8 rounded-full bg-cyan-500/20 border border-cyan-500/50 flex items-center justify-center flex-shrink-0">
-              <Bot className="w-4 h-4 text-cyan-400" />
-            </div>
-            <div className="bg-purple-500/20 border border-purple-500/30 rounded-lg p-3">
-              <div className="flex gap-1">
-                <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '0ms' }} />
-                <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '150ms' }} />
-                <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '300ms' }} />
+              <div className="bg-purple-500/20 border border-purple-500/30 rounded-lg p-3">
+                <div className="flex gap-1">
+                  <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '0ms' }} />
+                  <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '150ms' }} />
+                  <div className="w-2 h-2 rounded-full bg-purple-400 animate-bounce" style={{ animationDelay: '300ms' }} />
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
         
-        <div ref={messagesEndRef} />
-      </div>
+          <div ref={messagesEndRef} />
+        </div>
 
-      <div className="p-4 border-t border-cyan-500/20 bg-black/40">
-        <div className="flex items-center gap-3">
-          <input
-            type="text"
-            value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type your message..."
-            disabled={isLoading}
-            className="flex-1 bg-black/60 border border-cyan-500/30 rounded-lg px-4 py-3 text-cyan-50 placeholder-cyan-700 focus:outline-none focus:border-cyan-400 focus:shadow-[0_0_15px_rgba(34,211,238,0.2)] transition-all font-mono text-sm disabled:opacity-50"
-          />
+        <div className="p-4 border-t border-cyan-500/20 bg-black/40">
+          <div className="flex items-center gap-3">
+            <input
+              type="text"
+              value={inputMessage}
+              onChange={(e) => setInputMessage(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder="Type your message..."
+              disabled={isLoading}
+              className="flex-1 bg-black/60 border border-cyan-500/30 rounded-lg px-4 py-3 text-cyan-50 placeholder-cyan-700 focus:outline-none focus:border-cyan-400 focus:shadow-[0_0_15px_rgba(34,211,238,0.2)] transition-all font-mono text-sm disabled:opacity-50"
+            />
 
-          <button
-            onClick={handleSendMessage}
-            disabled={!inputMessage.trim() || isLoading}
-            className="p-3 rounded-lg bg-cyan-500/20 text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-[0_0_15px_rgba(34,211,238,0.2)]"
-            title="Send message"
-          >
-            <Send className="w-5 h-5" />
-          </button>
-        </div>
+            {isLoading ? (
+              <button
+                onClick={handleCancel}
+                className="p-3 rounded-lg bg-red-500/20 text-red-400 border border-red-500/50 hover:bg-red-500/30 transition-all duration-300 shadow-[0_0_15px_rgba(239,68,68,0.2)]"
+                title="Stop response"
+              >
+                <Square className="w-5 h-5" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSendMessage}
+                disabled={!inputMessage.trim()}
+                className="p-3 rounded-lg bg-cyan-500/20 text-cyan-400 border border-cyan-500/50 hover:bg-cyan-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-300 shadow-[0_0_15px_rgba(34,211,238,0.2)]"
+                title="Send message"
+              >
+                <Send className="w-5 h-5" />
+              </button>
+            )}
+          </div>
 
-        <div className="mt-2 text-xs text-cyan-700 font-mono">
-          Press Enter to send • Shift+Enter for new line
+          <div className="mt-2 text-xs text-cyan-700 font-mono">
+            Press Enter to send • Shift+Enter for new line
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,95 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { ConversationBackend, BackendState, ConversationBackendEventMap } from '../services/conversationBackend';
+import { BACKENDS, BackendDefinition, DEFAULT_BACKEND_ID } from '../services/backends';
+import { speechInput } from '../services/speechInput';
+
+const STORAGE_KEY = 'yumi.backend';
+
+interface ConversationBackendContextValue {
+  backend: ConversationBackend;
+  state: BackendState;
+  /** Latest measured round trip, for backends that run heartbeats */
+  rtt: number | null;
+  backends: BackendDefinition[];
+  selectBackend: (id: string) => void;
+}
+
+const ConversationBackendContext = createContext<ConversationBackendContextValue | null>(null);
+
+const loadBackendId = () => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  return BACKENDS.some(definition => definition.id === stored) ? stored! : DEFAULT_BACKEND_ID;
+};
+
+interface ConversationBackendProviderProps {
+  apiKey: string;
+  /** Called with each measured round trip so the header can show it */
+  onLatency?: (rtt: number) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Owns the selected conversation backend: connects it, routes the mic to it
+ * and shares it with Chat and Live mode. Instances are kept so switching
+ * back does not lose state.
+ */
+export const ConversationBackendProvider: React.FC<ConversationBackendProviderProps> = ({ apiKey, onLatency, children }) => {
+  const [backendId, setBackendId] = useState(loadBackendId);
+  const instancesRef = useRef<Map<string, ConversationBackend>>(new Map());
+
+  const backend = useMemo(() => {
+    let instance = instancesRef.current.get(backendId);
+    if (!instance) {
+      const definition = BACKENDS.find(d => d.id === backendId) ?? BACKENDS[0];
+      instance = definition.create(apiKey);
+      instancesRef.current.set(backendId, instance);
+    }
+    return instance;
+  }, [apiKey, backendId]);
+
+  const [state, setState] = useState<BackendState>(() => backend.getState());
+  const [rtt, setRtt] = useState<number | null>(null);
+  const onLatencyRef = useRef(onLatency);
+  onLatencyRef.current = onLatency;
+
+  useEffect(() => {
+    const handleState = ({ state: next }: ConversationBackendEventMap['state']) => setState(next);
+    const handleLatency = ({ rtt: sample }: ConversationBackendEventMap['latency']) => {
+      setRtt(sample);
+      onLatencyRef.current?.(sample);
+    };
+    setRtt(null);
+    backend.on('state', handleState);
+    backend.on('latency', handleLatency);
+    speechInput.setSink(backend.speechSink ?? null);
+    backend.connect();
+    setState(backend.getState());
+    return () => {
+      backend.off('state', handleState);
+      backend.off('latency', handleLatency);
+      backend.cancel();
+      backend.disconnect();
+      speechInput.setSink(null);
+    };
+  }, [backend]);
+
+  const selectBackend = useCallback((id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setBackendId(id);
+  }, []);
+
+  const value = useMemo(
+    () => ({ backend, state, rtt, backends: BACKENDS, selectBackend }),
+    [backend, state, rtt, selectBackend]
+  );
+
+  return <ConversationBackendContext.Provider value={value}>{children}</ConversationBackendContext.Provider>;
+};
+
+export function useConversationBackend(): ConversationBackendContextValue {
+  const context = useContext(ConversationBackendContext);
+  if (!context) {
+    throw new Error('useConversationBackend must be used inside a ConversationBackendProvider');
+  }
+  return context;
+}
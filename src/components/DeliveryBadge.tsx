@@ -0,0 +1,23 @@
+import React from 'react';
+import { Clock, Check, RotateCw, AlertTriangle } from 'lucide-react';
+import { DeliveryStatus } from '../types';
+
+const STYLES: Record<DeliveryStatus, { label: string; className: string; Icon: typeof Clock }> = {
+  pending: { label: 'queued', className: 'text-cyan-600', Icon: Clock },
+  sent: { label: 'sent', className: 'text-green-500', Icon: Check },
+  retry: { label: 'will retry', className: 'text-yellow-500', Icon: RotateCw },
+  failed: { label: 'failed', className: 'text-red-400', Icon: AlertTriangle }
+};
+
+/** Where a user message stands in a queueing backend's outbox */
+const DeliveryBadge: React.FC<{ status: DeliveryStatus }> = ({ status }) => {
+  const { label, className, Icon } = STYLES[status];
+  return (
+    <span className={`inline-flex items-center gap-1 font-mono ${className}`} title={`Delivery: ${label}`}>
+      <Icon className="w-3 h-3" />
+      {label}
+    </span>
+  );
+};
+
+export default DeliveryBadge;
@@ -1,84 +1,647 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, Suspense } from 'react';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 import { Avatar3D, Avatar3DRef } from './Avatar3D';
-import { SystemStats } from '../types';
-import { rikoService } from '../services/riko';
-import { Mic, MicOff, Send } from 'lucide-react';
+import { SystemStats, Emotion, AvatarModel, ChatMessage, DeliveryStatus } from '../types';
+import { audioPlayer } from '../services/audioPlayer';
+import { toVisemeCues } from '../avatar/visemes';
+import { speechInput, SpeechInputMode, SpeechInputEventMap } from '../services/speechInput';
+import { avatarRegistry, DEFAULT_AVATAR } from '../services/avatarRegistry';
+import { webcamGaze } from '../services/webcamGaze';
+import { faceTracker, FaceTrackerState } from '../services/faceTracker';
+import { avatarControl } from '../services/avatarControl';
+import { conversationStore, newMessageId } from '../services/conversationStore';
+import { streamChat } from '../services/streamChat';
+import { broadcastLink, mirrorAvatar, applyAvatarCommand, BroadcastMessage, FRAME_STALE_MS } from '../services/broadcastLink';
+import { sessionRecorder, parseSessionLog } from '../services/sessionRecorder';
+import { sessionReplay, SessionReplayEventMap } from '../services/sessionReplay';
+import { memoryStore } from '../services/memoryStore';
+import {
+  BackendReply,
+  ConversationBackendEventMap,
+  estimateSpeechDuration,
+  prepareRequest
+} from '../services/conversationBackend';
+import { GazeSource } from '../avatar/gaze';
+import { useConversationBackend } from './ConversationBackendProvider';
+import BackendSelector from './BackendSelector';
+import RikoSettingsPanel from './RikoSettingsPanel';
+import AvatarPicker from './AvatarPicker';
+import SubtitleOverlay from './SubtitleOverlay';
+import AvatarErrorBoundary from './AvatarErrorBoundary';
+import TranscriptPanel from './TranscriptPanel';
+import StreamChatPanel from './StreamChatPanel';
+import { Mic, MicOff, Send, Settings, UserCircle, Cast, Captions, CaptionsOff, Circle, Square, Film, Video } from 'lucide-react';
 
 interface LiveInterfaceProps {
-  apiKey: string;
   onStatsUpdate: (stats: Partial<SystemStats>) => void;
+  onEmotionChange?: (emotion: Emotion) => void;
 }
 
-const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate }) => {
+// How long captions stay up after speech ends
+const CAPTION_LINGER_MS = 2000;
+// An audio-driven caption whose audio never plays ends this long after its estimated duration
+const AUDIO_CAPTION_TIMEOUT_MS = 5000;
+
+// Output RMS above this is close to clipping and shows as PEAKING in the header
+const PEAK_LEVEL = 0.5;
+const LEVEL_SAMPLE_MS = 250;
+
+// Mouth level and caption progress go to broadcast views and recordings at ~30fps while YUMI talks
+const BROADCAST_FRAME_MS = 33;
+
+const saveFile = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Keys pressed while typing or inside a dialog belong to that control, not to the live view
+const isForFocusedControl = (target: EventTarget | null) =>
+  target instanceof Element && (
+    target.matches('input, textarea, select, [contenteditable]:not([contenteditable="false"])') ||
+    target.closest('dialog, [role="dialog"], [role="alertdialog"]') !== null
+  );
+
+// Stopping a recording downloads the WebM (when the browser could record one) and the event log
+const stopRecording = async () => {
+  const recording = await sessionRecorder.stop();
+  if (!recording) return;
+  const stamp = new Date(recording.log.startedAt).toISOString().replace(/[:.]/g, '-');
+  if (recording.video) {
+    saveFile(recording.video, `yumi-live-${stamp}.webm`);
+  }
+  saveFile(new Blob([JSON.stringify(recording.log, null, 2)], { type: 'application/json' }), `yumi-live-${stamp}.json`);
+};
+
+interface CaptionTiming {
+  startedAt: number;
+  durationMs: number;
+  /** Follow audio playback rather than the estimated duration */
+  viaAudio: boolean;
+  ended: boolean;
+}
+
+// Live exchanges go into the shared transcript so they show up in Chat history
+const recordMessage = (role: 'user' | 'assistant', content: string, latency?: number, author?: string): ChatMessage | null => {
+  if (!content) return null;
+  const timestamp = Date.now();
+  const message: ChatMessage = { id: newMessageId(), role, content, timestamp, source: 'live', latency, author };
+  sessionRecorder.logMessage(message);
+  conversationStore.append(message).catch(error => {
+    console.warn('Could not save Live message:', error);
+  });
+  return message;
+};
+
+// Earlier messages in the shared session, so text backends keep context in Live mode too
+const loadHistory = async (): Promise<ChatMessage[]> => {
+  try {
+    const session = await conversationStore.getActiveSession();
+    return await conversationStore.getMessages(session.id);
+  } catch (error) {
+    console.warn('Could not load conversation history:', error);
+    return [];
+  }
+};
+
+const LiveInterface: React.FC<LiveInterfaceProps> = ({ onStatsUpdate, onEmotionChange }) => {
+  const { backend } = useConversationBackend();
   const [inputMessage, setInputMessage] = useState('');
   const [isListening, setIsListening] = useState(false);
-  const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'connecting'>('connecting');
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [micMode, setMicMode] = useState<SpeechInputMode>(() => speechInput.getMode());
   const [latency, setLatency] = useState(0);
   const [isLoading, setIsLoading] = useState(true);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showAvatarPicker, setShowAvatarPicker] = useState(false);
+  const [avatarModel, setAvatarModel] = useState<AvatarModel>(DEFAULT_AVATAR);
+  const [gazeSource, setGazeSource] = useState<GazeSource>('camera');
+  const [caption, setCaption] = useState<string | null>(null);
+  const [broadcastViews, setBroadcastViews] = useState(() => broadcastLink.viewCount);
+  const [broadcastSubtitles, setBroadcastSubtitles] = useState(true);
+  const [isRecording, setIsRecording] = useState(() => sessionRecorder.isRecording);
+  const [isReplaying, setIsReplaying] = useState(() => sessionReplay.isPlaying);
+  const [trackingState, setTrackingState] = useState<FaceTrackerState>(() => faceTracker.getState());
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const trackingInputRef = useRef<HTMLInputElement>(null);
+  // Mouth level, caption progress and audio clock from the log while a replay runs
+  const replayFrameRef = useRef<{ level: number | null; captionProgress: number; playbackTime: number | null; receivedAt: number } | null>(null);
   const avatarRef = useRef<Avatar3DRef>(null);
+  // Drives the avatar here and in any open broadcast view
+  const avatar = useMemo(() => mirrorAvatar(() => avatarRef.current), []);
+  const captionTimingRef = useRef<CaptionTiming | null>(null);
+  const captionHideTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Set by a barge-in: output still arriving for the interrupted turn is ignored until the user's next turn
+  const discardOutputRef = useRef(false);
+  const replyPendingRef = useRef(false);
+
+  const hideCaptionAfter = useCallback((delayMs: number) => {
+    if (captionHideTimerRef.current) {
+      clearTimeout(captionHideTimerRef.current);
+    }
+    captionHideTimerRef.current = setTimeout(() => {
+      captionTimingRef.current = null;
+      setCaption(null);
+    }, delayMs);
+  }, []);
+
+  // Caption a reply; with `viaAudio` the words follow playback, otherwise the given duration
+  const showCaption = useCallback((text: string, durationMs: number, viaAudio: boolean) => {
+    if (!text) return;
+    captionTimingRef.current = { startedAt: performance.now(), durationMs, viaAudio, ended: false };
+    setCaption(text);
+    if (viaAudio) {
+      // Playback ending hides it; this only catches audio that never arrives
+      if (captionHideTimerRef.current) {
+        clearTimeout(captionHideTimerRef.current);
+      }
+      captionHideTimerRef.current = setTimeout(() => {
+        captionHideTimerRef.current = null;
+        if (audioPlayer.isPlaying) return;
+        captionTimingRef.current = null;
+        setCaption(null);
+      }, durationMs + AUDIO_CAPTION_TIMEOUT_MS);
+    } else {
+      hideCaptionAfter(durationMs + CAPTION_LINGER_MS);
+    }
+  }, [hideCaptionAfter]);
+
+  const isYumiSpeaking = () => {
+    const timing = captionTimingRef.current;
+    if (audioPlayer.isPlaying) return true;
+    if (!timing || timing.ended) return false;
+    // Timed captions linger after the mouth stops; audio ones count from the moment they are shown
+    return timing.viaAudio || performance.now() < timing.startedAt + timing.durationMs;
+  };
+
+  // Barge-in: the user takes the floor, so YUMI stops mid-sentence and the rest of her turn is dropped
+  const bargeIn = useCallback(() => {
+    console.log('Barge-in: interrupting YUMI');
+    discardOutputRef.current = true;
+    replyPendingRef.current = false;
+    backend.interrupt();
+    audioPlayer.stop();
+    avatar.stopSpeaking();
+    avatar.setEmotion('neutral');
+    hideCaptionAfter(0);
+  }, [backend, avatar, hideCaptionAfter]);
+
+  const bargeInRef = useRef(bargeIn);
+  bargeInRef.current = bargeIn;
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape' || isForFocusedControl(e.target)) return;
+      // Nothing to interrupt: YUMI is neither talking nor about to
+      if (isYumiSpeaking() || replyPendingRef.current) {
+        bargeInRef.current();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const getCaptionProgress = useCallback(() => {
+    if (replayFrameRef.current) return replayFrameRef.current.captionProgress;
+    const timing = captionTimingRef.current;
+    if (!timing) return 0;
+    if (timing.ended) return 1;
+    const played = audioPlayer.getPlaybackTime();
+    if (played !== null) {
+      return played / Math.max(0.001, audioPlayer.getScheduledDuration());
+    }
+    // Audio-driven captions wait for playback to start
+    return timing.viaAudio ? 0 : (performance.now() - timing.startedAt) / timing.durationMs;
+  }, []);
+
+  useEffect(() => () => {
+    if (captionHideTimerRef.current) {
+      clearTimeout(captionHideTimerRef.current);
+    }
+  }, []);
+
+  // Broadcast views mirror the avatar, scene and captions; a newly opened one asks for the scene
+  const sceneRef = useRef({ avatarId: avatarModel.id, subtitles: broadcastSubtitles, listening: isCapturing });
+  sceneRef.current = { avatarId: avatarModel.id, subtitles: broadcastSubtitles, listening: isCapturing };
 
   useEffect(() => {
+    const handleViews = ({ count }: { count: number }) => setBroadcastViews(count);
+    const handleMessage = (message: BroadcastMessage) => {
+      if (message.type === 'hello') {
+        broadcastLink.post({ type: 'scene', ...sceneRef.current });
+      }
+    };
+    broadcastLink.on('views', handleViews);
+    broadcastLink.on('message', handleMessage);
+    broadcastLink.start();
+    return () => {
+      broadcastLink.off('views', handleViews);
+      broadcastLink.off('message', handleMessage);
+    };
+  }, []);
+
+  useEffect(() => {
+    broadcastLink.post({ type: 'scene', avatarId: avatarModel.id, subtitles: broadcastSubtitles, listening: isCapturing });
+  }, [avatarModel.id, broadcastSubtitles, isCapturing]);
+
+  useEffect(() => {
+    broadcastLink.post({ type: 'caption', text: caption });
+  }, [caption]);
+
+  useEffect(() => {
+    if (!broadcastViews && !isRecording) return;
+    const timer = setInterval(() => {
+      if (!audioPlayer.isPlaying && !captionTimingRef.current) return;
+      broadcastLink.post({
+        type: 'frame',
+        level: audioPlayer.getLevel(),
+        captionProgress: getCaptionProgress(),
+        playbackTime: audioPlayer.getPlaybackTime()
+      });
+    }, BROADCAST_FRAME_MS);
+    return () => clearInterval(timer);
+  }, [broadcastViews, isRecording, getCaptionProgress]);
+
+  const openBroadcastView = () => {
+    window.open(`${window.location.pathname}?view=broadcast`, 'yumi-broadcast', 'width=1280,height=720');
+  };
+
+  const toggleRecording = () => {
+    if (sessionRecorder.isRecording) {
+      stopRecording();
+      return;
+    }
+    sessionRecorder.start(canvasRef.current, backend);
+    // Open the log with the scene so a replay starts from the same avatar
+    broadcastLink.post({ type: 'scene', ...sceneRef.current });
+  };
+
+  useEffect(() => {
+    sessionRecorder.follow(backend);
+  }, [backend]);
+
+  useEffect(() => {
+    const handleRecorderState = ({ recording }: { recording: boolean }) => setIsRecording(recording);
+    sessionRecorder.on('state', handleRecorderState);
+    return () => {
+      sessionRecorder.off('state', handleRecorderState);
+      // Leaving Live mode ends the recording rather than losing it
+      stopRecording();
+    };
+  }, []);
+
+  const handleReplayFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const log = parseSessionLog(await file.text());
+      // A replay stands in for the backend: cut off whatever YUMI is doing and ignore the backend until it ends
+      bargeIn();
+      sessionReplay.play(log);
+    } catch (error) {
+      console.warn('Could not replay session log:', error);
+    }
+  };
+
+  // Replayed avatar commands go through the mirrored avatar, so broadcast views and recordings follow them too
+  useEffect(() => {
+    const handleReplayAvatar = (message: BroadcastMessage) => {
+      if (applyAvatarCommand(avatar, message)) return;
+      switch (message.type) {
+        case 'scene':
+          if (message.avatarId !== sceneRef.current.avatarId) {
+            avatarRegistry.list().then(models => {
+              const model = models.find(candidate => candidate.id === message.avatarId);
+              if (model) {
+                setIsLoading(true);
+                setAvatarModel(model);
+              }
+            });
+          }
+          break;
+        case 'caption':
+          setCaption(message.text);
+          break;
+        case 'frame':
+          replayFrameRef.current = {
+            level: message.level,
+            captionProgress: message.captionProgress,
+            playbackTime: message.playbackTime ?? null,
+            receivedAt: performance.now()
+          };
+          broadcastLink.post(message);
+          break;
+      }
+    };
+
+    const handleReplayState = ({ playing }: SessionReplayEventMap['state']) => {
+      setIsReplaying(playing);
+      discardOutputRef.current = playing;
+      if (!playing) {
+        replayFrameRef.current = null;
+        avatar.stopSpeaking();
+        avatar.setEmotion('neutral');
+        setCaption(null);
+      }
+    };
+
+    sessionReplay.on('avatar', handleReplayAvatar);
+    sessionReplay.on('state', handleReplayState);
+    return () => {
+      sessionReplay.off('avatar', handleReplayAvatar);
+      sessionReplay.off('state', handleReplayState);
+      sessionReplay.stop();
+    };
+  }, [avatar]);
+
+  useEffect(() => {
+    avatarRegistry.getSelected().then(model => {
+      if (model.id !== DEFAULT_AVATAR.id) {
+        setIsLoading(true);
+        setAvatarModel(model);
+      }
+    });
+  }, []);
+
+  // A model that cannot load falls back to the default, and stops being selected so a reload does not hit it again
+  const handleAvatarError = useCallback(() => {
+    avatarRegistry.select(DEFAULT_AVATAR.id);
+    if (avatarModel.id === DEFAULT_AVATAR.id) {
+      setIsLoading(false);
+      return;
+    }
+    setAvatarModel(DEFAULT_AVATAR);
+  }, [avatarModel.id]);
+
+  const handleAvatarSelect = useCallback((model: AvatarModel) => {
+    setShowAvatarPicker(false);
+    setIsLoading(true);
+    setAvatarModel(model);
+  }, []);
+
+  useEffect(() => {
+    // FEED follows face tracking; AUDIO follows actual playback
     onStatsUpdate({
-      videoStatus: 'ONLINE',
-      audioQuality: 'OPTIMAL'
+      videoStatus: 'OFFLINE',
+      audioQuality: 'N/A'
     });
 
-    // Handle Riko connection status
-    const handleConnection = (data: any) => {
-      setConnectionStatus(data.status === 'connected' ? 'connected' : 'disconnected');
+    let levelTimer: ReturnType<typeof setInterval> | null = null;
+    const stopLevelSampling = () => {
+      if (levelTimer) {
+        clearInterval(levelTimer);
+        levelTimer = null;
+      }
     };
 
-    // Handle speaking messages from Riko
-    const handleSpeaking = (msg: { type: string; text?: string; duration?: number }) => {
-      if (msg.duration) {
-        avatarRef.current?.speak(msg.duration);
+    const handlePlaybackStart = () => {
+      onStatsUpdate({ audioQuality: 'OPTIMAL' });
+      stopLevelSampling();
+      levelTimer = setInterval(() => {
+        const level = audioPlayer.getLevel();
+        if (level !== null) {
+          onStatsUpdate({ audioQuality: level > PEAK_LEVEL ? 'PEAKING' : 'OPTIMAL' });
+        }
+      }, LEVEL_SAMPLE_MS);
+    };
+
+    const handlePlaybackEnd = () => {
+      stopLevelSampling();
+      onStatsUpdate({ audioQuality: 'N/A' });
+      avatar.stopSpeaking();
+      const timing = captionTimingRef.current;
+      if (timing?.viaAudio) {
+        timing.ended = true;
+        hideCaptionAfter(CAPTION_LINGER_MS);
       }
     };
 
-    rikoService.on('connection', handleConnection);
-    rikoService.on('speaking', handleSpeaking);
+    // A clip that fails to load ends the reply as if it had played, unless other audio is still going
+    const handlePlaybackError = () => {
+      if (!audioPlayer.isPlaying) {
+        handlePlaybackEnd();
+      }
+    };
 
-    // Simulate initial connection attempt
-    setTimeout(() => {
-      setConnectionStatus('disconnected');
-    }, 2000);
+    audioPlayer.on('start', handlePlaybackStart);
+    audioPlayer.on('end', handlePlaybackEnd);
+    audioPlayer.on('error', handlePlaybackError);
 
     return () => {
-      rikoService.off('connection', handleConnection);
-      rikoService.off('speaking', handleSpeaking);
+      stopLevelSampling();
+      audioPlayer.off('start', handlePlaybackStart);
+      audioPlayer.off('end', handlePlaybackEnd);
+      audioPlayer.off('error', handlePlaybackError);
+      audioPlayer.stop();
       onStatsUpdate({
         videoStatus: 'OFFLINE',
         audioQuality: 'N/A'
       });
     };
-  }, [onStatsUpdate]);
+  }, [onStatsUpdate, avatar, hideCaptionAfter]);
+
+  // Whichever backend is selected drives the avatar through the same hooks
+  useEffect(() => {
+    // Real audio takes priority over timed mouth movement
+    const handleSpeaking = ({ text, durationMs, audioUrl, streamedAudio }: ConversationBackendEventMap['speaking']) => {
+      if (discardOutputRef.current) return;
+      showCaption(
+        text,
+        durationMs ?? estimateSpeechDuration(text),
+        !!audioUrl || streamedAudio || audioPlayer.isPlaying
+      );
+      if (audioUrl) {
+        audioPlayer.playUrl(audioUrl);
+      } else if (durationMs && !audioPlayer.isPlaying) {
+        avatar.speak(durationMs);
+      }
+    };
+
+    const handleAudio = (frame: ConversationBackendEventMap['audio']) => {
+      if (discardOutputRef.current) return;
+      audioPlayer.enqueueChunk(frame);
+    };
+
+    const handleViseme = ({ visemes }: ConversationBackendEventMap['viseme']) => {
+      if (discardOutputRef.current) return;
+      avatar.setVisemes(toVisemeCues(visemes));
+    };
+
+    const handleEmotion = ({ emotion, intensity }: ConversationBackendEventMap['emotion']) => {
+      if (discardOutputRef.current) return;
+      avatar.setEmotion(emotion, intensity);
+    };
+
+    const handleGesture = ({ gesture }: ConversationBackendEventMap['gesture']) => {
+      if (discardOutputRef.current) return;
+      avatar.playGesture(gesture);
+    };
+
+    // The user speaking again starts their next turn, so replies count once more
+    const handleTranscript = ({ text }: ConversationBackendEventMap['transcript']) => {
+      discardOutputRef.current = false;
+      setInputMessage(text);
+    };
+
+    // The user talked over YUMI; the audio-end handler closes the mouth and caption
+    const handleInterrupted = () => audioPlayer.stop();
 
-  const handleSendMessage = useCallback(async () => {
-    if (!inputMessage.trim()) return;
+    // Spoken exchanges the backend ran itself still belong in the transcript
+    const handleTurn = ({ userText, replyText, latency: turnLatency }: ConversationBackendEventMap['turn']) => {
+      if (userText) {
+        setInputMessage('');
+        recordMessage('user', userText);
+        memoryStore.learnFrom(userText, 'live').catch(error => {
+          console.warn('Could not update memories:', error);
+        });
+      }
+      recordMessage('assistant', replyText, turnLatency);
+      if (turnLatency !== undefined) {
+        setLatency(turnLatency);
+        onStatsUpdate({ latency: turnLatency });
+      }
+    };
+
+    backend.on('speaking', handleSpeaking);
+    backend.on('audio', handleAudio);
+    backend.on('viseme', handleViseme);
+    backend.on('emotion', handleEmotion);
+    backend.on('gesture', handleGesture);
+    backend.on('transcript', handleTranscript);
+    backend.on('interrupted', handleInterrupted);
+    backend.on('turn', handleTurn);
+
+    return () => {
+      backend.off('speaking', handleSpeaking);
+      backend.off('audio', handleAudio);
+      backend.off('viseme', handleViseme);
+      backend.off('emotion', handleEmotion);
+      backend.off('gesture', handleGesture);
+      backend.off('transcript', handleTranscript);
+      backend.off('interrupted', handleInterrupted);
+      backend.off('turn', handleTurn);
+      audioPlayer.stop();
+    };
+  }, [backend, avatar, onStatsUpdate, showCaption]);
 
-    const startTime = performance.now();
-    const message = inputMessage;
-    setInputMessage('');
+  // `author` is set for stream chat messages, which leave the input bar alone
+  const submitMessage = useCallback(async (message: string, author?: string) => {
+    if (!message.trim()) return;
 
-    console.log('Sending message to Riko:', message);
+    if (!author) {
+      setInputMessage('');
+    }
+    discardOutputRef.current = false;
+    audioPlayer.resume();
+    // Look thoughtful until the reply sets its own emotion
+    avatar.setEmotion('thinking', 0.6, Infinity);
+
+    console.log(`Sending message to ${backend.label}:`, message);
+    const history = await loadHistory();
+    const userMessage = recordMessage('user', message, undefined, author);
 
-    const response = await rikoService.sendMessage(message);
-    const endTime = performance.now();
-    const messageLatency = Math.round(endTime - startTime);
-    
-    setLatency(messageLatency);
-    onStatsUpdate({ latency: messageLatency });
+    // Queueing backends report progress on the message; the transcript panel shows it
+    const onDelivery = (delivery: DeliveryStatus) => {
+      if (!userMessage) return;
+      conversationStore.append({ ...userMessage, delivery }).catch(error => {
+        console.warn('Could not save Live message:', error);
+      });
+    };
 
-    if (response) {
-      console.log('Received response from Riko:', response);
-      // Trigger mouth animation for response
-      avatarRef.current?.speak(2000);
+    let reply: BackendReply | null = null;
+    try {
+      const request = await prepareRequest(message, userMessage ? [...history, userMessage] : history, 'live', author);
+      replyPendingRef.current = true;
+      reply = await backend.send({ ...request, onDelivery });
+    } catch (error) {
+      console.warn(`${backend.label} request failed:`, error);
+    } finally {
+      replyPendingRef.current = false;
+    }
+
+    if (reply?.cancelled) {
+      console.log(`${backend.label} reply was interrupted`);
+    } else if (reply) {
+      console.log(`Received reply from ${backend.label}:`, reply);
+      setLatency(reply.latency);
+      onStatsUpdate({ latency: reply.latency });
+      recordMessage('assistant', reply.text, reply.latency);
     } else {
-      console.log('No response from Riko (server may be offline)');
+      avatar.setEmotion('neutral');
+      console.log(`No reply from ${backend.label}`);
+    }
+  }, [backend, avatar, onStatsUpdate]);
+
+  const handleSendMessage = useCallback(() => {
+    submitMessage(inputMessage);
+  }, [inputMessage, submitMessage]);
+
+  const submitMessageRef = useRef(submitMessage);
+  submitMessageRef.current = submitMessage;
+
+  // Stream chat messages picked by the moderation queue are answered here, one at a time
+  useEffect(() => {
+    streamChat.setResponder({
+      respond: message => submitMessageRef.current(message.text, message.displayName),
+      isBusy: () => replyPendingRef.current || isYumiSpeaking()
+    });
+    return () => streamChat.setResponder(null);
+  }, []);
+
+  useEffect(() => {
+    let audioQuality: SystemStats['audioQuality'] = 'OPTIMAL';
+
+    const handleState = ({ state }: SpeechInputEventMap['state']) => {
+      setIsListening(state !== 'off');
+      setIsCapturing(state === 'capturing');
+      // Talking over YUMI cuts her off
+      if (state === 'capturing' && (isYumiSpeaking() || replyPendingRef.current)) {
+        bargeInRef.current();
+      }
+    };
+
+    const handleLevel = ({ peak }: SpeechInputEventMap['level']) => {
+      const quality = peak > 0.95 ? 'PEAKING' : 'OPTIMAL';
+      if (quality !== audioQuality) {
+        audioQuality = quality;
+        onStatsUpdate({ audioQuality: quality });
+      }
+    };
+
+    // Partial transcripts preview in the input bar; final ones are sent straight away
+    const handleTranscript = ({ text, final }: SpeechInputEventMap['transcript']) => {
+      if (final) {
+        submitMessageRef.current(text);
+      } else {
+        setInputMessage(text);
+      }
+    };
+
+    speechInput.on('state', handleState);
+    speechInput.on('level', handleLevel);
+    speechInput.on('transcript', handleTranscript);
+
+    return () => {
+      speechInput.off('state', handleState);
+      speechInput.off('level', handleLevel);
+      speechInput.off('transcript', handleTranscript);
+      speechInput.stop();
+    };
+  }, [onStatsUpdate]);
+
+  // Starting to type while YUMI talks cuts her off
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setInputMessage(e.target.value);
+    if (e.target.value && isYumiSpeaking()) {
+      bargeIn();
     }
-  }, [inputMessage, onStatsUpdate]);
+  };
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -87,17 +650,108 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
     }
   };
 
+  const reportMicError = (error: unknown) => {
+    console.warn('Microphone capture failed:', error);
+    onStatsUpdate({ audioQuality: 'N/A' });
+  };
+
   const toggleListening = () => {
-    setIsListening(!isListening);
-    onStatsUpdate({
-      audioQuality: !isListening ? 'PEAKING' : 'OPTIMAL'
-    });
+    if (micMode !== 'vad') return;
+    if (isListening) {
+      speechInput.stop();
+    } else {
+      speechInput.start().catch(reportMicError);
+    }
+  };
+
+  const handleTalkStart = () => {
+    if (micMode === 'push-to-talk') {
+      speechInput.press().catch(reportMicError);
+    }
+  };
+
+  // Always release: a tap that ends before the mic has opened must still close it once it does
+  const handleTalkEnd = () => {
+    if (micMode === 'push-to-talk') {
+      speechInput.release().catch(reportMicError);
+    }
+  };
+
+  const toggleMicMode = () => {
+    const next = micMode === 'vad' ? 'push-to-talk' : 'vad';
+    speechInput.setMode(next);
+    setMicMode(next);
+  };
+
+  const cycleGazeSource = async () => {
+    const order: GazeSource[] = webcamGaze.isSupported ? ['camera', 'mouse', 'webcam'] : ['camera', 'mouse'];
+    const next = order[(order.indexOf(gazeSource) + 1) % order.length];
+    if (next === 'webcam' && !(await webcamGaze.start())) {
+      setGazeSource('camera');
+      return;
+    }
+    if (next !== 'webcam') {
+      webcamGaze.stop();
+    }
+    setGazeSource(next);
+  };
+
+  // Backends, chat and scripts command the avatar through the control bus once it has loaded
+  useEffect(() => {
+    if (isLoading) return;
+    return avatarControl.attach(avatar);
+  }, [isLoading, avatar]);
+
+  useEffect(() => () => webcamGaze.stop(), []);
+
+  // FEED is the tracking camera (or test video): ONLINE only while it is being tracked
+  useEffect(() => {
+    const handleTrackerState = ({ state }: { state: FaceTrackerState }) => {
+      setTrackingState(state);
+      onStatsUpdate({ videoStatus: state === 'tracking' ? 'ONLINE' : 'OFFLINE' });
+    };
+    faceTracker.on('state', handleTrackerState);
+    return () => {
+      faceTracker.off('state', handleTrackerState);
+      faceTracker.stop();
+    };
+  }, [onStatsUpdate]);
+
+  const toggleTracking = () => {
+    if (trackingState === 'tracking' || trackingState === 'loading') {
+      faceTracker.stop();
+    } else {
+      faceTracker.start({ kind: 'webcam' });
+    }
+  };
+
+  const handleTrackingFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      faceTracker.start({ kind: 'file', file });
+    }
   };
 
   const handleMouthAnimation = useCallback((intensity: number) => {
     console.log('Mouth animation triggered with intensity:', intensity);
   }, []);
 
+  const getAudioLevel = useCallback(() => {
+    const frame = replayFrameRef.current;
+    if (frame) return performance.now() - frame.receivedAt < FRAME_STALE_MS ? frame.level : null;
+    return audioPlayer.getLevel();
+  }, []);
+  // Replayed sessions carry no audio; their frames say how far the recorded audio had played
+  const getPlaybackTime = useCallback(() => {
+    const frame = replayFrameRef.current;
+    if (!frame) return audioPlayer.getPlaybackTime();
+    const age = performance.now() - frame.receivedAt;
+    return frame.playbackTime !== null && age < FRAME_STALE_MS ? frame.playbackTime + age / 1000 : null;
+  }, []);
+  const getFacePosition = useCallback(() => webcamGaze.getPoint(), []);
+  const getFacePose = useCallback(() => faceTracker.getPose(), []);
+
   const handleAvatarLoad = useCallback(() => {
     console.log('Avatar3D loaded successfully');
     setIsLoading(false);
@@ -110,6 +764,9 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
       
       <Canvas
         className="w-full h-full"
+        onCreated={({ gl }) => {
+          canvasRef.current = gl.domElement;
+        }}
         gl={{ 
           antialias: true, 
           alpha: true,
@@ -124,11 +781,24 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
         <pointLight position={[-2, -1, -2]} intensity={0.8} color="#8b5cf6" />
         
         {/* Avatar */}
-        <Avatar3D 
-          ref={avatarRef}
-          onLoad={handleAvatarLoad}
-          onMouthAnimation={handleMouthAnimation}
-        />
+        <AvatarErrorBoundary key={avatarModel.id} onError={handleAvatarError}>
+          <Suspense fallback={null}>
+            <Avatar3D 
+              key={avatarModel.id}
+              ref={avatarRef}
+              model={avatarModel}
+              onLoad={handleAvatarLoad}
+              onMouthAnimation={handleMouthAnimation}
+              getAudioLevel={getAudioLevel}
+              getPlaybackTime={getPlaybackTime}
+              onEmotionChange={onEmotionChange}
+              gazeSource={gazeSource}
+              getFacePosition={getFacePosition}
+              getFacePose={getFacePose}
+              listening={isCapturing}
+            />
+          </Suspense>
+        </AvatarErrorBoundary>
         
         {/* Camera controls */}
         <OrbitControls enableZoom={false} />
@@ -151,19 +821,74 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
       {/* Connection status */}
       <div className="absolute top-4 left-4 bg-black/60 border border-fuchsia-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
         <div className="flex items-center gap-2">
-          <div className={`w-2 h-2 rounded-full animate-pulse ${
-            connectionStatus === 'connected' ? 'bg-green-400' :
-            connectionStatus === 'connecting' ? 'bg-yellow-400' :
-            'bg-red-400'
-          }`} />
-          <span className="text-xs font-mono text-cyan-300">
-            {connectionStatus === 'connected' ? 'RIKO CONNECTED' :
-             connectionStatus === 'connecting' ? 'CONNECTING...' :
-             'RIKO OFFLINE'}
-          </span>
+          <BackendSelector />
+          {backend.id.startsWith('riko') && (
+            <button
+              onClick={() => setShowSettings(true)}
+              className="text-cyan-600 hover:text-fuchsia-300 transition-colors"
+              title="Riko settings"
+            >
+              <Settings className="w-3 h-3" />
+            </button>
+          )}
+          <button
+            onClick={() => setShowAvatarPicker(true)}
+            className="text-cyan-600 hover:text-fuchsia-300 transition-colors"
+            title="Choose avatar"
+          >
+            <UserCircle className="w-3 h-3" />
+          </button>
+          <button
+            onClick={openBroadcastView}
+            className={`transition-colors ${broadcastViews ? 'text-green-400 hover:text-green-300' : 'text-cyan-600 hover:text-fuchsia-300'}`}
+            title={broadcastViews ? `Broadcast view on air (${broadcastViews})` : 'Open the broadcast view for OBS'}
+          >
+            <Cast className="w-3 h-3" />
+          </button>
+          <button
+            onClick={toggleRecording}
+            className={`transition-colors ${isRecording ? 'text-red-500 animate-pulse' : 'text-cyan-600 hover:text-fuchsia-300'}`}
+            title={isRecording ? 'Stop recording and download the video and event log' : 'Record video and an event log'}
+          >
+            {isRecording ? <Square className="w-3 h-3" /> : <Circle className="w-3 h-3" />}
+          </button>
+          <button
+            onClick={() => (isReplaying ? sessionReplay.stop() : replayInputRef.current?.click())}
+            className={`transition-colors ${isReplaying ? 'text-green-400 hover:text-green-300' : 'text-cyan-600 hover:text-fuchsia-300'}`}
+            title={isReplaying ? 'Stop the replay' : 'Replay a recorded event log'}
+          >
+            {isReplaying ? <Square className="w-3 h-3" /> : <Film className="w-3 h-3" />}
+          </button>
+          <input ref={replayInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleReplayFile} />
+          <button
+            onClick={() => trackingInputRef.current?.click()}
+            className="text-cyan-600 hover:text-fuchsia-300 transition-colors"
+            title="Track a face in a recorded video instead of the webcam"
+          >
+            <Video className="w-3 h-3" />
+          </button>
+          <input ref={trackingInputRef} type="file" accept="video/*" className="hidden" onChange={handleTrackingFile} />
+          {broadcastViews > 0 && (
+            <button
+              onClick={() => setBroadcastSubtitles(prev => !prev)}
+              className="text-cyan-600 hover:text-fuchsia-300 transition-colors"
+              title={broadcastSubtitles ? 'Hide subtitles on air' : 'Show subtitles on air'}
+            >
+              {broadcastSubtitles ? <Captions className="w-3 h-3" /> : <CaptionsOff className="w-3 h-3" />}
+            </button>
+          )}
         </div>
       </div>
 
+      {showSettings && <RikoSettingsPanel onClose={() => setShowSettings(false)} />}
+      {showAvatarPicker && (
+        <AvatarPicker
+          currentId={avatarModel.id}
+          onSelect={handleAvatarSelect}
+          onClose={() => setShowAvatarPicker(false)}
+        />
+      )}
+
       {/* Latency display */}
       {latency > 0 && (
         <div className="absolute top-4 right-4 bg-black/60 border border-fuchsia-500/30 rounded-lg px-3 py-2 backdrop-blur-sm">
@@ -173,25 +898,65 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
         </div>
       )}
 
+      {/* Captions and transcript */}
+      <SubtitleOverlay text={caption} getProgress={getCaptionProgress} />
+      <TranscriptPanel />
+      <StreamChatPanel />
+
       {/* Input controls */}
       <div className="absolute bottom-0 left-0 right-0 p-4 border-t border-fuchsia-500/20 bg-black/60 backdrop-blur-md">
         <div className="flex items-center gap-3">
           <button
             onClick={toggleListening}
+            onPointerDown={handleTalkStart}
+            onPointerUp={handleTalkEnd}
+            onPointerLeave={handleTalkEnd}
             className={`p-3 rounded-lg transition-all duration-300 ${
               isListening
                 ? 'bg-red-500/20 text-red-400 border border-red-500/50 shadow-[0_0_15px_rgba(239,68,68,0.3)]'
                 : 'bg-fuchsia-500/10 text-fuchsia-400 border border-fuchsia-500/30 hover:bg-fuchsia-500/20'
-            }`}
-            title={isListening ? 'Stop listening' : 'Start listening'}
+            } ${isCapturing ? 'animate-pulse' : ''}`}
+            title={micMode === 'push-to-talk' ? 'Hold to talk' : isListening ? 'Stop listening' : 'Start listening'}
           >
             {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
           </button>
 
+          <button
+            onClick={toggleMicMode}
+            className="px-2 py-1 rounded text-[10px] font-mono text-cyan-500 border border-cyan-900/40 hover:text-cyan-300 transition-colors"
+            title="Switch between push-to-talk and voice activity detection"
+          >
+            {micMode === 'vad' ? 'VAD' : 'PTT'}
+          </button>
+
+          <button
+            onClick={cycleGazeSource}
+            className="px-2 py-1 rounded text-[10px] font-mono text-cyan-500 border border-cyan-900/40 hover:text-cyan-300 transition-colors"
+            title="Choose what YUMI looks at: the camera, your cursor or your face (webcam)"
+          >
+            {gazeSource === 'camera' ? 'EYES: CAM' : gazeSource === 'mouse' ? 'EYES: CURSOR' : 'EYES: FACE'}
+          </button>
+
+          {faceTracker.isSupported && (
+            <button
+              onClick={toggleTracking}
+              className={`px-2 py-1 rounded text-[10px] font-mono border transition-colors ${
+                trackingState === 'tracking'
+                  ? 'text-green-400 border-green-900/40 hover:text-green-300'
+                  : trackingState === 'error'
+                    ? 'text-red-400 border-red-900/40 hover:text-red-300'
+                    : 'text-cyan-500 border-cyan-900/40 hover:text-cyan-300'
+              }`}
+              title="Let your face (webcam) drive YUMI's head, eyes, blinks and mouth"
+            >
+              {trackingState === 'tracking' ? 'MOCAP: ON' : trackingState === 'loading' ? 'MOCAP: …' : trackingState === 'error' ? 'MOCAP: ERR' : 'MOCAP: OFF'}
+            </button>
+          )}
+
           <input
             type="text"
             value={inputMessage}
-            onChange={(e) => setInputMessage(e.target.value)}
+            onChange={handleInputChange}
             onKeyPress={handleKeyPress}
             placeholder="Send a message to YUMI..."
             className="flex-1 bg-black/60 border border-fuchsia-500/30 rounded-lg px-4 py-3 text-cyan-50 placeholder-cyan-700 focus:outline-none focus:border-fuchsia-400 focus:shadow-[0_0_15px_rgba(232,121,249,0.2)] transition-all font-mono text-sm"
@@ -208,7 +973,7 @@ const LiveInterface: React.FC<LiveInterfaceProps> = ({ apiKey, onStatsUpdate })
         </div>
 
         <div className="mt-2 text-xs text-cyan-700 font-mono">
-          Press Enter to send • ESC to cancel
+          Press Enter to send • ESC, typing or talking interrupts YUMI
         </div>
       </div>
     </div>
@@ -0,0 +1,180 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { X, Plus, Pencil, Trash2, Check, Search } from 'lucide-react';
+import { Memory, MemoryKind } from '../types';
+import { memoryStore } from '../services/memoryStore';
+
+interface MemoryPanelProps {
+  onClose: () => void;
+}
+
+const KINDS: MemoryKind[] = ['name', 'preference', 'fact', 'topic'];
+
+const KIND_STYLES: Record<MemoryKind, string> = {
+  name: 'text-fuchsia-300 border-fuchsia-500/40',
+  preference: 'text-amber-300 border-amber-500/40',
+  fact: 'text-cyan-300 border-cyan-500/40',
+  topic: 'text-emerald-300 border-emerald-500/40'
+};
+
+const inputClass = 'w-full bg-black/60 border border-fuchsia-500/30 rounded px-3 py-2 text-cyan-50 placeholder-cyan-800 focus:outline-none focus:border-fuchsia-400 font-mono text-xs';
+
+/** Everything YUMI remembers about the user, with edit, delete and manual add */
+const MemoryPanel: React.FC<MemoryPanelProps> = ({ onClose }) => {
+  const [memories, setMemories] = useState<Memory[]>([]);
+  const [filter, setFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [newKind, setNewKind] = useState<MemoryKind>('fact');
+  const [newText, setNewText] = useState('');
+
+  const refresh = useCallback(async () => {
+    try {
+      setMemories(await memoryStore.list());
+    } catch (error) {
+      console.warn('MemoryPanel: Could not load memories', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    memoryStore.on('change', refresh);
+    return () => memoryStore.off('change', refresh);
+  }, [refresh]);
+
+  const startEdit = (memory: Memory) => {
+    setEditingId(memory.id);
+    setEditText(memory.content);
+  };
+
+  const commitEdit = async () => {
+    if (!editingId) return;
+    const text = editText.trim();
+    if (text) {
+      await memoryStore.update(editingId, text);
+    }
+    setEditingId(null);
+  };
+
+  const handleAdd = async () => {
+    if (!newText.trim()) return;
+    await memoryStore.add(newKind, newText);
+    setNewText('');
+  };
+
+  const handleDelete = (memory: Memory) => {
+    if (window.confirm(`Forget "${memory.content}"?`)) {
+      memoryStore.remove(memory.id);
+    }
+  };
+
+  const handleClear = () => {
+    if (window.confirm('Forget everything YUMI remembers about you?')) {
+      memoryStore.clear();
+    }
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query ? memories.filter(m => m.content.toLowerCase().includes(query)) : memories;
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="w-full max-w-xl bg-[#0d0221]/95 border border-fuchsia-500/40 rounded-lg p-5 shadow-[0_0_30px_rgba(236,72,153,0.3)]">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold font-['Orbitron'] tracking-wider text-fuchsia-300">MEMORIES ({memories.length})</h2>
+          <button onClick={onClose} className="text-cyan-600 hover:text-cyan-300" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="relative mb-3">
+          <Search className="w-3 h-3 text-cyan-700 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            className={`${inputClass} pl-8`}
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            placeholder="Filter memories"
+          />
+        </div>
+
+        <div className="space-y-1 max-h-[50vh] overflow-y-auto pr-1">
+          {visible.length === 0 && (
+            <p className="text-xs font-mono text-cyan-800 text-center py-4">
+              {memories.length ? 'No matching memories' : 'Nothing remembered yet. Tell YUMI your name or what you like.'}
+            </p>
+          )}
+          {visible.map(memory => (
+            <div key={memory.id} className="flex items-center gap-2 rounded px-2 py-1.5 border border-transparent hover:border-fuchsia-500/20 group">
+              <span className={`text-[9px] font-mono uppercase border rounded px-1 flex-shrink-0 ${KIND_STYLES[memory.kind]}`}>
+                {memory.kind}
+              </span>
+              {editingId === memory.id ? (
+                <input
+                  autoFocus
+                  className={inputClass}
+                  value={editText}
+                  onChange={(e) => setEditText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitEdit();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                />
+              ) : (
+                <span className="flex-1 text-xs text-cyan-100 truncate" title={`Learned ${new Date(memory.createdAt).toLocaleString()} from ${memory.source}`}>
+                  {memory.content}
+                </span>
+              )}
+              {editingId === memory.id ? (
+                <button onClick={commitEdit} className="text-fuchsia-300 hover:text-fuchsia-200" title="Save">
+                  <Check className="w-3 h-3" />
+                </button>
+              ) : (
+                <button onClick={() => startEdit(memory)} className="text-cyan-700 hover:text-cyan-300 opacity-0 group-hover:opacity-100" title="Edit">
+                  <Pencil className="w-3 h-3" />
+                </button>
+              )}
+              <button onClick={() => handleDelete(memory)} className="text-cyan-700 hover:text-red-400 opacity-0 group-hover:opacity-100" title="Forget">
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mt-4">
+          <select
+            className="bg-black/60 border border-fuchsia-500/30 rounded px-2 text-cyan-300 font-mono text-xs focus:outline-none"
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as MemoryKind)}
+          >
+            {KINDS.map(kind => <option key={kind} value={kind}>{kind}</option>)}
+          </select>
+          <input
+            className={inputClass}
+            value={newText}
+            onChange={(e) => setNewText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="Something YUMI should remember"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={!newText.trim()}
+            className="flex items-center gap-1 px-3 rounded text-xs font-mono bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/50 hover:bg-fuchsia-500/30 disabled:opacity-40"
+          >
+            <Plus className="w-3 h-3" /> ADD
+          </button>
+        </div>
+
+        <div className="flex justify-end mt-4">
+          <button
+            onClick={handleClear}
+            disabled={!memories.length}
+            className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono text-cyan-600 border border-cyan-900/40 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-3 h-3" /> FORGET ALL
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MemoryPanel;
@@ -0,0 +1,189 @@
+import React, { useState } from 'react';
+import { X, Plus, Save, Trash2, Check } from 'lucide-react';
+import { Persona } from '../types';
+import { personaStore, DEFAULT_PERSONA, MIN_MAX_TOKENS } from '../services/personas';
+
+interface PersonaEditorProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/60 border border-fuchsia-500/30 rounded px-3 py-2 text-cyan-50 placeholder-cyan-800 focus:outline-none focus:border-fuchsia-400 font-mono text-xs';
+const labelClass = 'block text-[10px] text-cyan-500 font-mono tracking-wider mb-1 uppercase';
+
+const PersonaEditor: React.FC<PersonaEditorProps> = ({ onClose }) => {
+  const [personas, setPersonas] = useState<Persona[]>(() => personaStore.list());
+  const [activeId, setActiveId] = useState(() => personaStore.getActive().id);
+  const [draft, setDraft] = useState<Persona>(() => personaStore.getActive());
+  // Banned topics are edited as one comma-separated line
+  const [bannedText, setBannedText] = useState(() => personaStore.getActive().bannedTopics.join(', '));
+
+  const update = <K extends keyof Persona>(key: K, value: Persona[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const edit = (persona: Persona) => {
+    setDraft(persona);
+    setBannedText(persona.bannedTopics.join(', '));
+  };
+
+  const refresh = () => {
+    setPersonas(personaStore.list());
+    setActiveId(personaStore.getActive().id);
+  };
+
+  const handleSave = () => {
+    const persona: Persona = {
+      ...draft,
+      name: draft.name.trim() || 'Unnamed',
+      bannedTopics: bannedText.split(',').map(topic => topic.trim()).filter(Boolean)
+    };
+    edit(personaStore.save(persona));
+    refresh();
+  };
+
+  const handleUse = () => {
+    handleSave();
+    personaStore.setActive(draft.id);
+    refresh();
+  };
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete persona "${draft.name}"?`)) return;
+    personaStore.remove(draft.id);
+    edit(personaStore.getActive());
+    refresh();
+  };
+
+  const isSaved = personas.some(p => p.id === draft.id);
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4">
+      <div className="w-full max-w-2xl bg-[#0d0221]/95 border border-fuchsia-500/40 rounded-lg p-5 shadow-[0_0_30px_rgba(236,72,153,0.3)]">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold font-['Orbitron'] tracking-wider text-fuchsia-300">PERSONAS</h2>
+          <button onClick={onClose} className="text-cyan-600 hover:text-cyan-300" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="flex gap-4">
+          <div className="w-40 flex-shrink-0 space-y-1">
+            {personas.map(persona => (
+              <button
+                key={persona.id}
+                onClick={() => edit(persona)}
+                className={`w-full flex items-center gap-2 text-left rounded px-2 py-1.5 text-xs border transition-colors ${
+                  persona.id === draft.id
+                    ? 'border-fuchsia-400/60 bg-fuchsia-500/10 text-fuchsia-200'
+                    : 'border-transparent text-cyan-200 hover:border-fuchsia-500/30'
+                }`}
+              >
+                {persona.id === activeId && <Check className="w-3 h-3 text-fuchsia-300 flex-shrink-0" />}
+                <span className="truncate">{persona.name}</span>
+              </button>
+            ))}
+            <button
+              onClick={() => edit(personaStore.create())}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded text-xs font-mono text-cyan-600 border border-cyan-900/40 hover:text-cyan-300"
+            >
+              <Plus className="w-3 h-3" /> NEW
+            </button>
+          </div>
+
+          <div className="flex-1 space-y-3 max-h-[60vh] overflow-y-auto pr-1">
+            <div>
+              <label className={labelClass}>Name</label>
+              <input className={inputClass} value={draft.name} onChange={(e) => update('name', e.target.value)} />
+            </div>
+
+            <div>
+              <label className={labelClass}>Backstory</label>
+              <textarea
+                rows={3}
+                className={inputClass}
+                value={draft.backstory}
+                onChange={(e) => update('backstory', e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Speaking Style</label>
+              <textarea
+                rows={2}
+                className={inputClass}
+                value={draft.speakingStyle}
+                onChange={(e) => update('speakingStyle', e.target.value)}
+              />
+            </div>
+
+            <div>
+              <label className={labelClass}>Greeting</label>
+              <input className={inputClass} value={draft.greeting} onChange={(e) => update('greeting', e.target.value)} />
+            </div>
+
+            <div>
+              <label className={labelClass}>Banned Topics (comma separated)</label>
+              <input
+                className={inputClass}
+                value={bannedText}
+                onChange={(e) => setBannedText(e.target.value)}
+                placeholder="politics, real names"
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Temperature ({draft.temperature.toFixed(2)})</label>
+                <input
+                  type="range"
+                  min={0}
+                  max={2}
+                  step={0.05}
+                  className="w-full accent-fuchsia-500"
+                  value={draft.temperature}
+                  onChange={(e) => update('temperature', Number(e.target.value))}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Max Tokens</label>
+                <input
+                  type="number"
+                  min={MIN_MAX_TOKENS}
+                  className={inputClass}
+                  value={draft.maxTokens}
+                  onChange={(e) => update('maxTokens', Number(e.target.value))}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between mt-5">
+          <button
+            onClick={handleDelete}
+            disabled={!isSaved || draft.id === DEFAULT_PERSONA.id}
+            className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono text-cyan-600 border border-cyan-900/40 hover:text-red-400 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="w-3 h-3" /> DELETE
+          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={handleSave}
+              className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono text-cyan-300 border border-cyan-500/40 hover:bg-cyan-500/10"
+            >
+              <Save className="w-3 h-3" /> SAVE
+            </button>
+            <button
+              onClick={handleUse}
+              className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/50 hover:bg-fuchsia-500/30"
+            >
+              <Check className="w-3 h-3" /> SAVE &amp; USE
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PersonaEditor;
@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { X, RotateCcw, Save } from 'lucide-react';
+import { rikoService } from '../services/riko';
+import { RikoConfig, RIKO_TIMING_MINIMUMS, saveRikoConfig, resetRikoConfig, validateRikoConfig } from '../services/rikoConfig';
+
+interface RikoSettingsPanelProps {
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-black/60 border border-fuchsia-500/30 rounded px-3 py-2 text-cyan-50 placeholder-cyan-800 focus:outline-none focus:border-fuchsia-400 font-mono text-xs';
+const labelClass = 'block text-[10px] text-cyan-500 font-mono tracking-wider mb-1 uppercase';
+
+const RikoSettingsPanel: React.FC<RikoSettingsPanelProps> = ({ onClose }) => {
+  const [draft, setDraft] = useState<RikoConfig>(() => rikoService.getConfig());
+  const [error, setError] = useState<string | null>(null);
+
+  const update = <K extends keyof RikoConfig>(key: K, value: RikoConfig[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSave = () => {
+    const problem = validateRikoConfig(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    rikoService.configure(saveRikoConfig(draft));
+    onClose();
+  };
+
+  const handleReset = () => {
+    const defaults = resetRikoConfig();
+    setDraft(defaults);
+    setError(null);
+    rikoService.configure(defaults);
+  };
+
+  return (
+    <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div className="w-full max-w-md bg-[#0d0221]/95 border border-fuchsia-500/40 rounded-lg p-5 shadow-[0_0_30px_rgba(236,72,153,0.3)]">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-sm font-bold font-['Orbitron'] tracking-wider text-fuchsia-300">RIKO SETTINGS</h2>
+          <button onClick={onClose} className="text-cyan-600 hover:text-cyan-300" title="Close">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          <div>
+            <label className={labelClass}>Base URL</label>
+            <input
+              className={inputClass}
+              value={draft.baseUrl}
+              onChange={(e) => { update('baseUrl', e.target.value); setError(null); }}
+              placeholder="https://riko.example.com"
+            />
+            {error && <p className="mt-1 text-[10px] font-mono text-red-400">{error}</p>}
+          </div>
+
+          <div>
+            <label className={labelClass}>WebSocket Path</label>
+            <input
+              className={inputClass}
+              value={draft.wsPath}
+              onChange={(e) => update('wsPath', e.target.value)}
+              placeholder="/ws"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Auth Header</label>
+              <input
+                className={inputClass}
+                value={draft.authHeader}
+                onChange={(e) => update('authHeader', e.target.value)}
+                placeholder="Authorization"
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Auth Token</label>
+              <input
+                type="password"
+                className={inputClass}
+                value={draft.authToken}
+                onChange={(e) => update('authToken', e.target.value)}
+                placeholder="(none)"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClass}>Max retry ms</label>
+              <input
+                type="number"
+                min={RIKO_TIMING_MINIMUMS.maxReconnectDelayMs}
+                className={inputClass}
+                value={draft.maxReconnectDelayMs}
+                onChange={(e) => update('maxReconnectDelayMs', Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Connect ms</label>
+              <input
+                type="number"
+                min={RIKO_TIMING_MINIMUMS.connectTimeoutMs}
+                className={inputClass}
+                value={draft.connectTimeoutMs}
+                onChange={(e) => update('connectTimeoutMs', Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Request ms</label>
+              <input
+                type="number"
+                min={RIKO_TIMING_MINIMUMS.requestTimeoutMs}
+                className={inputClass}
+                value={draft.requestTimeoutMs}
+                onChange={(e) => update('requestTimeoutMs', Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Heartbeat ms</label>
+              <input
+                type="number"
+                min={RIKO_TIMING_MINIMUMS.heartbeatIntervalMs}
+                className={inputClass}
+                value={draft.heartbeatIntervalMs}
+                onChange={(e) => update('heartbeatIntervalMs', Number(e.target.value))}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between mt-5">
+          <button
+            onClick={handleReset}
+            className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono text-cyan-600 border border-cyan-900/40 hover:text-cyan-300"
+          >
+            <RotateCcw className="w-3 h-3" /> DEFAULTS
+          </button>
+          <button
+            onClick={handleSave}
+            className="flex items-center gap-2 px-3 py-2 rounded text-xs font-mono bg-fuchsia-500/20 text-fuchsia-300 border border-fuchsia-500/50 hover:bg-fuchsia-500/30"
+          >
+            <Save className="w-3 h-3" /> SAVE &amp; RECONNECT
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RikoSettingsPanel;
@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Plus, Search, Pencil, Trash2, FileJson, FileText, Upload, X } from 'lucide-react';
+import { ChatSession } from '../types';
+import { conversationStore, SearchHit } from '../services/conversationStore';
+
+interface SessionSidebarProps {
+  activeId: string | null;
+  onSelect: (sessionId: string) => void;
+  onNew: () => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 200;
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const SessionSidebar: React.FC<SessionSidebarProps> = ({ activeId, onSelect, onNew }) => {
+  const [sessions, setSessions] = useState<ChatSession[]>([]);
+  const [query, setQuery] = useState('');
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const refresh = () => {
+      conversationStore.listSessions().then(setSessions).catch(err => {
+        console.warn('SessionSidebar: Could not load sessions', err);
+      });
+    };
+    refresh();
+    conversationStore.on('change', refresh);
+    return () => conversationStore.off('change', refresh);
+  }, []);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setHits([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      conversationStore.search(query).then(setHits);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, sessions]);
+
+  const startRename = (session: ChatSession) => {
+    setRenamingId(session.id);
+    setRenameValue(session.title);
+  };
+
+  const commitRename = async () => {
+    if (renamingId) {
+      await conversationStore.renameSession(renamingId, renameValue);
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = async (session: ChatSession) => {
+    if (!window.confirm(`Delete "${session.title}"?`)) return;
+    await conversationStore.deleteSession(session.id);
+    if (session.id === activeId) {
+      onNew();
+    }
+  };
+
+  const handleExport = async (format: 'json' | 'markdown') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'json') {
+      download(await conversationStore.exportJson(), `yumi-conversations-${stamp}.json`, 'application/json');
+    } else {
+      download(await conversationStore.exportMarkdown(), `yumi-conversations-${stamp}.md`, 'text/markdown');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const text = await file.text();
+      const count = /\.json$/i.test(file.name)
+        ? await conversationStore.importJson(text)
+        : await conversationStore.importMarkdown(text);
+      setError(null);
+      console.log(`SessionSidebar: Imported ${count} sessions from ${file.name}`);
+    } catch (err) {
+      console.error('SessionSidebar: Import failed', err);
+      setError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 flex flex-col border-r border-cyan-500/20 bg-black/30">
+      <div className="p-3 space-y-2 border-b border-cyan-500/20">
+        <button
+          onClick={onNew}
+          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded text-xs font-mono bg-cyan-500/20 text-cyan-300 border border-cyan-500/50 hover:bg-cyan-500/30 transition-colors"
+        >
+          <Plus className="w-3 h-3" /> NEW SESSION
+        </button>
+        <div className="relative">
+          <Search className="w-3 h-3 absolute left-2 top-1/2 -translate-y-1/2 text-cyan-700" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search history..."
+            className="w-full bg-black/60 border border-cyan-500/30 rounded pl-7 pr-7 py-1.5 text-xs text-cyan-50 placeholder-cyan-700 focus:outline-none focus:border-cyan-400 font-mono"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="absolute right-2 top-1/2 -translate-y-1/2 text-cyan-700 hover:text-cyan-300" title="Clear search">
+              <X className="w-3 h-3" />
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {query.trim() ? (
+          hits.length ? hits.map(hit => (
+            <button
+              key={hit.message.id}
+              onClick={() => onSelect(hit.session.id)}
+              className="w-full text-left rounded px-2 py-2 border border-transparent hover:border-cyan-500/30 hover:bg-cyan-500/10 transition-colors"
+            >
+              <div className="text-[10px] font-mono text-cyan-600 truncate">{hit.session.title}</div>
+              <div className="text-xs text-cyan-100 line-clamp-2">{hit.snippet}</div>
+            </button>
+          )) : (
+            <p className="px-2 py-4 text-xs font-mono text-cyan-800 text-center">No matches</p>
+          )
+        ) : sessions.map(session => (
+          <div
+            key={session.id}
+            className={`group flex items-center gap-1 rounded px-2 py-2 border transition-colors ${
+              session.id === activeId
+                ? 'border-cyan-400/50 bg-cyan-500/10'
+                : 'border-transparent hover:border-cyan-500/30'
+            }`}
+          >
+            {renamingId === session.id ? (
+              <input
+                autoFocus
+                value={renameValue}
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setRenamingId(null);
+                }}
+                className="flex-1 min-w-0 bg-black/60 border border-cyan-500/40 rounded px-1 text-xs text-cyan-50 focus:outline-none"
+              />
+            ) : (
+              <button onClick={() => onSelect(session.id)} className="flex-1 min-w-0 text-left">
+                <div className="text-xs text-cyan-100 truncate">{session.title}</div>
+                <div className="text-[10px] font-mono text-cyan-700">{new Date(session.updatedAt).toLocaleString()}</div>
+              </button>
+            )}
+            <button onClick={() => startRename(session)} className="opacity-0 group-hover:opacity-100 text-cyan-700 hover:text-cyan-300" title="Rename">
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button onClick={() => handleDelete(session)} className="opacity-0 group-hover:opacity-100 text-cyan-700 hover:text-red-400" title="Delete">
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-3 border-t border-cyan-500/20">
+        {error && <p className="mb-2 text-[10px] font-mono text-red-400">{error}</p>}
+        <div className="flex items-center justify-between text-cyan-600">
+          <span className="text-[10px] font-mono">EXPORT / IMPORT</span>
+          <div className="flex items-center gap-2">
+            <button onClick={() => handleExport('json')} className="hover:text-cyan-300" title="Export all as JSON">
+              <FileJson className="w-4 h-4" />
+            </button>
+            <button onClick={() => handleExport('markdown')} className="hover:text-cyan-300" title="Export all as Markdown">
+              <FileText className="w-4 h-4" />
+            </button>
+            <button onClick={() => importInputRef.current?.click()} className="hover:text-cyan-300" title="Import JSON or Markdown">
+              <Upload className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+        <input ref={importInputRef} type="file" accept=".json,.md,.markdown,application/json,text/markdown" className="hidden" onChange={handleImport} />
+      </div>
+    </div>
+  );
+};
+
+export default SessionSidebar;
@@ -0,0 +1,265 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronDown, ChevronUp, MessagesSquare, Check, X, Send, Settings, Plug, Unplug, Trash2 } from 'lucide-react';
+import { ViewerMessage } from '../types';
+import { streamChat, StreamChatConfig, ChatSourceStatus } from '../services/streamChat';
+import { IrcChatSource, IrcSourceConfig, loadIrcConfig, saveIrcConfig } from '../services/chatSources/irc';
+
+const inputClass = 'w-full bg-black/60 border border-fuchsia-500/30 rounded px-2 py-1 text-cyan-50 placeholder-cyan-800 focus:outline-none focus:border-fuchsia-400 font-mono text-[11px]';
+const labelClass = 'block text-[10px] text-cyan-500 font-mono tracking-wider mb-1 uppercase';
+
+const STATUS_STYLES: Record<ChatSourceStatus, string> = {
+  connected: 'text-green-400',
+  connecting: 'text-yellow-400',
+  disconnected: 'text-cyan-800'
+};
+
+const MESSAGE_STYLES: Record<ViewerMessage['status'], string> = {
+  pending: 'border-yellow-500/40',
+  approved: 'border-cyan-500/30',
+  rejected: 'border-red-500/30 opacity-50',
+  answered: 'border-fuchsia-500/30 opacity-60'
+};
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Stream chat for Live mode: connects to the channel, shows the moderation
+ * queue with approve / reject / answer-now, and edits the filters and the
+ * rules that decide which message YUMI answers next.
+ */
+const StreamChatPanel: React.FC = () => {
+  const [expanded, setExpanded] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [status, setStatus] = useState<ChatSourceStatus>(() => streamChat.getStatus());
+  const [queue, setQueue] = useState<ViewerMessage[]>(() => streamChat.getQueue());
+  const [error, setError] = useState<string | null>(null);
+  const [config, setConfig] = useState<StreamChatConfig>(() => streamChat.getConfig());
+  const [irc, setIrc] = useState<IrcSourceConfig>(loadIrcConfig);
+
+  useEffect(() => {
+    const handleStatus = ({ status }: { status: ChatSourceStatus }) => {
+      setStatus(status);
+      if (status === 'connected') setError(null);
+    };
+    const handleQueue = ({ messages }: { messages: ViewerMessage[] }) => setQueue(messages);
+    const handleError = ({ message }: { message: string }) => setError(message);
+    streamChat.on('status', handleStatus);
+    streamChat.on('queue', handleQueue);
+    streamChat.on('error', handleError);
+    return () => {
+      streamChat.off('status', handleStatus);
+      streamChat.off('queue', handleQueue);
+      streamChat.off('error', handleError);
+    };
+  }, []);
+
+  const handleConnect = () => {
+    saveIrcConfig(irc);
+    streamChat.setSource(new IrcChatSource(irc));
+    streamChat.connect();
+  };
+
+  const handleDisconnect = () => {
+    streamChat.disconnect();
+  };
+
+  const updateConfig = (next: StreamChatConfig) => {
+    setConfig(next);
+    streamChat.configure(next);
+  };
+
+  const updateRules = <K extends keyof StreamChatConfig['rules']>(key: K, value: StreamChatConfig['rules'][K]) => {
+    updateConfig({ ...config, rules: { ...config.rules, [key]: value } });
+  };
+
+  const updateModeration = <K extends keyof StreamChatConfig['moderation']>(key: K, value: StreamChatConfig['moderation'][K]) => {
+    updateConfig({ ...config, moderation: { ...config.moderation, [key]: value } });
+  };
+
+  const waiting = queue.filter(message => message.status === 'pending' || message.status === 'approved').length;
+  const shown = [...queue].reverse().slice(0, 50);
+
+  return (
+    <div className="absolute top-16 left-4 w-80 max-w-[calc(100%-2rem)] bg-black/60 border border-fuchsia-500/30 rounded-lg backdrop-blur-sm">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 text-xs font-mono text-cyan-300 hover:text-fuchsia-300 transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <MessagesSquare className="w-3 h-3" /> STREAM CHAT ({waiting})
+          <span className={`text-[10px] ${STATUS_STYLES[status]}`}>{status.toUpperCase()}</span>
+        </span>
+        {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {expanded && (
+        <div className="px-3 pb-3 border-t border-fuchsia-500/20 pt-2 space-y-2">
+          <div className="flex items-center gap-2 text-[10px] font-mono">
+            {status === 'disconnected' ? (
+              <button onClick={handleConnect} className="flex items-center gap-1 text-green-400 hover:text-green-300" title="Connect to the channel">
+                <Plug className="w-3 h-3" /> CONNECT
+              </button>
+            ) : (
+              <button onClick={handleDisconnect} className="flex items-center gap-1 text-red-400 hover:text-red-300" title="Leave the channel">
+                <Unplug className="w-3 h-3" /> DISCONNECT
+              </button>
+            )}
+            <label className="flex items-center gap-1 text-cyan-400 cursor-pointer" title="Answer selected messages whenever YUMI is free">
+              <input
+                type="checkbox"
+                checked={config.autoRespond}
+                onChange={(e) => updateConfig({ ...config, autoRespond: e.target.checked })}
+              />
+              AUTO
+            </label>
+            <button onClick={() => streamChat.clearQueue()} className="text-cyan-600 hover:text-cyan-300" title="Clear the queue">
+              <Trash2 className="w-3 h-3" />
+            </button>
+            <button
+              onClick={() => setShowSettings(prev => !prev)}
+              className={`ml-auto ${showSettings ? 'text-fuchsia-300' : 'text-cyan-600 hover:text-cyan-300'}`}
+              title="Channel, moderation and selection settings"
+            >
+              <Settings className="w-3 h-3" />
+            </button>
+          </div>
+
+          {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+
+          {showSettings ? (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              <div>
+                <label className={labelClass}>Server</label>
+                <input className={inputClass} value={irc.url} onChange={(e) => setIrc({ ...irc, url: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Channel</label>
+                  <input className={inputClass} value={irc.channel} onChange={(e) => setIrc({ ...irc, channel: e.target.value })} placeholder="#channel" />
+                </div>
+                <div>
+                  <label className={labelClass}>Nick</label>
+                  <input className={inputClass} value={irc.nick} onChange={(e) => setIrc({ ...irc, nick: e.target.value })} placeholder="(anonymous)" />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Password / OAuth</label>
+                <input type="password" className={inputClass} value={irc.password} onChange={(e) => setIrc({ ...irc, password: e.target.value })} placeholder="(none)" />
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Moderation</label>
+                  <select
+                    className={inputClass}
+                    value={config.moderation.mode}
+                    onChange={(e) => updateModeration('mode', e.target.value as StreamChatConfig['moderation']['mode'])}
+                  >
+                    <option value="auto">Auto</option>
+                    <option value="manual">Manual</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Max length</label>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    value={config.moderation.maxLength}
+                    onChange={(e) => updateModeration('maxLength', Number(e.target.value) || 0)}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Blocked words</label>
+                <input
+                  className={inputClass}
+                  defaultValue={config.moderation.blockedWords.join(', ')}
+                  onBlur={(e) => updateModeration('blockedWords', splitList(e.target.value))}
+                  placeholder="comma, separated"
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Blocked users</label>
+                <input
+                  className={inputClass}
+                  defaultValue={config.moderation.blockedUsers.join(', ')}
+                  onBlur={(e) => updateModeration('blockedUsers', splitList(e.target.value))}
+                  placeholder="comma, separated"
+                />
+              </div>
+              <label className="flex items-center gap-2 text-[10px] font-mono text-cyan-400">
+                <input type="checkbox" checked={config.moderation.allowLinks} onChange={(e) => updateModeration('allowLinks', e.target.checked)} />
+                ALLOW LINKS
+              </label>
+
+              <div className="flex flex-wrap gap-3 text-[10px] font-mono text-cyan-400">
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={config.rules.donations} onChange={(e) => updateRules('donations', e.target.checked)} />
+                  DONATIONS
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={config.rules.mentions} onChange={(e) => updateRules('mentions', e.target.checked)} />
+                  MENTIONS
+                </label>
+                <label className="flex items-center gap-1">
+                  <input type="checkbox" checked={config.rules.random} onChange={(e) => updateRules('random', e.target.checked)} />
+                  RANDOM
+                </label>
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className={labelClass}>Min donation</label>
+                  <input type="number" className={inputClass} value={config.rules.minDonation} onChange={(e) => updateRules('minDonation', Number(e.target.value) || 0)} />
+                </div>
+                <div>
+                  <label className={labelClass}>Cooldown ms</label>
+                  <input type="number" className={inputClass} value={config.rules.cooldownMs} onChange={(e) => updateRules('cooldownMs', Number(e.target.value) || 0)} />
+                </div>
+                <div>
+                  <label className={labelClass}>Interval ms</label>
+                  <input type="number" className={inputClass} value={config.rules.intervalMs} onChange={(e) => updateRules('intervalMs', Math.max(1000, Number(e.target.value) || 0))} />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="max-h-80 overflow-y-auto space-y-1">
+              {shown.length === 0 && (
+                <p className="text-xs font-mono text-cyan-800 text-center py-2">No chat messages yet</p>
+              )}
+              {shown.map(message => (
+                <div key={message.id} className={`border-l-2 pl-2 text-xs ${MESSAGE_STYLES[message.status]}`}>
+                  <div className="flex items-center gap-2 font-mono text-[10px]">
+                    <span className="text-cyan-400">{message.displayName}</span>
+                    {message.donation ? <span className="text-yellow-400">♦{message.donation}</span> : null}
+                    {message.mention && <span className="text-fuchsia-400">@YUMI</span>}
+                    <span className="text-cyan-800">{message.reason ?? message.status}</span>
+                    {message.status !== 'answered' && (
+                      <span className="ml-auto flex items-center gap-1">
+                        {message.status !== 'approved' && (
+                          <button onClick={() => streamChat.approve(message.id)} className="text-green-500 hover:text-green-300" title="Approve">
+                            <Check className="w-3 h-3" />
+                          </button>
+                        )}
+                        {message.status !== 'rejected' && (
+                          <button onClick={() => streamChat.reject(message.id)} className="text-red-500 hover:text-red-300" title="Reject">
+                            <X className="w-3 h-3" />
+                          </button>
+                        )}
+                        <button onClick={() => streamChat.respondNow(message.id)} className="text-fuchsia-400 hover:text-fuchsia-200" title="Answer now">
+                          <Send className="w-3 h-3" />
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-cyan-100 break-words">{message.text}</p>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StreamChatPanel;
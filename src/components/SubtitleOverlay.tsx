@@ -0,0 +1,68 @@
+import React, { useState, useEffect, useMemo } from 'react';
+
+interface SubtitleOverlayProps {
+  /** Caption to reveal; null hides the overlay */
+  text: string | null;
+  /** Playback progress through the caption (0–1), polled every animation frame */
+  getProgress: () => number;
+  /** Distance from the bottom edge; the default clears Live mode's input bar */
+  bottomClass?: string;
+}
+
+// Keep the caption to roughly two lines by only showing the most recent words
+const MAX_VISIBLE_WORDS = 16;
+
+/**
+ * Word-by-word caption over the avatar. Words are revealed in proportion to
+ * playback progress, weighted by length so long words take longer to say.
+ */
+const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ text, getProgress, bottomClass = 'bottom-28' }) => {
+  const words = useMemo(() => (text ? text.split(/\s+/).filter(Boolean) : []), [text]);
+  const [revealed, setRevealed] = useState(0);
+
+  useEffect(() => {
+    setRevealed(0);
+    if (!words.length) return;
+
+    // Share of the caption already spoken when each word starts
+    const total = words.reduce((sum, word) => sum + word.length + 1, 0);
+    let running = 0;
+    const starts = words.map(word => {
+      const start = running / total;
+      running += word.length + 1;
+      return start;
+    });
+
+    let frame = 0;
+    let shown = 0;
+    const tick = () => {
+      const progress = Math.max(0, Math.min(1, getProgress()));
+      let count = 0;
+      while (count < starts.length && starts[count] <= progress) count++;
+      // Never take words back, even if streamed audio extends the duration
+      if (count > shown) {
+        shown = count;
+        setRevealed(count);
+      }
+      if (shown < words.length) {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [words, getProgress]);
+
+  if (!words.length || revealed === 0) return null;
+
+  const visible = words.slice(Math.max(0, revealed - MAX_VISIBLE_WORDS), revealed).join(' ');
+
+  return (
+    <div className={`absolute left-0 right-0 ${bottomClass} flex justify-center px-8 pointer-events-none`}>
+      <p className="max-w-2xl text-center text-lg md:text-xl leading-snug text-white px-4 py-2 rounded-lg bg-black/70 border border-fuchsia-500/30 shadow-[0_0_20px_rgba(232,121,249,0.2)]">
+        {visible}
+      </p>
+    </div>
+  );
+};
+
+export default SubtitleOverlay;
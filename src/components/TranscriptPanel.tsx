@@ -0,0 +1,80 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChevronDown, ChevronUp, ScrollText } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { conversationStore } from '../services/conversationStore';
+import DeliveryBadge from './DeliveryBadge';
+
+/**
+ * Collapsible transcript of the active session, both sides, with timestamps
+ * and the latency of each reply. Follows the shared conversation store, so
+ * it also shows what was said in Chat mode.
+ */
+const TranscriptPanel: React.FC = () => {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const refresh = async () => {
+      try {
+        const session = await conversationStore.getActiveSession();
+        setMessages(await conversationStore.getMessages(session.id));
+      } catch (error) {
+        console.warn('TranscriptPanel: Could not load transcript', error);
+      }
+    };
+    refresh();
+    conversationStore.on('change', refresh);
+    conversationStore.on('active', refresh);
+    return () => {
+      conversationStore.off('change', refresh);
+      conversationStore.off('active', refresh);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (expanded) {
+      endRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, expanded]);
+
+  return (
+    <div className="absolute top-16 right-4 w-72 max-w-[calc(100%-2rem)] bg-black/60 border border-fuchsia-500/30 rounded-lg backdrop-blur-sm">
+      <button
+        onClick={() => setExpanded(prev => !prev)}
+        className="w-full flex items-center justify-between px-3 py-2 text-xs font-mono text-cyan-300 hover:text-fuchsia-300 transition-colors"
+      >
+        <span className="flex items-center gap-2">
+          <ScrollText className="w-3 h-3" /> TRANSCRIPT ({messages.length})
+        </span>
+        {expanded ? <ChevronUp className="w-3 h-3" /> : <ChevronDown className="w-3 h-3" />}
+      </button>
+
+      {expanded && (
+        <div className="max-h-80 overflow-y-auto px-3 pb-3 space-y-2 border-t border-fuchsia-500/20 pt-2">
+          {messages.length === 0 && (
+            <p className="text-xs font-mono text-cyan-800 text-center py-2">Nothing said yet</p>
+          )}
+          {messages.map(message => (
+            <div key={message.id} className="text-xs">
+              <div className="flex items-center gap-2 font-mono text-[10px]">
+                <span className={message.role === 'user' ? 'text-cyan-400' : 'text-fuchsia-400'}>
+                  {message.role === 'user' ? message.author ?? 'YOU' : 'YUMI'}
+                </span>
+                <span className="text-cyan-800">{new Date(message.timestamp).toLocaleTimeString()}</span>
+                {message.latency !== undefined && (
+                  <span className={message.latency > 500 ? 'text-yellow-500' : 'text-green-500'}>{message.latency}ms</span>
+                )}
+                {message.delivery && <DeliveryBadge status={message.delivery} />}
+              </div>
+              <p className={message.role === 'user' ? 'text-cyan-100' : 'text-purple-100'}>{message.content}</p>
+            </div>
+          ))}
+          <div ref={endRef} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptPanel;
@@ -1,15 +1,19 @@
 import React from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App';
+import BroadcastView from './components/BroadcastView';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// `?view=broadcast` is the bare on-air avatar for OBS browser sources
+const isBroadcastView = new URLSearchParams(window.location.search).get('view') === 'broadcast';
+
 const root = createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    {isBroadcastView ? <BroadcastView /> : <App />}
   </React.StrictMode>
 );
\ No newline at end of file
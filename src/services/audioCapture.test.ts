@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { AudioCapture, createWavMediaStream, pcmToBase64 } from './audioCapture';
+
+const fakeMicrophone = () => {
+  const track = { stop: vi.fn() };
+  const stream = { getTracks: () => [track] } as unknown as MediaStream;
+  vi.stubGlobal('navigator', { mediaDevices: { getUserMedia: vi.fn(async () => stream) } });
+  return { stream, track };
+};
+
+const fakeAudioContext = (addModule: () => Promise<void>, decodeAudioData = async () => ({})) => {
+  const contexts: Array<{ close: ReturnType<typeof vi.fn> }> = [];
+  vi.stubGlobal('AudioContext', class {
+    audioWorklet = { addModule };
+    decodeAudioData = decodeAudioData;
+    close = vi.fn(async () => {});
+    constructor() {
+      contexts.push(this);
+    }
+  });
+  return contexts;
+};
+
+describe('AudioCapture', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('closes the context and releases the microphone when the graph fails to build', async () => {
+    const { track } = fakeMicrophone();
+    const contexts = fakeAudioContext(() => Promise.reject(new Error('worklet blocked')));
+    const capture = new AudioCapture(() => {});
+
+    await expect(capture.start()).rejects.toThrow('worklet blocked');
+
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(track.stop).toHaveBeenCalled();
+    expect(capture.isCapturing).toBe(false);
+  });
+
+  it('leaves a caller-supplied stream running when it fails', async () => {
+    const { stream, track } = fakeMicrophone();
+    fakeAudioContext(() => Promise.reject(new Error('worklet blocked')));
+    const capture = new AudioCapture(() => {});
+
+    await expect(capture.start(stream)).rejects.toThrow();
+
+    expect(track.stop).not.toHaveBeenCalled();
+  });
+});
+
+describe('createWavMediaStream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('closes its audio context when the file cannot be decoded', async () => {
+    const contexts = fakeAudioContext(async () => {}, () => Promise.reject(new Error('not audio')));
+
+    await expect(createWavMediaStream(new Blob(['garbage']))).rejects.toThrow('not audio');
+
+    expect(contexts[0].close).toHaveBeenCalled();
+  });
+});
+
+describe('pcmToBase64', () => {
+  it('encodes the samples as little-endian bytes', () => {
+    expect(pcmToBase64(new Int16Array([1, -1]))).toBe(btoa(String.fromCharCode(1, 0, 0xff, 0xff)));
+  });
+});
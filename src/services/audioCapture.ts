@@ -0,0 +1,182 @@
+export interface PcmChunk {
+  /** Little-endian 16-bit mono PCM at `sampleRate` */
+  pcm: Int16Array;
+  sampleRate: number;
+  rms: number;
+  peak: number;
+}
+
+export interface AudioCaptureOptions {
+  targetSampleRate?: number;
+  chunkMs?: number;
+}
+
+// Runs on the audio thread: downsamples to the target rate, converts to PCM16
+// and posts fixed-size chunks with their level back to the main thread.
+const PCM_WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetSampleRate, chunkMs } = options.processorOptions;
+    this.ratio = sampleRate / targetSampleRate;
+    this.chunkSize = Math.round(targetSampleRate * chunkMs / 1000);
+    this.buffer = new Int16Array(this.chunkSize);
+    this.offset = 0;
+    this.position = 0;
+    this.sumSquares = 0;
+    this.peak = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    while (this.position < channel.length) {
+      const sample = Math.max(-1, Math.min(1, channel[Math.floor(this.position)]));
+      this.buffer[this.offset++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+      this.sumSquares += sample * sample;
+      this.peak = Math.max(this.peak, Math.abs(sample));
+
+      if (this.offset === this.chunkSize) {
+        const rms = Math.sqrt(this.sumSquares / this.chunkSize);
+        this.port.postMessage({ pcm: this.buffer, rms, peak: this.peak }, [this.buffer.buffer]);
+        this.buffer = new Int16Array(this.chunkSize);
+        this.offset = 0;
+        this.sumSquares = 0;
+        this.peak = 0;
+      }
+      this.position += this.ratio;
+    }
+    this.position -= channel.length;
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+/**
+ * Captures a MediaStream (microphone by default) through an AudioWorklet and
+ * delivers PCM16 chunks suitable for streaming to a speech-to-text backend.
+ */
+export class AudioCapture {
+  private context: AudioContext | null = null;
+  private stream: MediaStream | null = null;
+  private ownsStream = false;
+  private node: AudioWorkletNode | null = null;
+  private targetSampleRate: number;
+  private chunkMs: number;
+
+  constructor(private onChunk: (chunk: PcmChunk) => void, options: AudioCaptureOptions = {}) {
+    this.targetSampleRate = options.targetSampleRate ?? 16000;
+    this.chunkMs = options.chunkMs ?? 100;
+  }
+
+  /** Start capturing from the given stream, or from the default microphone when omitted. */
+  async start(stream?: MediaStream) {
+    if (this.context) return;
+
+    const ownsStream = !stream;
+    const input = stream ?? await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+    });
+
+    // Only a fully built graph is kept, so a failed start leaves nothing open and can be retried
+    const context = new AudioContext();
+    let node: AudioWorkletNode;
+    try {
+      const moduleUrl = URL.createObjectURL(new Blob([PCM_WORKLET_SOURCE], { type: 'application/javascript' }));
+      try {
+        await context.audioWorklet.addModule(moduleUrl);
+      } finally {
+        URL.revokeObjectURL(moduleUrl);
+      }
+
+      const source = context.createMediaStreamSource(input);
+      node = new AudioWorkletNode(context, 'pcm-capture', {
+        processorOptions: { targetSampleRate: this.targetSampleRate, chunkMs: this.chunkMs }
+      });
+      node.port.onmessage = (event: MessageEvent<{ pcm: Int16Array; rms: number; peak: number }>) => {
+        this.onChunk({ ...event.data, sampleRate: this.targetSampleRate });
+      };
+
+      // The worklet must be pulled by the graph; route it to a muted output
+      const mute = context.createGain();
+      mute.gain.value = 0;
+      source.connect(node).connect(mute).connect(context.destination);
+    } catch (error) {
+      context.close().catch(() => undefined);
+      if (ownsStream) {
+        input.getTracks().forEach(track => track.stop());
+      }
+      throw error;
+    }
+
+    this.context = context;
+    this.stream = input;
+    this.ownsStream = ownsStream;
+    this.node = node;
+
+    console.log(`AudioCapture: Capturing at ${context.sampleRate}Hz → ${this.targetSampleRate}Hz PCM16`);
+  }
+
+  async stop() {
+    if (this.node) {
+      this.node.port.onmessage = null;
+      this.node.disconnect();
+      this.node = null;
+    }
+    if (this.stream && this.ownsStream) {
+      this.stream.getTracks().forEach(track => track.stop());
+    }
+    this.stream = null;
+    if (this.context) {
+      const context = this.context;
+      this.context = null;
+      await context.close();
+    }
+  }
+
+  get isCapturing(): boolean {
+    return this.context !== null;
+  }
+}
+
+export function pcmToBase64(pcm: Int16Array): string {
+  const bytes = new Uint8Array(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Decode a WAV (or any browser-decodable) file and play it into a MediaStream,
+ * so capture and transcription can be exercised without a microphone.
+ */
+export async function createWavMediaStream(source: string | Blob): Promise<MediaStream> {
+  const data = typeof source === 'string'
+    ? await (await fetch(source)).arrayBuffer()
+    : await source.arrayBuffer();
+
+  const context = new AudioContext();
+  let buffer: AudioBuffer;
+  try {
+    buffer = await context.decodeAudioData(data);
+  } catch (error) {
+    context.close().catch(() => undefined);
+    throw error;
+  }
+  const destination = context.createMediaStreamDestination();
+  const player = context.createBufferSource();
+  player.buffer = buffer;
+  player.connect(destination);
+  player.onended = () => {
+    destination.stream.getTracks().forEach(track => track.stop());
+    context.close();
+  };
+  player.start();
+
+  return destination.stream;
+}
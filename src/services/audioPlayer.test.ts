@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AudioPlayerService } from './audioPlayer';
+
+interface FakeBuffer {
+  duration: number;
+  getChannelData: () => Float32Array;
+  label?: string;
+}
+
+interface FakeSource {
+  buffer: FakeBuffer | null;
+  startedAt: number | null;
+  onended: (() => void) | null;
+  connect: () => void;
+  start: (at: number) => void;
+  stop: ReturnType<typeof vi.fn>;
+}
+
+const deferred = <T,>() => {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => { resolve = res; reject = rej; });
+  return { promise, resolve, reject };
+};
+
+/** The one AudioContext the player creates; decodes finish only when a test says so */
+const audio = {
+  currentTime: 0,
+  level: 0,
+  sources: [] as FakeSource[],
+  decodes: [] as ReturnType<typeof deferred<FakeBuffer>>[]
+};
+
+class FakeAudioContext {
+  state = 'running';
+  destination = {};
+
+  get currentTime() {
+    return audio.currentTime;
+  }
+
+  createAnalyser() {
+    return {
+      fftSize: 0,
+      connect: () => {},
+      getFloatTimeDomainData: (samples: Float32Array) => samples.fill(audio.level)
+    };
+  }
+
+  createBuffer(_channels: number, length: number, sampleRate: number): FakeBuffer {
+    const data = new Float32Array(length);
+    return { duration: length / sampleRate, getChannelData: () => data };
+  }
+
+  decodeAudioData() {
+    const decode = deferred<FakeBuffer>();
+    audio.decodes.push(decode);
+    return decode.promise;
+  }
+
+  createBufferSource(): FakeSource {
+    const source: FakeSource = {
+      buffer: null,
+      startedAt: null,
+      onended: null,
+      connect: () => {},
+      start: at => { source.startedAt = at; },
+      stop: vi.fn()
+    };
+    audio.sources.push(source);
+    return source;
+  }
+}
+
+const clip = (label: string, duration: number): FakeBuffer => ({ duration, label, getChannelData: () => new Float32Array() });
+
+// Base64 PCM16 silence, `ms` long at 24 kHz
+const pcmChunk = (ms: number) => ({ data: btoa('\0'.repeat(24 * ms * 2)), format: 'pcm16' as const, sampleRate: 24000 });
+
+const encodedChunk = { data: btoa('mp3'), format: 'mp3' as const };
+
+const started = () => audio.sources.filter(source => source.startedAt !== null);
+
+describe('AudioPlayerService', () => {
+  beforeEach(() => {
+    audio.currentTime = 0;
+    audio.level = 0;
+    audio.sources = [];
+    audio.decodes = [];
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('plays chunks in arrival order even when a later one decodes first', async () => {
+    const player = new AudioPlayerService();
+
+    const first = player.enqueueChunk(encodedChunk);
+    const second = player.enqueueChunk(encodedChunk);
+    audio.decodes[1].resolve(clip('second', 0.5));
+    await Promise.resolve();
+    expect(started()).toEqual([]);
+
+    audio.decodes[0].resolve(clip('first', 0.25));
+    await Promise.all([first, second]);
+
+    expect(started().map(source => [source.buffer?.label, source.startedAt])).toEqual([['first', 0], ['second', 0.25]]);
+  });
+
+  it('drops chunks still decoding when stopped, but plays what comes after', async () => {
+    const player = new AudioPlayerService();
+    const ends: boolean[] = [];
+    player.on('end', ({ interrupted }) => ends.push(interrupted));
+
+    const stale = player.enqueueChunk(encodedChunk);
+    player.stop();
+    const fresh = player.enqueueChunk(encodedChunk);
+    audio.decodes[0].resolve(clip('stale', 1));
+    audio.decodes[1].resolve(clip('fresh', 1));
+    await Promise.all([stale, fresh]);
+
+    expect(started().map(source => source.buffer?.label)).toEqual(['fresh']);
+    expect(ends).toEqual([]);
+  });
+
+  it('stops playing clips and drops queued ones on interrupt', async () => {
+    const player = new AudioPlayerService();
+    const ends: boolean[] = [];
+    player.on('end', ({ interrupted }) => ends.push(interrupted));
+
+    await player.enqueueChunk(pcmChunk(100));
+    const queued = player.enqueueChunk(encodedChunk);
+    player.stop();
+    audio.decodes[0].resolve(clip('queued', 1));
+    await queued;
+
+    expect(started()).toHaveLength(1);
+    expect(started()[0].stop).toHaveBeenCalled();
+    expect(ends).toEqual([true]);
+    expect(player.isPlaying).toBe(false);
+  });
+
+  it('does not report decode failures of chunks dropped by stop', async () => {
+    const player = new AudioPlayerService();
+    const errors = vi.fn();
+    player.on('error', errors);
+
+    const stale = player.enqueueChunk(encodedChunk);
+    player.stop();
+    audio.decodes[0].reject(new Error('corrupt'));
+    await stale;
+    expect(errors).not.toHaveBeenCalled();
+
+    const current = player.enqueueChunk(encodedChunk);
+    audio.decodes[1].reject(new Error('corrupt'));
+    await current;
+    expect(errors).toHaveBeenCalledWith({ source: 'stream' });
+  });
+
+  it('reports level, playback time and scheduled duration for the current utterance', async () => {
+    const player = new AudioPlayerService();
+    const events: string[] = [];
+    player.on('start', ({ source }) => events.push(`start ${source}`));
+    player.on('end', ({ interrupted }) => events.push(`end ${interrupted}`));
+
+    expect(player.getLevel()).toBeNull();
+    expect(player.getPlaybackTime()).toBeNull();
+    expect(player.getScheduledDuration()).toBe(0);
+
+    audio.currentTime = 2;
+    await player.enqueueChunk(pcmChunk(100));
+    await player.enqueueChunk(pcmChunk(200));
+    audio.currentTime = 2.15;
+    audio.level = 0.5;
+
+    expect(player.getScheduledDuration()).toBeCloseTo(0.3);
+    expect(player.getPlaybackTime()).toBeCloseTo(0.15);
+    expect(player.getLevel()).toBeCloseTo(0.5);
+    expect(started().map(source => source.startedAt)).toEqual([2, expect.closeTo(2.1)]);
+
+    started().forEach(source => source.onended?.());
+
+    expect(events).toEqual(['start stream', 'end false']);
+    expect(player.getLevel()).toBeNull();
+    expect(player.getPlaybackTime()).toBeNull();
+    expect(player.getScheduledDuration()).toBe(0);
+  });
+});
@@ -0,0 +1,194 @@
+import { RikoAudioFrame } from '../types';
+import { TypedEventEmitter } from './eventEmitter';
+
+export interface AudioPlayerEventMap {
+  start: { source: 'url' | 'stream' };
+  end: { interrupted: boolean };
+  /** A clip or chunk could not be fetched or decoded; nothing was scheduled for it */
+  error: { source: 'url' | 'stream' };
+}
+
+const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+function base64ToBytes(data: string): Uint8Array {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Plays YUMI's speech through Web Audio and exposes its live amplitude.
+ *
+ * Whole clips (audio URLs) and streamed chunks share one timeline: chunks are
+ * scheduled back to back so streamed speech plays gaplessly. Everything runs
+ * through an AnalyserNode so the avatar can read per-frame RMS for lip sync.
+ */
+export class AudioPlayerService extends TypedEventEmitter<AudioPlayerEventMap> {
+  private context: AudioContext | null = null;
+  private analyser: AnalyserNode | null = null;
+  private recordingTap: MediaStreamAudioDestinationNode | null = null;
+  private samples: Float32Array<ArrayBuffer> | null = null;
+  private sources: Set<AudioBufferSourceNode> = new Set();
+  private nextStartTime = 0;
+  private utteranceStart = 0;
+  // Bumped by stop(), so clips still being fetched or decoded at the time are dropped
+  private generation = 0;
+  private scheduling: Promise<void> = Promise.resolve();
+
+  private ensureContext(): { context: AudioContext; analyser: AnalyserNode } {
+    if (!this.context || !this.analyser) {
+      this.context = new AudioContext();
+      this.analyser = this.context.createAnalyser();
+      this.analyser.fftSize = 1024;
+      this.analyser.connect(this.context.destination);
+      this.samples = new Float32Array(this.analyser.fftSize);
+    }
+    return { context: this.context, analyser: this.analyser };
+  }
+
+  /** Call from a user gesture so the browser allows playback */
+  async resume() {
+    const { context } = this.ensureContext();
+    if (context.state === 'suspended') {
+      await context.resume();
+    }
+  }
+
+  async playUrl(url: string) {
+    const { context } = this.ensureContext();
+    const decoding = (async () => {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return context.decodeAudioData(await response.arrayBuffer());
+    })();
+    await this.scheduleInOrder(decoding, 'url', error => console.error('AudioPlayer: Failed to play audio URL', url, error));
+  }
+
+  /** Queue one streamed chunk; PCM16 is converted directly, other formats are decoded */
+  async enqueueChunk(frame: Pick<RikoAudioFrame, 'data' | 'format' | 'sampleRate'>) {
+    const { context } = this.ensureContext();
+    await this.scheduleInOrder(this.decodeChunk(context, frame), 'stream', error => console.error('AudioPlayer: Failed to decode audio chunk', error));
+  }
+
+  private async decodeChunk(context: AudioContext, frame: Pick<RikoAudioFrame, 'data' | 'format' | 'sampleRate'>): Promise<AudioBuffer> {
+    const bytes = base64ToBytes(frame.data);
+    if (frame.format && frame.format !== 'pcm16') {
+      return context.decodeAudioData(bytes.buffer as ArrayBuffer);
+    }
+    const pcm = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+    const buffer = context.createBuffer(1, pcm.length, frame.sampleRate ?? DEFAULT_PCM_SAMPLE_RATE);
+    const channel = buffer.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) {
+      channel[i] = pcm[i] / 0x8000;
+    }
+    return buffer;
+  }
+
+  // Clips decode in parallel but are scheduled in the order they arrived
+  private scheduleInOrder(decoding: Promise<AudioBuffer>, kind: 'url' | 'stream', report: (error: unknown) => void): Promise<void> {
+    const generation = this.generation;
+    decoding.catch(() => undefined);
+    this.scheduling = this.scheduling.then(async () => {
+      try {
+        const buffer = await decoding;
+        if (generation === this.generation) {
+          this.schedule(buffer, kind);
+        }
+      } catch (error) {
+        if (generation !== this.generation) return;
+        report(error);
+        this.emit('error', { source: kind });
+      }
+    });
+    return this.scheduling;
+  }
+
+  private schedule(buffer: AudioBuffer, kind: 'url' | 'stream') {
+    const { context, analyser } = this.ensureContext();
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(analyser);
+
+    const wasIdle = this.sources.size === 0;
+    const startAt = Math.max(context.currentTime, this.nextStartTime);
+    this.nextStartTime = startAt + buffer.duration;
+    if (wasIdle) {
+      this.utteranceStart = startAt;
+    }
+
+    source.onended = () => {
+      if (!this.sources.delete(source)) return;
+      if (this.sources.size === 0) {
+        this.nextStartTime = 0;
+        this.emit('end', { interrupted: false });
+      }
+    };
+
+    this.sources.add(source);
+    source.start(startAt);
+    if (wasIdle) {
+      this.emit('start', { source: kind });
+    }
+  }
+
+  /** YUMI's speech as a MediaStream, for recording alongside the avatar canvas */
+  captureStream(): MediaStream {
+    const { context, analyser } = this.ensureContext();
+    if (!this.recordingTap) {
+      this.recordingTap = context.createMediaStreamDestination();
+      analyser.connect(this.recordingTap);
+    }
+    return this.recordingTap.stream;
+  }
+
+  /** Stop everything immediately and drop anything still queued */
+  stop() {
+    this.generation++;
+    if (this.sources.size === 0) return;
+    const playing = Array.from(this.sources);
+    this.sources.clear();
+    playing.forEach(source => {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch {
+        // Already stopped
+      }
+    });
+    this.nextStartTime = 0;
+    this.emit('end', { interrupted: true });
+  }
+
+  /** RMS of the current output frame (0–1), or null when nothing is playing */
+  getLevel(): number | null {
+    if (this.sources.size === 0 || !this.analyser || !this.samples) return null;
+    this.analyser.getFloatTimeDomainData(this.samples);
+    let sumSquares = 0;
+    for (let i = 0; i < this.samples.length; i++) {
+      sumSquares += this.samples[i] * this.samples[i];
+    }
+    return Math.sqrt(sumSquares / this.samples.length);
+  }
+
+  /** Seconds of the current utterance played so far, or null when nothing is playing */
+  getPlaybackTime(): number | null {
+    if (this.sources.size === 0 || !this.context) return null;
+    return Math.max(0, this.context.currentTime - this.utteranceStart);
+  }
+
+  /** Seconds of audio queued for the current utterance so far; grows as chunks stream in */
+  getScheduledDuration(): number {
+    return this.sources.size === 0 ? 0 : this.nextStartTime - this.utteranceStart;
+  }
+
+  get isPlaying(): boolean {
+    return this.sources.size > 0;
+  }
+}
+
+export const audioPlayer = new AudioPlayerService();
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Avatar3DRef } from '../components/Avatar3D';
+import { AvatarControlBus, AvatarCommand } from './avatarControl';
+
+const fakeAvatar = () => ({
+  speak: vi.fn(),
+  stopSpeaking: vi.fn(),
+  setVisemes: vi.fn(),
+  setEmotion: vi.fn(),
+  playGesture: vi.fn((name: string) => name === 'wave'),
+  lookAt: vi.fn(),
+  getState: vi.fn(() => ({ speaking: false, emotion: 'neutral' as const, lookingAt: null }))
+}) satisfies Partial<Avatar3DRef>;
+
+const attach = (bus: AvatarControlBus, avatar: ReturnType<typeof fakeAvatar>) => bus.attach(avatar as unknown as Avatar3DRef);
+
+describe('AvatarControlBus', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('runs commands on the attached avatar', () => {
+    const bus = new AvatarControlBus();
+    const avatar = fakeAvatar();
+    attach(bus, avatar);
+
+    bus.speak(1500);
+    bus.setEmotion('happy', 0.8, Infinity);
+    bus.lookAt({ x: 0.5, y: -0.2 });
+    bus.stop();
+
+    expect(avatar.speak).toHaveBeenCalledWith(1500);
+    expect(avatar.setEmotion).toHaveBeenCalledWith('happy', 0.8, Infinity);
+    expect(avatar.lookAt).toHaveBeenCalledWith({ x: 0.5, y: -0.2 });
+    expect(avatar.stopSpeaking).toHaveBeenCalled();
+  });
+
+  it('reports gestures the avatar cannot play', () => {
+    const bus = new AvatarControlBus();
+    attach(bus, fakeAvatar());
+
+    expect(bus.gesture('wave')).toBe(true);
+    expect(bus.gesture('backflip')).toBe(false);
+  });
+
+  it('queues commands until an avatar attaches, then runs them in order', () => {
+    const bus = new AvatarControlBus();
+    const avatar = fakeAvatar();
+    const order: string[] = [];
+    avatar.setEmotion.mockImplementation(() => order.push('emotion'));
+    avatar.speak.mockImplementation(() => order.push('speak'));
+
+    bus.setEmotion('sad');
+    bus.speak(800);
+    expect(bus.getQueue().map(command => command.type)).toEqual(['setEmotion', 'speak']);
+    expect(bus.getState()).toBeNull();
+
+    attach(bus, avatar);
+
+    expect(order).toEqual(['emotion', 'speak']);
+    expect(bus.getQueue()).toEqual([]);
+  });
+
+  it('drops queued commands that went stale before an avatar attached', () => {
+    const bus = new AvatarControlBus();
+    const avatar = fakeAvatar();
+
+    bus.speak(800);
+    now = 4000;
+    bus.gesture('wave');
+    now = 6000;
+    attach(bus, avatar);
+
+    expect(avatar.speak).not.toHaveBeenCalled();
+    expect(avatar.playGesture).toHaveBeenCalledWith('wave');
+  });
+
+  it('keeps only the newest commands when the queue overflows', () => {
+    const bus = new AvatarControlBus();
+    for (let i = 0; i < 60; i++) {
+      bus.speak(i);
+    }
+
+    const queue = bus.getQueue();
+    expect(queue).toHaveLength(50);
+    expect(queue[0]).toEqual({ type: 'speak', durationMs: 10 });
+  });
+
+  it('sends to the most recently attached avatar and falls back when it detaches', () => {
+    const bus = new AvatarControlBus();
+    const first = fakeAvatar();
+    const second = fakeAvatar();
+    attach(bus, first);
+    const detachSecond = attach(bus, second);
+
+    bus.speak(100);
+    detachSecond();
+    bus.speak(200);
+
+    expect(second.speak).toHaveBeenCalledWith(100);
+    expect(first.speak).toHaveBeenCalledTimes(1);
+    expect(first.speak).toHaveBeenCalledWith(200);
+    expect(bus.isAttached).toBe(true);
+  });
+
+  it('announces commands as they reach the avatar', () => {
+    const bus = new AvatarControlBus();
+    const commands: AvatarCommand[] = [];
+    bus.on('command', command => commands.push(command));
+
+    bus.gesture('nod');
+    expect(commands).toEqual([]);
+    attach(bus, fakeAvatar());
+
+    expect(commands).toEqual([{ type: 'gesture', name: 'nod' }]);
+  });
+});
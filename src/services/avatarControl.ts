@@ -0,0 +1,152 @@
+import { Emotion } from '../types';
+import type { Avatar3DRef, AvatarState } from '../components/Avatar3D';
+import type { VisemeCue } from '../avatar/visemes';
+import { TypedEventEmitter } from './eventEmitter';
+
+/** Everything an avatar can be told to do, as plain data so it can be queued, logged or sent elsewhere */
+export type AvatarCommand =
+  | { type: 'speak'; durationMs: number }
+  | { type: 'stop' }
+  /** `holdMs` as for `Avatar3DRef.setEmotion` (Infinity holds until replaced) */
+  | { type: 'setEmotion'; emotion: Emotion; intensity?: number; holdMs?: number }
+  | { type: 'gesture'; name: string }
+  /** Pointer-style point (-1..1) to look at, or null to go back to the gaze source */
+  | { type: 'lookAt'; point: { x: number; y: number } | null }
+  | { type: 'setVisemes'; cues: VisemeCue[] };
+
+export interface AvatarControlEventMap {
+  /** Every command as it reaches the avatar */
+  command: AvatarCommand;
+  /** An avatar attached or detached */
+  attached: { attached: boolean };
+}
+
+const MAX_QUEUE = 50;
+// Held commands older than this are dropped on attach; a speak or gesture that late would be out of step
+const QUEUE_TTL_MS = 5000;
+
+/** Carry out a command on an avatar; false if the avatar could not (an unknown gesture) */
+export function runAvatarCommand(avatar: Avatar3DRef, command: AvatarCommand): boolean {
+  switch (command.type) {
+    case 'speak':
+      avatar.speak(command.durationMs);
+      return true;
+    case 'stop':
+      avatar.stopSpeaking();
+      return true;
+    case 'setEmotion':
+      avatar.setEmotion(command.emotion, command.intensity, command.holdMs);
+      return true;
+    case 'gesture':
+      return avatar.playGesture(command.name);
+    case 'lookAt':
+      avatar.lookAt(command.point);
+      return true;
+    case 'setVisemes':
+      avatar.setVisemes(command.cues);
+      return true;
+  }
+}
+
+/**
+ * Typed control bus for the on-screen avatar. Whatever shows an avatar
+ * attaches it; anything else (backends, chat, scripts, remote control)
+ * sends commands without needing a ref to it. Commands sent while no avatar
+ * is attached wait in a queue and run in order once one attaches.
+ */
+export class AvatarControlBus extends TypedEventEmitter<AvatarControlEventMap> {
+  private avatars: Avatar3DRef[] = [];
+  private queue: Array<{ command: AvatarCommand; queuedAt: number }> = [];
+
+  /** The most recently attached avatar receives commands; returns a detach function */
+  attach(avatar: Avatar3DRef): () => void {
+    this.avatars.push(avatar);
+    this.emit('attached', { attached: true });
+    this.flush();
+    return () => {
+      const index = this.avatars.lastIndexOf(avatar);
+      if (index === -1) return;
+      this.avatars.splice(index, 1);
+      this.emit('attached', { attached: this.isAttached });
+    };
+  }
+
+  get isAttached(): boolean {
+    return this.avatars.length > 0;
+  }
+
+  /** Run a command now, or queue it until an avatar attaches; false if it could not run */
+  send(command: AvatarCommand): boolean {
+    const avatar = this.current();
+    if (!avatar) {
+      if (this.queue.length >= MAX_QUEUE) {
+        this.queue.shift();
+      }
+      this.queue.push({ command, queuedAt: performance.now() });
+      return true;
+    }
+    return this.run(avatar, command);
+  }
+
+  speak(durationMs: number) {
+    return this.send({ type: 'speak', durationMs });
+  }
+
+  stop() {
+    return this.send({ type: 'stop' });
+  }
+
+  setEmotion(emotion: Emotion, intensity?: number, holdMs?: number) {
+    return this.send({ type: 'setEmotion', emotion, intensity, holdMs });
+  }
+
+  gesture(name: string) {
+    return this.send({ type: 'gesture', name });
+  }
+
+  lookAt(point: { x: number; y: number } | null) {
+    return this.send({ type: 'lookAt', point });
+  }
+
+  setVisemes(cues: VisemeCue[]) {
+    return this.send({ type: 'setVisemes', cues });
+  }
+
+  /** What the attached avatar is doing, or null when none is attached */
+  getState(): AvatarState | null {
+    return this.current()?.getState() ?? null;
+  }
+
+  /** Commands waiting for an avatar */
+  getQueue(): AvatarCommand[] {
+    return this.queue.map(entry => entry.command);
+  }
+
+  clearQueue() {
+    this.queue = [];
+  }
+
+  private current(): Avatar3DRef | null {
+    return this.avatars[this.avatars.length - 1] ?? null;
+  }
+
+  private flush() {
+    const now = performance.now();
+    const queued = this.queue.filter(entry => now - entry.queuedAt < QUEUE_TTL_MS);
+    if (queued.length < this.queue.length) {
+      console.log(`AvatarControl: Dropping ${this.queue.length - queued.length} stale queued commands`);
+    }
+    this.queue = [];
+    queued.forEach(({ command }) => {
+      const avatar = this.current();
+      if (avatar) this.run(avatar, command);
+    });
+  }
+
+  private run(avatar: Avatar3DRef, command: AvatarCommand): boolean {
+    this.emit('command', command);
+    return runAvatarCommand(avatar, command);
+  }
+}
+
+export const avatarControl = new AvatarControlBus();
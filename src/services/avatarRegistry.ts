@@ -0,0 +1,177 @@
+import { AvatarManifest, AvatarModel } from '../types';
+import { openDatabase, idbRequest, idbDone } from './idb';
+
+const DB_NAME = 'yumi-avatars';
+const STORE = 'models';
+const SELECTED_KEY = 'yumi.avatar.selected';
+
+interface StoredModel {
+  id: string;
+  name: string;
+  format: 'glb' | 'vrm';
+  blob: Blob;
+  manifest?: AvatarManifest;
+}
+
+export const DEFAULT_AVATAR: AvatarModel = {
+  id: 'builtin:fantasy-female',
+  name: 'Fantasy Female',
+  url: '/fantasy-female-character.glb',
+  format: 'glb',
+  builtIn: true
+};
+
+const BUILT_IN_AVATARS: AvatarModel[] = [DEFAULT_AVATAR];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const MAPPING_FIELDS = ['bones', 'shapes', 'animations'] as const;
+
+/** Check that a value fits `AvatarManifest`; throws with a readable message when it does not */
+export function validateAvatarManifest(manifest: unknown): AvatarManifest {
+  if (!isRecord(manifest)) {
+    throw new Error('Manifest must be a JSON object.');
+  }
+  if (manifest.eyes !== undefined && !(Array.isArray(manifest.eyes) && manifest.eyes.every(name => typeof name === 'string'))) {
+    throw new Error('Manifest "eyes" must be a list of mesh names.');
+  }
+  if (manifest.mouth !== undefined && typeof manifest.mouth !== 'string') {
+    throw new Error('Manifest "mouth" must be a mesh name.');
+  }
+  MAPPING_FIELDS.forEach(field => {
+    const mapping = manifest[field];
+    if (mapping !== undefined && !(isRecord(mapping) && Object.values(mapping).every(value => typeof value === 'string'))) {
+      throw new Error(`Manifest "${field}" must map names to strings.`);
+    }
+  });
+  return manifest as AvatarManifest;
+}
+
+/** Parse and check a manifest file */
+export function parseAvatarManifest(text: string): AvatarManifest {
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(text);
+  } catch {
+    throw new Error('Manifest must be valid JSON.');
+  }
+  return validateAvatarManifest(manifest);
+}
+
+/**
+ * Built-in avatars plus GLB/VRM files the user uploaded. Uploads are kept in
+ * IndexedDB and served through object URLs, so they survive reloads.
+ */
+export class AvatarRegistry {
+  private db: Promise<IDBDatabase> | null = null;
+  private objectUrls: Map<string, string> = new Map();
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(STORE, { keyPath: 'id' });
+      });
+    }
+    return this.db;
+  }
+
+  private toModel(stored: StoredModel): AvatarModel {
+    let url = this.objectUrls.get(stored.id);
+    if (!url) {
+      url = URL.createObjectURL(stored.blob);
+      this.objectUrls.set(stored.id, url);
+    }
+    return {
+      id: stored.id,
+      name: stored.name,
+      url,
+      format: stored.format,
+      builtIn: false,
+      manifest: this.checkedManifest(stored)
+    };
+  }
+
+  // Manifests stored before they were validated could break rendering; such a model loads without one
+  private checkedManifest(stored: StoredModel): AvatarManifest | undefined {
+    if (!stored.manifest) return undefined;
+    try {
+      return validateAvatarManifest(stored.manifest);
+    } catch (error) {
+      console.warn(`AvatarRegistry: Ignoring invalid manifest for ${stored.name}`, error);
+      return undefined;
+    }
+  }
+
+  async list(): Promise<AvatarModel[]> {
+    try {
+      const db = await this.open();
+      const stored = await idbRequest<StoredModel[]>(db.transaction(STORE).objectStore(STORE).getAll());
+      return [...BUILT_IN_AVATARS, ...stored.map(model => this.toModel(model))];
+    } catch (error) {
+      console.warn('AvatarRegistry: Could not read uploaded avatars', error);
+      return [...BUILT_IN_AVATARS];
+    }
+  }
+
+  async add(file: File, manifest?: AvatarManifest): Promise<AvatarModel> {
+    const format = file.name.toLowerCase().endsWith('.vrm') ? 'vrm' : 'glb';
+    const stored: StoredModel = {
+      id: `upload:${Date.now().toString(36)}`,
+      name: file.name.replace(/\.(glb|gltf|vrm)$/i, ''),
+      format,
+      blob: file,
+      manifest
+    };
+
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).put(stored);
+    await idbDone(tx);
+    return this.toModel(stored);
+  }
+
+  async setManifest(id: string, manifest: AvatarManifest | undefined): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    const stored = await idbRequest<StoredModel | undefined>(store.get(id));
+    if (!stored) {
+      throw new Error(`Only uploaded avatars can take a manifest (${id})`);
+    }
+    store.put({ ...stored, manifest });
+    await idbDone(tx);
+  }
+
+  async remove(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(STORE, 'readwrite');
+    tx.objectStore(STORE).delete(id);
+    await idbDone(tx);
+
+    const url = this.objectUrls.get(id);
+    if (url) {
+      URL.revokeObjectURL(url);
+      this.objectUrls.delete(id);
+    }
+    if (this.getSelectedId() === id) {
+      this.select(DEFAULT_AVATAR.id);
+    }
+  }
+
+  getSelectedId(): string {
+    return localStorage.getItem(SELECTED_KEY) || DEFAULT_AVATAR.id;
+  }
+
+  select(id: string) {
+    localStorage.setItem(SELECTED_KEY, id);
+  }
+
+  async getSelected(): Promise<AvatarModel> {
+    const id = this.getSelectedId();
+    const models = await this.list();
+    return models.find(model => model.id === id) ?? DEFAULT_AVATAR;
+  }
+}
+
+export const avatarRegistry = new AvatarRegistry();
@@ -0,0 +1,67 @@
+import { parseEmotionTags } from '../emotionTags';
+import { BackendBase, BackendRequest, BackendReply } from '../conversationBackend';
+
+const THINK_MS = 300;
+const WORD_MS = 60;
+
+/**
+ * Offline stand-in that repeats the message back, word by word. Needs no
+ * server or API key, so the UI and avatar can be exercised anywhere.
+ */
+export class EchoBackend extends BackendBase {
+  readonly id = 'echo';
+  readonly label = 'Offline echo';
+  // Bumped by cancel() and by each new reply, so an older reply stops where it is
+  private run = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private wake: (() => void) | null = null;
+
+  send(request: BackendRequest): Promise<BackendReply | null> {
+    return this.stream(request, () => undefined);
+  }
+
+  async stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null> {
+    this.cancel();
+    const run = this.run;
+    const startTime = performance.now();
+    const heard = `heard${request.author ? ` ${request.author} say` : ''}`;
+    const raw = `[happy] ${request.persona.name} ${heard}: "${request.message.trim()}"`;
+    const words = raw.split(' ');
+
+    await this.wait(THINK_MS);
+    const latency = Math.round(performance.now() - startTime);
+    let shown = 0;
+    while (shown < words.length && run === this.run) {
+      shown++;
+      const { text } = parseEmotionTags(words.slice(0, shown).join(' '), true);
+      onText(text);
+      this.emit('text', { text });
+      await this.wait(WORD_MS);
+    }
+
+    const said = words.slice(0, shown).join(' ');
+    if (!said) return null;
+    const emotion = this.perform(said);
+    return { text: parseEmotionTags(said).text, emotion, latency, cancelled: run !== this.run };
+  }
+
+  cancel() {
+    this.run++;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    // Let a reply that was waiting finish with what it has said so far
+    this.wake?.();
+  }
+
+  private wait(ms: number) {
+    return new Promise<void>(resolve => {
+      this.wake = () => {
+        this.wake = null;
+        resolve();
+      };
+      this.timer = setTimeout(this.wake, ms);
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import { GeminiChatService } from '../gemini';
+import { parseEmotionTags, EMOTION_TAG_INSTRUCTION } from '../emotionTags';
+import { buildSystemPrompt } from '../personas';
+import { buildMemoryPrompt } from '../memoryStore';
+import { BackendBase, BackendRequest, BackendReply, attributeMessage } from '../conversationBackend';
+
+/** Streaming Gemini text chat; the reply is spoken with estimated mouth movement */
+export class GeminiBackend extends BackendBase {
+  readonly id = 'gemini';
+  readonly label = 'Gemini';
+  private chat: GeminiChatService;
+
+  constructor(apiKey: string) {
+    super();
+    this.chat = new GeminiChatService(apiKey, {
+      model: process.env.GEMINI_MODEL,
+      baseUrl: process.env.GEMINI_BASE_URL
+    });
+  }
+
+  send(request: BackendRequest): Promise<BackendReply | null> {
+    return this.stream(request, () => undefined);
+  }
+
+  async stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null> {
+    const { persona, memories } = request;
+    const systemInstruction = [buildSystemPrompt(persona), EMOTION_TAG_INSTRUCTION, buildMemoryPrompt(memories)]
+      .filter(Boolean)
+      .join('\n\n');
+
+    // Viewer messages keep their author so YUMI can answer them by name
+    const history = request.history.map(message =>
+      message.author ? { ...message, content: attributeMessage(message.content, message.author) } : message
+    );
+
+    const result = await this.chat.streamReply(history, (raw) => {
+      const { text } = parseEmotionTags(raw, true);
+      onText(text);
+      this.emit('text', { text });
+    }, { systemInstruction, temperature: persona.temperature, maxOutputTokens: persona.maxTokens });
+
+    if (result.cancelled && !result.text) return null;
+    const emotion = this.perform(result.text);
+    return {
+      text: parseEmotionTags(result.text).text,
+      emotion,
+      latency: result.firstTokenLatency,
+      cancelled: result.cancelled
+    };
+  }
+
+  cancel() {
+    this.chat.cancel();
+  }
+}
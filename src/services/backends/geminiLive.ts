@@ -0,0 +1,223 @@
+import { geminiLive, createGeminiLiveSpeechSink, GeminiLiveEventMap } from '../geminiLive';
+import { personaStore, buildSystemPrompt, PersonaStoreEventMap } from '../personas';
+import { memoryStore, buildMemoryPrompt } from '../memoryStore';
+import { normalizeEmotion } from '../emotionTags';
+import { BackendBase, BackendRequest, BackendReply, attributeMessage } from '../conversationBackend';
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30000;
+
+interface PendingTurn {
+  resolve: (reply: BackendReply | null) => void;
+  onText: (text: string) => void;
+  startTime: number;
+}
+
+/**
+ * Realtime Gemini Live session. Mic audio streams straight in and replies
+ * come back as speech, so most turns arrive as `turn` events rather than as
+ * replies to send().
+ */
+export class GeminiLiveBackend extends BackendBase {
+  readonly id = 'gemini-live';
+  readonly label = 'Gemini Live (voice)';
+  readonly speechSink = createGeminiLiveSpeechSink(geminiLive);
+  private pending: PendingTurn | null = null;
+  private latency: number | undefined;
+  // Whether the model set its own emotion for the current reply
+  private emotionSet = false;
+  private active = false;
+  // A reply is streaming in; set by its first audio or transcript, cleared when the turn completes
+  private turnActive = false;
+  // The user cut the current reply off; drop the rest of it until the turn completes
+  private discarding = false;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectAttempts = 0;
+
+  constructor() {
+    super();
+    this.setState('offline');
+  }
+
+  connect() {
+    if (this.active) return;
+    this.active = true;
+    geminiLive.on('connection', this.handleConnection);
+    geminiLive.on('speaking', this.handleSpeaking);
+    geminiLive.on('audio', this.handleAudio);
+    geminiLive.on('outputTranscript', this.handleOutputTranscript);
+    geminiLive.on('inputTranscript', this.handleInputTranscript);
+    geminiLive.on('emotion', this.handleEmotion);
+    geminiLive.on('gesture', this.handleGesture);
+    geminiLive.on('interrupted', this.handleInterrupted);
+    geminiLive.on('turnComplete', this.handleTurnComplete);
+    personaStore.on('change', this.handlePersona);
+    this.open();
+  }
+
+  disconnect() {
+    if (!this.active) return;
+    this.active = false;
+    geminiLive.off('connection', this.handleConnection);
+    geminiLive.off('speaking', this.handleSpeaking);
+    geminiLive.off('audio', this.handleAudio);
+    geminiLive.off('outputTranscript', this.handleOutputTranscript);
+    geminiLive.off('inputTranscript', this.handleInputTranscript);
+    geminiLive.off('emotion', this.handleEmotion);
+    geminiLive.off('gesture', this.handleGesture);
+    geminiLive.off('interrupted', this.handleInterrupted);
+    geminiLive.off('turnComplete', this.handleTurnComplete);
+    personaStore.off('change', this.handlePersona);
+    this.clearReconnect();
+    geminiLive.disconnect();
+    this.settle(null);
+    this.turnActive = false;
+    this.discarding = false;
+    this.setState('offline');
+  }
+
+  // The session prompt is fixed once open, so persona edits reopen it
+  private async open() {
+    const persona = personaStore.getActive();
+    const memories = await memoryStore.contextFor(persona.name);
+    if (!this.active) return;
+    const systemInstruction = [buildSystemPrompt(persona), buildMemoryPrompt(memories)].filter(Boolean).join('\n\n');
+    try {
+      await geminiLive.connect({ systemInstruction, temperature: persona.temperature, maxOutputTokens: persona.maxTokens });
+    } catch (error) {
+      console.warn('Gemini Live connection failed:', error);
+    }
+  }
+
+  send(request: BackendRequest): Promise<BackendReply | null> {
+    return this.stream(request, () => undefined);
+  }
+
+  stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null> {
+    this.settle(null);
+    if (!geminiLive.sendText(attributeMessage(request.message, request.author))) {
+      return Promise.resolve(null);
+    }
+    return new Promise(resolve => {
+      this.pending = { resolve, onText, startTime: performance.now() };
+    });
+  }
+
+  /**
+   * Live has no cancel message: the server stops on its own when it hears the
+   * user. For ESC or typing, the rest of the turn is dropped here instead.
+   */
+  interrupt() {
+    if (this.turnActive) {
+      this.discarding = true;
+    }
+    const pending = this.pending;
+    if (pending) {
+      this.settle({ text: '', emotion: null, latency: Math.round(performance.now() - pending.startTime), cancelled: true });
+    }
+  }
+
+  private settle(reply: BackendReply | null) {
+    const pending = this.pending;
+    this.pending = null;
+    pending?.resolve(reply);
+  }
+
+  private handlePersona = (_change: PersonaStoreEventMap['change']) => {
+    geminiLive.disconnect();
+    // Reopening right away; the close above is not a lost session
+    this.clearReconnect();
+    this.open();
+  };
+
+  private handleConnection = ({ status }: GeminiLiveEventMap['connection']) => {
+    if (status === 'connected') {
+      this.reconnectAttempts = 0;
+    }
+    this.setState(status === 'connected' ? 'ready' : status === 'connecting' ? 'connecting' : 'offline');
+    if (status === 'disconnected') {
+      this.settle(null);
+      this.scheduleReconnect();
+    }
+  };
+
+  // Sessions hit their time limit or drop with the network; keep reopening while selected
+  private scheduleReconnect() {
+    if (!this.active || this.reconnectTimer) return;
+    const delay = Math.min(RECONNECT_BASE_MS * 2 ** this.reconnectAttempts, RECONNECT_MAX_MS);
+    this.reconnectAttempts++;
+    console.log(`GeminiLiveBackend: Session lost, reopening in ${delay}ms (attempt ${this.reconnectAttempts})`);
+    this.setState('reconnecting');
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private clearReconnect() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private handleSpeaking = ({ latency }: GeminiLiveEventMap['speaking']) => {
+    this.turnActive = true;
+    if (this.discarding) return;
+    this.latency = latency ?? undefined;
+    if (!this.emotionSet) {
+      this.emit('emotion', { emotion: 'neutral' });
+    }
+  };
+
+  private handleAudio = ({ data, sampleRate }: GeminiLiveEventMap['audio']) => {
+    this.turnActive = true;
+    if (this.discarding) return;
+    this.emit('audio', { data, format: 'pcm16', sampleRate });
+  };
+
+  private handleOutputTranscript = ({ text }: GeminiLiveEventMap['outputTranscript']) => {
+    this.turnActive = true;
+    if (this.discarding) return;
+    this.pending?.onText(text);
+    this.emit('text', { text });
+    this.emit('speaking', { text, streamedAudio: true });
+  };
+
+  private handleInputTranscript = ({ text }: GeminiLiveEventMap['inputTranscript']) => {
+    this.emit('transcript', { text });
+  };
+
+  private handleEmotion = ({ emotion }: GeminiLiveEventMap['emotion']) => {
+    if (this.discarding) return;
+    const resolved = normalizeEmotion(emotion);
+    if (resolved) {
+      this.emotionSet = true;
+      this.emit('emotion', { emotion: resolved });
+    }
+  };
+
+  private handleGesture = ({ gesture }: GeminiLiveEventMap['gesture']) => {
+    if (this.discarding) return;
+    this.emit('gesture', { gesture });
+  };
+
+  private handleInterrupted = () => {
+    this.emit('interrupted', {});
+  };
+
+  private handleTurnComplete = ({ userText, text, interrupted }: GeminiLiveEventMap['turnComplete']) => {
+    const latency = this.latency;
+    this.latency = undefined;
+    this.emotionSet = false;
+    this.turnActive = false;
+    this.discarding = false;
+
+    if (this.pending) {
+      const fallbackLatency = Math.round(performance.now() - this.pending.startTime);
+      this.settle({ text, emotion: null, latency: latency ?? fallbackLatency, cancelled: interrupted });
+    } else if (userText || text) {
+      this.emit('turn', { userText, replyText: text, latency });
+    }
+  };
+}
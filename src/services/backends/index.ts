@@ -0,0 +1,23 @@
+import { ConversationBackend } from '../conversationBackend';
+import { RikoWsBackend } from './rikoWs';
+import { RikoHttpBackend } from './rikoHttp';
+import { GeminiBackend } from './gemini';
+import { GeminiLiveBackend } from './geminiLive';
+import { EchoBackend } from './echo';
+
+export interface BackendDefinition {
+  id: string;
+  label: string;
+  create: (apiKey: string) => ConversationBackend;
+}
+
+/** Every selectable backend; Chat and Live pick from this list */
+export const BACKENDS: BackendDefinition[] = [
+  { id: 'gemini', label: 'Gemini', create: (apiKey) => new GeminiBackend(apiKey) },
+  { id: 'gemini-live', label: 'Gemini Live (voice)', create: () => new GeminiLiveBackend() },
+  { id: 'riko-ws', label: 'Riko (WebSocket)', create: () => new RikoWsBackend() },
+  { id: 'riko-http', label: 'Riko (HTTP)', create: () => new RikoHttpBackend() },
+  { id: 'echo', label: 'Offline echo', create: () => new EchoBackend() }
+];
+
+export const DEFAULT_BACKEND_ID = 'gemini';
@@ -0,0 +1,25 @@
+import { rikoService } from '../riko';
+import { toRikoPersona } from '../personas';
+import { parseEmotionTags } from '../emotionTags';
+import { BackendBase, BackendRequest, BackendReply } from '../conversationBackend';
+
+/** Riko's `POST /chat` endpoint only: one request, one reply, no socket */
+export class RikoHttpBackend extends BackendBase {
+  readonly id = 'riko-http';
+  readonly label = 'Riko (HTTP)';
+
+  async send(request: BackendRequest): Promise<BackendReply | null> {
+    const startTime = performance.now();
+    rikoService.setPersona(toRikoPersona(request.persona));
+    const response = await rikoService.sendHttpMessage(request.message, request.memories, request.author);
+    if (!response) {
+      this.setState('offline');
+      return null;
+    }
+    this.setState('ready');
+
+    const latency = Math.round(performance.now() - startTime);
+    const emotion = this.perform(response.text, response.emotion, response.audioUrl);
+    return { text: parseEmotionTags(response.text).text, emotion, latency, cancelled: false };
+  }
+}
@@ -0,0 +1,140 @@
+import { RikoEventMap, RikoConnectionState } from '../../types';
+import { rikoService } from '../riko';
+import { toRikoPersona } from '../personas';
+import { normalizeEmotion, parseEmotionTags } from '../emotionTags';
+import { BackendBase, BackendRequest, BackendReply, BackendState } from '../conversationBackend';
+
+const STATES: Record<RikoConnectionState, BackendState> = {
+  closed: 'offline',
+  connecting: 'connecting',
+  open: 'ready',
+  degraded: 'degraded',
+  reconnecting: 'reconnecting',
+  failed: 'offline'
+};
+
+/**
+ * Riko over its WebSocket. Replies drive the avatar through `speaking`,
+ * `audio`, `viseme`, `emotion` and `gesture` frames. When the socket is down
+ * the service tries HTTP, whose reply is acted out here, and otherwise
+ * queues the message until the socket reconnects.
+ */
+export class RikoWsBackend extends BackendBase {
+  readonly id = 'riko-ws';
+  readonly label = 'Riko (WebSocket)';
+  // Bumped by cancel() so a reply that resolves afterwards is reported as cancelled
+  private run = 0;
+
+  constructor() {
+    super();
+    this.setState('offline');
+  }
+
+  connect() {
+    rikoService.on('state', this.handleState);
+    rikoService.on('latency', this.handleLatency);
+    rikoService.on('speaking', this.handleSpeaking);
+    rikoService.on('audio', this.handleAudio);
+    rikoService.on('viseme', this.handleViseme);
+    rikoService.on('emotion', this.handleEmotion);
+    rikoService.on('gesture', this.handleGesture);
+    rikoService.connect();
+    this.setState(STATES[rikoService.connectionState]);
+  }
+
+  disconnect() {
+    rikoService.off('state', this.handleState);
+    rikoService.off('latency', this.handleLatency);
+    rikoService.off('speaking', this.handleSpeaking);
+    rikoService.off('audio', this.handleAudio);
+    rikoService.off('viseme', this.handleViseme);
+    rikoService.off('emotion', this.handleEmotion);
+    rikoService.off('gesture', this.handleGesture);
+    rikoService.suspend();
+  }
+
+  cancel() {
+    this.run++;
+    rikoService.cancelPending();
+  }
+
+  interrupt() {
+    this.run++;
+    rikoService.interrupt();
+  }
+
+  send(request: BackendRequest): Promise<BackendReply | null> {
+    return this.stream(request, () => undefined);
+  }
+
+  /** Reports the reply as its `text` frames arrive; an HTTP reply comes in one piece at the end */
+  async stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null> {
+    const startTime = performance.now();
+    const run = this.run;
+    let firstTextAt: number | null = null;
+    let shown = '';
+    const show = (text: string) => {
+      if (run !== this.run || text === shown) return;
+      shown = text;
+      onText(text);
+      this.emit('text', { text });
+    };
+
+    rikoService.setPersona(toRikoPersona(request.persona));
+    const response = await rikoService.sendMessage(request.message, request.memories, request.onDelivery, request.author, raw => {
+      firstTextAt ??= performance.now();
+      show(parseEmotionTags(raw, true).text);
+    });
+    const latency = Math.round((firstTextAt ?? performance.now()) - startTime);
+    if (run !== this.run) {
+      return { text: '', emotion: null, latency, cancelled: true };
+    }
+    if (!response) return null;
+
+    const { text, emotions } = parseEmotionTags(response.text);
+    show(text);
+    // Socket replies already drove playback and emotion through their speaking frame
+    const emotion = response.transport === 'ws'
+      ? normalizeEmotion(response.emotion) ?? emotions[emotions.length - 1] ?? null
+      : this.perform(response.text, response.emotion, response.audioUrl);
+    return { text, emotion, latency, cancelled: false };
+  }
+
+  private handleState = ({ state }: RikoEventMap['state']) => {
+    this.setState(STATES[state]);
+  };
+
+  private handleLatency = (sample: RikoEventMap['latency']) => {
+    this.emit('latency', sample);
+  };
+
+  private handleSpeaking = (frame: RikoEventMap['speaking']) => {
+    const { text, emotions, gestures } = parseEmotionTags(frame.text ?? '');
+    this.emit('emotion', { emotion: normalizeEmotion(frame.emotion) ?? emotions[emotions.length - 1] ?? 'neutral' });
+    if (gestures[0]) {
+      this.emit('gesture', { gesture: gestures[0] });
+    }
+    this.emit('speaking', { text, durationMs: frame.duration, audioUrl: frame.audioUrl, streamedAudio: false });
+  };
+
+  private handleAudio = (frame: RikoEventMap['audio']) => {
+    this.emit('audio', frame);
+  };
+
+  private handleViseme = (frame: RikoEventMap['viseme']) => {
+    this.emit('viseme', frame);
+  };
+
+  private handleEmotion = (frame: RikoEventMap['emotion']) => {
+    const emotion = normalizeEmotion(frame.emotion);
+    if (emotion) {
+      this.emit('emotion', { emotion, intensity: frame.intensity });
+    } else {
+      console.warn('Unknown emotion from Riko:', frame.emotion);
+    }
+  };
+
+  private handleGesture = (frame: RikoEventMap['gesture']) => {
+    this.emit('gesture', { gesture: frame.gesture });
+  };
+}
@@ -0,0 +1,249 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Avatar3DRef } from '../components/Avatar3D';
+import { BroadcastLink, BroadcastMessage, VIEW_HEARTBEAT_MS, applyAvatarCommand, broadcastLink, mirrorAvatar } from './broadcastLink';
+
+class FakeBroadcastChannel {
+  static instances: FakeBroadcastChannel[] = [];
+
+  posted: BroadcastMessage[] = [];
+  onmessage: ((event: { data: BroadcastMessage }) => void) | null = null;
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.instances.push(this);
+  }
+
+  postMessage(message: BroadcastMessage) {
+    this.posted.push(message);
+  }
+
+  /** A message from another window on the channel */
+  deliver(message: BroadcastMessage) {
+    this.onmessage?.({ data: message });
+  }
+}
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  sent: BroadcastMessage[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+}
+
+const fakeAvatar = () => ({
+  triggerMouthMovement: vi.fn(),
+  speak: vi.fn(),
+  stopSpeaking: vi.fn(),
+  setVisemes: vi.fn(),
+  setEmotion: vi.fn(),
+  playGesture: vi.fn(() => true),
+  lookAt: vi.fn(),
+  getState: vi.fn(() => ({ speaking: true, emotion: 'happy' as const, lookingAt: null }))
+}) satisfies Avatar3DRef;
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'setInterval', 'clearInterval', 'performance'] });
+  FakeBroadcastChannel.instances = [];
+  FakeWebSocket.instances = [];
+  vi.stubGlobal('BroadcastChannel', FakeBroadcastChannel);
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('BroadcastLink views', () => {
+  const started = () => {
+    const link = new BroadcastLink('');
+    const counts: number[] = [];
+    link.on('views', ({ count }) => counts.push(count));
+    link.start();
+    return { link, counts, channel: FakeBroadcastChannel.instances[0] };
+  };
+
+  it('counts views that say hello until they say bye', () => {
+    const { link, counts, channel } = started();
+
+    channel.deliver({ type: 'hello', viewId: 'a' });
+    channel.deliver({ type: 'hello', viewId: 'b' });
+    channel.deliver({ type: 'hello', viewId: 'a' });
+    channel.deliver({ type: 'bye', viewId: 'a' });
+
+    expect(counts).toEqual([1, 2, 1]);
+    expect(link.viewCount).toBe(1);
+  });
+
+  it('keeps counting views that stay alive and stops counting ones that go quiet', () => {
+    const { link, counts, channel } = started();
+    channel.deliver({ type: 'hello', viewId: 'steady' });
+    channel.deliver({ type: 'hello', viewId: 'crashed' });
+
+    for (let beat = 0; beat < 4; beat++) {
+      vi.advanceTimersByTime(VIEW_HEARTBEAT_MS);
+      channel.deliver({ type: 'alive', viewId: 'steady' });
+    }
+
+    expect(link.viewCount).toBe(1);
+    expect(counts).toEqual([1, 2, 1]);
+  });
+
+  it('passes every message on to listeners', () => {
+    const { link, channel } = started();
+    const received: BroadcastMessage[] = [];
+    link.on('message', message => received.push(message));
+
+    channel.deliver({ type: 'hello', viewId: 'a' });
+    channel.deliver({ type: 'caption', text: 'Hi' });
+
+    expect(received).toEqual([{ type: 'hello', viewId: 'a' }, { type: 'caption', text: 'Hi' }]);
+  });
+});
+
+describe('BroadcastLink relay', () => {
+  const relayLink = () => {
+    const link = new BroadcastLink('ws://relay.test');
+    link.start();
+    return { link, relay: FakeWebSocket.instances[0] };
+  };
+
+  it('holds posts until the relay opens, dropping mouth frames meanwhile', () => {
+    const { link, relay } = relayLink();
+    const opened = vi.fn();
+    link.on('open', opened);
+
+    link.post({ type: 'caption', text: 'Hello' });
+    link.post({ type: 'frame', level: 0.4, captionProgress: 0.1 });
+    link.post({ type: 'speak', durationMs: 1200 });
+    expect(relay.sent).toEqual([]);
+
+    relay.open();
+    link.post({ type: 'frame', level: 0.2, captionProgress: 0.5 });
+
+    expect(FakeBroadcastChannel.instances).toHaveLength(0);
+    expect(opened).toHaveBeenCalledTimes(1);
+    expect(relay.sent.map(message => message.type)).toEqual(['caption', 'speak', 'frame']);
+  });
+
+  it('keeps only the most recent posts while the relay is down', () => {
+    const { link, relay } = relayLink();
+
+    for (let index = 0; index < 105; index++) {
+      link.post({ type: 'speak', durationMs: index });
+    }
+    relay.open();
+
+    expect(relay.sent).toHaveLength(100);
+    expect(relay.sent[0]).toEqual({ type: 'speak', durationMs: 5 });
+  });
+
+  it('reconnects after the relay closes and reads what it repeats', () => {
+    const { link, relay } = relayLink();
+    const received: BroadcastMessage[] = [];
+    link.on('message', message => received.push(message));
+    relay.open();
+
+    relay.close();
+    vi.advanceTimersByTime(3000);
+    const reopened = FakeWebSocket.instances[1];
+    reopened.open();
+    reopened.onmessage?.({ data: 'not json' });
+    reopened.onmessage?.({ data: JSON.stringify({ type: 'stop' }) });
+
+    expect(reopened.url).toBe('ws://relay.test');
+    expect(received).toEqual([{ type: 'stop' }]);
+  });
+});
+
+describe('applyAvatarCommand', () => {
+  it('carries out avatar commands, holding an emotion sent with holdMs null', () => {
+    const avatar = fakeAvatar();
+
+    expect(applyAvatarCommand(avatar, { type: 'emotion', emotion: 'sad', intensity: 0.7, holdMs: null })).toBe(true);
+    applyAvatarCommand(avatar, { type: 'emotion', emotion: 'happy', holdMs: 3000 });
+    applyAvatarCommand(avatar, { type: 'visemes', cues: [{ time: 0, viseme: 'aa', weight: 1 }] });
+    applyAvatarCommand(avatar, { type: 'lookAt', point: null });
+
+    expect(avatar.setEmotion.mock.calls).toEqual([['sad', 0.7, Infinity], ['happy', undefined, 3000]]);
+    expect(avatar.setVisemes).toHaveBeenCalledWith([{ time: 0, viseme: 'aa', weight: 1 }]);
+    expect(avatar.lookAt).toHaveBeenCalledWith(null);
+  });
+
+  it('leaves other messages to the caller', () => {
+    const avatar = fakeAvatar();
+
+    expect(applyAvatarCommand(avatar, { type: 'caption', text: 'Hi' })).toBe(false);
+    expect(applyAvatarCommand(avatar, { type: 'frame', level: 0.5, captionProgress: 0 })).toBe(false);
+    expect(applyAvatarCommand(null, { type: 'stop' })).toBe(true);
+  });
+});
+
+describe('mirrorAvatar', () => {
+  const mirrored = (local: Avatar3DRef | null) => {
+    const posted: BroadcastMessage[] = [];
+    vi.spyOn(broadcastLink, 'post').mockImplementation(message => { posted.push(message); });
+    return { avatar: mirrorAvatar(() => local), posted };
+  };
+
+  it('drives the local avatar and repeats each command to the views', () => {
+    const local = fakeAvatar();
+    const { avatar, posted } = mirrored(local);
+
+    avatar.speak(800);
+    avatar.playGesture('wave');
+    avatar.stopSpeaking();
+
+    expect(local.speak).toHaveBeenCalledWith(800);
+    expect(local.playGesture).toHaveBeenCalledWith('wave');
+    expect(local.stopSpeaking).toHaveBeenCalled();
+    expect(posted).toEqual([{ type: 'speak', durationMs: 800 }, { type: 'gesture', name: 'wave' }, { type: 'stop' }]);
+  });
+
+  it('sends an emotion held forever as holdMs null, which views turn back into Infinity', () => {
+    const { avatar, posted } = mirrored(fakeAvatar());
+    const view = fakeAvatar();
+
+    avatar.setEmotion('surprised', 1, Infinity);
+    avatar.setEmotion('happy');
+    const overTheWire = posted.map(message => JSON.parse(JSON.stringify(message)) as BroadcastMessage);
+    overTheWire.forEach(message => applyAvatarCommand(view, message));
+
+    expect(overTheWire[0]).toMatchObject({ holdMs: null });
+    expect(view.setEmotion.mock.calls).toEqual([['surprised', 1, Infinity], ['happy', undefined, undefined]]);
+  });
+
+  it('still posts without a local avatar and reports a resting state', () => {
+    const { avatar, posted } = mirrored(null);
+
+    expect(avatar.playGesture('wave')).toBe(false);
+    expect(avatar.getState()).toEqual({ speaking: false, emotion: 'neutral', lookingAt: null });
+    expect(posted).toEqual([{ type: 'gesture', name: 'wave' }]);
+  });
+});
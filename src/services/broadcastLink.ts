@@ -0,0 +1,245 @@
+import { Emotion } from '../types';
+import type { Avatar3DRef } from '../components/Avatar3D';
+import type { VisemeCue } from '../avatar/visemes';
+import { TypedEventEmitter } from './eventEmitter';
+
+/**
+ * What the operator window and broadcast views say to each other. Views
+ * announce themselves with `hello`; everything else flows from the operator.
+ */
+export type BroadcastMessage =
+  | { type: 'hello'; viewId: string }
+  | { type: 'bye'; viewId: string }
+  /** Views repeat this while open, so one that crashed without a `bye` stops being counted */
+  | { type: 'alive'; viewId: string }
+  | { type: 'scene'; avatarId: string; subtitles: boolean; listening: boolean }
+  | { type: 'speak'; durationMs: number }
+  | { type: 'stop' }
+  | { type: 'visemes'; cues: VisemeCue[] }
+  /** `holdMs: null` holds until replaced (Infinity does not survive JSON) */
+  | { type: 'emotion'; emotion: Emotion; intensity?: number; holdMs?: number | null }
+  | { type: 'gesture'; name: string }
+  | { type: 'lookAt'; point: { x: number; y: number } | null }
+  | { type: 'caption'; text: string | null }
+  /**
+   * Sent while YUMI talks: speech level for the mouth, progress through the
+   * caption and seconds of the utterance's audio played (for viseme timing;
+   * absent from logs recorded before it was added)
+   */
+  | { type: 'frame'; level: number | null; captionProgress: number; playbackTime?: number | null };
+
+export interface BroadcastLinkEventMap {
+  message: BroadcastMessage;
+  /** Every message this window posts, for local observers such as the session recorder */
+  sent: BroadcastMessage;
+  /** Broadcast views currently open, as seen by the operator */
+  views: { count: number };
+  /** The link (re)opened; views say hello again so a restarted relay catches them up */
+  open: Record<string, never>;
+}
+
+const CHANNEL_NAME = 'yumi-broadcast';
+
+const RELAY_RETRY_MS = 3000;
+// Posts made while the relay is down are held up to this many; mouth frames are dropped rather than held
+const MAX_PENDING_POSTS = 100;
+
+export const VIEW_HEARTBEAT_MS = 5000;
+const VIEW_TIMEOUT_MS = VIEW_HEARTBEAT_MS * 3;
+
+// Frames stop when YUMI stops talking; an old level would leave the mouth hanging open
+export const FRAME_STALE_MS = 250;
+
+/**
+ * Local link between the operator UI and the on-air broadcast view.
+ *
+ * Uses a BroadcastChannel, which reaches other windows of the same browser
+ * (including OBS custom docks next to the browser source). When OBS runs the
+ * view in its own browser process, set `BROADCAST_RELAY_URL` to a WebSocket
+ * relay that repeats every message to all clients.
+ */
+export class BroadcastLink extends TypedEventEmitter<BroadcastLinkEventMap> {
+  private channel: BroadcastChannel | null = null;
+  private relay: WebSocket | null = null;
+  private relayTimer: ReturnType<typeof setTimeout> | null = null;
+  private opened = false;
+  private pending: BroadcastMessage[] = [];
+  // View ID → when it was last heard from
+  private views: Map<string, number> = new Map();
+  private pruneTimer: ReturnType<typeof setInterval> | null = null;
+
+  /** `relayUrl` overrides `BROADCAST_RELAY_URL`; empty uses the BroadcastChannel */
+  constructor(private relayUrl = process.env.BROADCAST_RELAY_URL || '') {
+    super();
+  }
+
+  private open() {
+    if (this.opened) return;
+    this.opened = true;
+    if (this.relayUrl) {
+      this.openRelay();
+    } else if (typeof BroadcastChannel !== 'undefined') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent<BroadcastMessage>) => this.receive(event.data);
+      this.emit('open', {});
+    } else {
+      console.warn('BroadcastLink: BroadcastChannel is not supported; set BROADCAST_RELAY_URL to use a relay');
+    }
+  }
+
+  private openRelay() {
+    this.relayTimer = null;
+    const ws = new WebSocket(this.relayUrl);
+    this.relay = ws;
+    ws.onopen = () => {
+      if (this.relay !== ws) return;
+      const pending = this.pending;
+      this.pending = [];
+      pending.forEach(message => ws.send(JSON.stringify(message)));
+      this.emit('open', {});
+    };
+    ws.onmessage = (event) => {
+      try {
+        this.receive(JSON.parse(event.data));
+      } catch (error) {
+        console.warn('BroadcastLink: Dropping unreadable relay message', error);
+      }
+    };
+    ws.onclose = () => {
+      if (this.relay !== ws) return;
+      this.relay = null;
+      console.warn(`BroadcastLink: Relay closed, retrying in ${RELAY_RETRY_MS}ms`);
+      this.relayTimer = setTimeout(() => this.openRelay(), RELAY_RETRY_MS);
+    };
+  }
+
+  private receive(message: BroadcastMessage) {
+    if (!message || typeof message.type !== 'string') return;
+    if (message.type === 'hello' || message.type === 'alive' || message.type === 'bye') {
+      const count = this.views.size;
+      if (message.type === 'bye') {
+        this.views.delete(message.viewId);
+      } else {
+        this.views.set(message.viewId, performance.now());
+      }
+      this.updateViewCount(count);
+    }
+    this.emit('message', message);
+  }
+
+  private pruneViews() {
+    const count = this.views.size;
+    const now = performance.now();
+    this.views.forEach((lastSeen, viewId) => {
+      if (now - lastSeen > VIEW_TIMEOUT_MS) {
+        console.log(`BroadcastLink: View ${viewId} went quiet, no longer counting it`);
+        this.views.delete(viewId);
+      }
+    });
+    this.updateViewCount(count);
+  }
+
+  private updateViewCount(previous: number) {
+    if (this.views.size !== previous) {
+      this.emit('views', { count: this.views.size });
+    }
+  }
+
+  /** Start listening; both sides call this once they are mounted */
+  start() {
+    this.open();
+    if (!this.pruneTimer) {
+      this.pruneTimer = setInterval(() => this.pruneViews(), VIEW_HEARTBEAT_MS);
+    }
+  }
+
+  post(message: BroadcastMessage) {
+    this.open();
+    this.emit('sent', message);
+    if (this.channel) {
+      this.channel.postMessage(message);
+    } else if (this.relay?.readyState === WebSocket.OPEN) {
+      this.relay.send(JSON.stringify(message));
+    } else if (this.relayUrl && message.type !== 'frame') {
+      if (this.pending.length >= MAX_PENDING_POSTS) {
+        this.pending.shift();
+      }
+      this.pending.push(message);
+    }
+  }
+
+  get viewCount(): number {
+    return this.views.size;
+  }
+}
+
+export const broadcastLink = new BroadcastLink();
+
+/** Carry out an avatar command message; false for messages that are not avatar commands */
+export function applyAvatarCommand(avatar: Avatar3DRef | null, message: BroadcastMessage): boolean {
+  switch (message.type) {
+    case 'speak':
+      avatar?.speak(message.durationMs);
+      return true;
+    case 'stop':
+      avatar?.stopSpeaking();
+      return true;
+    case 'visemes':
+      avatar?.setVisemes(message.cues);
+      return true;
+    case 'emotion':
+      avatar?.setEmotion(message.emotion, message.intensity, message.holdMs === null ? Infinity : message.holdMs);
+      return true;
+    case 'gesture':
+      avatar?.playGesture(message.name);
+      return true;
+    case 'lookAt':
+      avatar?.lookAt(message.point);
+      return true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * An avatar handle that drives the local avatar and repeats each command to
+ * any open broadcast views, so the on-air avatar moves with the operator's.
+ */
+export function mirrorAvatar(getLocal: () => Avatar3DRef | null): Avatar3DRef {
+  return {
+    triggerMouthMovement: (duration) => {
+      getLocal()?.triggerMouthMovement(duration);
+      broadcastLink.post({ type: 'speak', durationMs: duration });
+    },
+    speak: (duration) => {
+      getLocal()?.speak(duration);
+      broadcastLink.post({ type: 'speak', durationMs: duration });
+    },
+    stopSpeaking: () => {
+      getLocal()?.stopSpeaking();
+      broadcastLink.post({ type: 'stop' });
+    },
+    setVisemes: (cues) => {
+      getLocal()?.setVisemes(cues);
+      broadcastLink.post({ type: 'visemes', cues });
+    },
+    setEmotion: (emotion, intensity, holdMs) => {
+      getLocal()?.setEmotion(emotion, intensity, holdMs);
+      broadcastLink.post({
+        type: 'emotion',
+        emotion,
+        intensity,
+        holdMs: holdMs === undefined ? undefined : Number.isFinite(holdMs) ? holdMs : null
+      });
+    },
+    playGesture: (name) => {
+      broadcastLink.post({ type: 'gesture', name });
+      return getLocal()?.playGesture(name) ?? false;
+    },
+    lookAt: (point) => {
+      getLocal()?.lookAt(point);
+      broadcastLink.post({ type: 'lookAt', point });
+    },
+    getState: () => getLocal()?.getState() ?? { speaking: false, emotion: 'neutral', lookingAt: null }
+  };
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { IrcChatSource, parseIrcLine } from './irc';
+import type { IncomingChat } from '../streamChat';
+
+describe('parseIrcLine', () => {
+  it('splits the prefix, command and parameters, keeping the trailing one whole', () => {
+    expect(parseIrcLine(':nick!user@host PRIVMSG #yumi :hello there: friend\r\n')).toEqual({
+      tags: {},
+      prefix: 'nick!user@host',
+      command: 'PRIVMSG',
+      params: ['#yumi', 'hello there: friend']
+    });
+  });
+
+  it('reads IRCv3 tags and unescapes their values', () => {
+    const message = parseIrcLine('@display-name=Cool\\sViewer;bits=100;flag;note=a\\:b :v!v@v PRIVMSG #yumi :Cheer100');
+    expect(message?.tags).toEqual({ 'display-name': 'Cool Viewer', bits: '100', flag: '', note: 'a;b' });
+  });
+
+  it('upper-cases commands and accepts lines without a prefix', () => {
+    expect(parseIrcLine('ping :tmi.twitch.tv')).toEqual({
+      tags: {},
+      prefix: '',
+      command: 'PING',
+      params: ['tmi.twitch.tv']
+    });
+  });
+
+  it('returns null for blank or truncated lines', () => {
+    expect(parseIrcLine('')).toBeNull();
+    expect(parseIrcLine('   \r\n')).toBeNull();
+    expect(parseIrcLine('@tags-only')).toBeNull();
+    expect(parseIrcLine(':prefix-only')).toBeNull();
+  });
+});
+
+class FakeSocket {
+  static OPEN = 1;
+  static last: FakeSocket;
+  readyState = FakeSocket.OPEN;
+  sent: string[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+
+  constructor(public url: string) {
+    FakeSocket.last = this;
+  }
+
+  send(line: string) {
+    this.sent.push(line);
+  }
+
+  close() {}
+
+  receive(...lines: string[]) {
+    this.onmessage?.({ data: lines.map(line => `${line}\r\n`).join('') });
+  }
+}
+
+describe('IrcChatSource', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const connect = () => {
+    vi.stubGlobal('WebSocket', FakeSocket);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const source = new IrcChatSource({ url: 'ws://localhost:8097', channel: 'Yumi', nick: 'Bot', password: '' });
+    const messages: IncomingChat[] = [];
+    source.on('message', message => messages.push(message));
+    source.connect();
+    const socket = FakeSocket.last;
+    socket.onopen?.();
+    return { source, socket, messages };
+  };
+
+  it('registers, joins the channel once welcomed and answers pings', () => {
+    const { source, socket } = connect();
+
+    socket.receive(':server 001 bot :Welcome', ':bot!bot@host JOIN #yumi', 'PING :server');
+
+    expect(socket.sent).toContain('NICK bot\r\n');
+    expect(socket.sent).toContain('JOIN #yumi\r\n');
+    expect(socket.sent).toContain('PONG :server\r\n');
+    expect(source.getStatus()).toBe('connected');
+  });
+
+  it('turns channel messages into chat, with cheers as donations and /me unwrapped', () => {
+    const { socket, messages } = connect();
+
+    socket.receive(
+      '@id=m1;display-name=Viewer;bits=50 :viewer!viewer@host PRIVMSG #yumi :Cheer50 hi YUMI',
+      ':other!other@host PRIVMSG #yumi :\u0001ACTION waves\u0001',
+      ':elsewhere!e@host PRIVMSG #another :not for us'
+    );
+
+    expect(messages).toEqual([
+      { id: 'm1', user: 'viewer', displayName: 'Viewer', text: 'Cheer50 hi YUMI', donation: 50 },
+      expect.objectContaining({ user: 'other', displayName: 'other', text: 'waves', donation: undefined })
+    ]);
+  });
+
+  it('reports messages moderators removed', () => {
+    const { source, socket } = connect();
+    const removed: unknown[] = [];
+    source.on('removed', data => removed.push(data));
+
+    socket.receive('@target-msg-id=m1 :tmi CLEARMSG #yumi :text', ':tmi CLEARCHAT #yumi :Troll', ':tmi CLEARCHAT #yumi');
+
+    expect(removed).toEqual([{ messageId: 'm1' }, { user: 'troll' }, {}]);
+  });
+});
@@ -0,0 +1,279 @@
+import { ChatSource, ChatSourceEventMap, ChatSourceStatus } from '../streamChat';
+import { TypedEventEmitter } from '../eventEmitter';
+
+export interface IrcSourceConfig {
+  /** IRC-over-WebSocket endpoint; browsers cannot open raw IRC sockets */
+  url: string;
+  /** Channel to read, with or without the leading # */
+  channel: string;
+  /** Login name; empty joins Twitch anonymously as a read-only `justinfan` user */
+  nick: string;
+  /** Server password; for Twitch an `oauth:` token */
+  password: string;
+}
+
+const STORAGE_KEY = 'yumi.stream.irc';
+
+export const DEFAULT_IRC_CONFIG: IrcSourceConfig = {
+  url: 'wss://irc-ws.chat.twitch.tv:443',
+  channel: '',
+  nick: '',
+  password: ''
+};
+
+export function loadIrcConfig(): IrcSourceConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_IRC_CONFIG, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('IrcChatSource: Ignoring unreadable stored settings', error);
+  }
+  return { ...DEFAULT_IRC_CONFIG };
+}
+
+export function saveIrcConfig(config: IrcSourceConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+}
+
+/** One IRC line: IRCv3 tags, the optional `:prefix`, the command and its parameters */
+export interface IrcMessage {
+  tags: Record<string, string>;
+  prefix: string;
+  command: string;
+  params: string[];
+}
+
+const TAG_ESCAPES: Record<string, string> = { ':': ';', s: ' ', '\\': '\\', r: '\r', n: '\n' };
+
+const unescapeTag = (value: string) => value.replace(/\\(.?)/g, (_match, char: string) => TAG_ESCAPES[char] ?? char);
+
+/** Parse a single line of the IRC protocol; null for blank or malformed lines */
+export function parseIrcLine(line: string): IrcMessage | null {
+  let rest = line.replace(/\r?\n$/, '');
+  if (!rest.trim()) return null;
+
+  const tags: Record<string, string> = {};
+  if (rest.startsWith('@')) {
+    const end = rest.indexOf(' ');
+    if (end < 0) return null;
+    rest.slice(1, end).split(';').forEach(pair => {
+      const eq = pair.indexOf('=');
+      if (eq < 0) {
+        tags[pair] = '';
+      } else {
+        tags[pair.slice(0, eq)] = unescapeTag(pair.slice(eq + 1));
+      }
+    });
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  let prefix = '';
+  if (rest.startsWith(':')) {
+    const end = rest.indexOf(' ');
+    if (end < 0) return null;
+    prefix = rest.slice(1, end);
+    rest = rest.slice(end + 1).trimStart();
+  }
+
+  const trailingAt = rest.indexOf(' :');
+  const head = trailingAt >= 0 ? rest.slice(0, trailingAt) : rest;
+  const params = head.split(' ').filter(Boolean);
+  const command = params.shift();
+  if (!command) return null;
+  if (trailingAt >= 0) {
+    params.push(rest.slice(trailingAt + 2));
+  }
+
+  return { tags, prefix, command: command.toUpperCase(), params };
+}
+
+const nickFromPrefix = (prefix: string) => prefix.split('!')[0];
+
+const normalizeChannel = (channel: string) => `#${channel.trim().replace(/^#/, '').toLowerCase()}`;
+
+// `/me` messages arrive wrapped in CTCP ACTION markers
+const stripAction = (text: string) => {
+  const match = /^\u0001ACTION (.*?)\u0001?$/.exec(text);
+  return match ? match[1] : text;
+};
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Reads one channel over IRC. Speaks plain RFC 1459 plus the IRCv3 tags
+ * Twitch adds: `display-name`, `bits` (cheers count as donations), `id`, and
+ * CLEARMSG / CLEARCHAT for messages moderators delete. Any IRC server with a
+ * WebSocket listener works, so it can be tested against a local one.
+ */
+export class IrcChatSource extends TypedEventEmitter<ChatSourceEventMap> implements ChatSource {
+  readonly id = 'irc';
+  readonly label = 'IRC / Twitch';
+  private config: IrcSourceConfig;
+  private ws: WebSocket | null = null;
+  private status: ChatSourceStatus = 'disconnected';
+  private shouldReconnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private nick = '';
+  private messageCounter = 0;
+
+  constructor(config: IrcSourceConfig) {
+    super();
+    this.config = config;
+  }
+
+  getStatus(): ChatSourceStatus {
+    return this.status;
+  }
+
+  connect() {
+    if (!this.config.channel.trim()) {
+      this.emit('error', { message: 'Set a channel to read first' });
+      return;
+    }
+    this.shouldReconnect = true;
+    if (this.ws) return;
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  disconnect() {
+    this.shouldReconnect = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    if (this.ws) {
+      const socket = this.ws;
+      this.ws = null;
+      socket.close();
+    }
+    this.setStatus('disconnected');
+  }
+
+  private open() {
+    this.nick = this.config.nick.trim().toLowerCase() || `justinfan${Math.floor(10000 + Math.random() * 90000)}`;
+    this.setStatus('connecting');
+
+    let socket: WebSocket;
+    try {
+      socket = new WebSocket(this.config.url);
+    } catch (error) {
+      console.warn('IrcChatSource: Could not open WebSocket', error);
+      this.emit('error', { message: `Invalid IRC URL: ${this.config.url}` });
+      this.setStatus('disconnected');
+      return;
+    }
+    this.ws = socket;
+
+    socket.onopen = () => {
+      if (this.ws !== socket) return;
+      console.log('IrcChatSource: Connected, registering as', this.nick);
+      // Non-Twitch servers answer the capability request with NAK, which is harmless
+      this.sendLine('CAP REQ :twitch.tv/tags twitch.tv/commands');
+      if (this.config.password) {
+        this.sendLine(`PASS ${this.config.password}`);
+      }
+      this.sendLine(`NICK ${this.nick}`);
+      this.sendLine(`USER ${this.nick} 0 * :${this.nick}`);
+    };
+
+    socket.onmessage = (event) => {
+      if (this.ws !== socket) return;
+      String(event.data).split(/\r?\n/).forEach(line => {
+        const message = parseIrcLine(line);
+        if (message) this.handleMessage(message);
+      });
+    };
+
+    socket.onerror = (error) => {
+      console.warn('IrcChatSource: WebSocket error', error);
+    };
+
+    socket.onclose = () => {
+      if (this.ws !== socket) return;
+      console.log('IrcChatSource: Connection closed');
+      this.ws = null;
+      this.setStatus('disconnected');
+      if (this.shouldReconnect) {
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  private scheduleReconnect() {
+    this.reconnectAttempts++;
+    const delay = Math.min(1000 * 2 ** (this.reconnectAttempts - 1), MAX_RECONNECT_DELAY_MS);
+    console.log(`IrcChatSource: Reconnecting in ${delay}ms`);
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.open();
+    }, delay);
+  }
+
+  private sendLine(line: string) {
+    if (this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(`${line}\r\n`);
+    }
+  }
+
+  private handleMessage(message: IrcMessage) {
+    const channel = normalizeChannel(this.config.channel);
+
+    switch (message.command) {
+      case 'PING':
+        this.sendLine(`PONG :${message.params[0] ?? ''}`);
+        break;
+      case '001':
+        this.sendLine(`JOIN ${channel}`);
+        break;
+      case 'JOIN':
+        if (nickFromPrefix(message.prefix).toLowerCase() === this.nick) {
+          console.log('IrcChatSource: Joined', channel);
+          this.reconnectAttempts = 0;
+          this.setStatus('connected');
+        }
+        break;
+      case 'PRIVMSG': {
+        const [target, text = ''] = message.params;
+        if (target?.toLowerCase() !== channel) break;
+        const user = nickFromPrefix(message.prefix).toLowerCase();
+        const bits = Number(message.tags.bits);
+        this.messageCounter++;
+        this.emit('message', {
+          id: message.tags.id || `${Date.now().toString(36)}-${this.messageCounter}`,
+          user,
+          displayName: message.tags['display-name'] || user,
+          text: stripAction(text),
+          donation: bits > 0 ? bits : undefined
+        });
+        break;
+      }
+      case 'CLEARMSG':
+        if (message.tags['target-msg-id']) {
+          this.emit('removed', { messageId: message.tags['target-msg-id'] });
+        }
+        break;
+      case 'CLEARCHAT':
+        // With a user parameter one viewer was timed out or banned; without, the whole chat was cleared
+        this.emit('removed', message.params[1] ? { user: message.params[1].toLowerCase() } : {});
+        break;
+      case 'NOTICE':
+        if (/login|authentication/i.test(message.params[1] ?? '')) {
+          this.emit('error', { message: message.params[1] });
+        }
+        break;
+      case '433':
+        this.emit('error', { message: `Nickname ${this.nick} is already in use` });
+        break;
+    }
+  }
+
+  private setStatus(status: ChatSourceStatus) {
+    if (this.status === status) return;
+    this.status = status;
+    this.emit('status', { status });
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Persona, RikoResponse } from '../types';
+import { BackendRequest, prepareRequest } from './conversationBackend';
+import { RikoWsBackend } from './backends/rikoWs';
+
+const memory = vi.hoisted(() => ({
+  contextFor: vi.fn(async (_message: string) => ['The user is called Sam']),
+  learnFrom: vi.fn(async (_message: string, _source: string) => {})
+}));
+
+type TextListener = (text: string) => void;
+
+const riko = vi.hoisted(() => ({
+  // Set by each test: how the server answers, streaming text frames through `onText`
+  reply: async (_onText: TextListener): Promise<RikoResponse | null> => null,
+  sendMessage: vi.fn(),
+  setPersona: vi.fn(),
+  cancelPending: vi.fn()
+}));
+
+vi.mock('./memoryStore', () => ({ memoryStore: memory }));
+vi.mock('./personas', () => ({ personaStore: { getActive: () => ({ name: 'YUMI' }) }, toRikoPersona: () => null }));
+vi.mock('./riko', () => ({ rikoService: riko }));
+
+describe('prepareRequest', () => {
+  beforeEach(() => {
+    memory.contextFor.mockClear();
+    memory.learnFrom.mockClear();
+  });
+
+  it("recalls and learns from the operator's own messages", async () => {
+    const request = await prepareRequest('my name is Sam', [], 'chat');
+
+    expect(request.memories).toEqual(['The user is called Sam']);
+    expect(memory.contextFor).toHaveBeenCalledWith('my name is Sam');
+    expect(memory.learnFrom).toHaveBeenCalledWith('my name is Sam', 'chat');
+  });
+
+  it("keeps the operator's memories away from stream viewers", async () => {
+    const request = await prepareRequest('what is my name?', [], 'live', 'viewer42');
+
+    expect(request).toMatchObject({ memories: [], author: 'viewer42' });
+    expect(memory.contextFor).not.toHaveBeenCalled();
+    expect(memory.learnFrom).not.toHaveBeenCalled();
+  });
+});
+
+describe('RikoWsBackend.stream', () => {
+  const request: BackendRequest = { message: 'Hi', history: [], persona: { name: 'YUMI' } as Persona, memories: [] };
+
+  beforeEach(() => {
+    riko.sendMessage.mockReset();
+    riko.sendMessage.mockImplementation(
+      (_message: string, _memories: string[], _onDelivery: unknown, _author: unknown, onText: TextListener) => riko.reply(onText)
+    );
+  });
+
+  it("reports the reply as Riko's text frames arrive, without emotion tags", async () => {
+    riko.reply = async onText => {
+      onText('[happy] Hel');
+      onText('[happy] Hello [wa');
+      onText('[happy] Hello [wave] there');
+      return { text: '[happy] Hello [wave] there', transport: 'ws' };
+    };
+    const backend = new RikoWsBackend();
+    const seen: string[] = [];
+
+    const reply = await backend.stream(request, text => seen.push(text));
+
+    expect(seen).toEqual(['Hel', 'Hello', 'Hello there']);
+    expect(reply).toMatchObject({ text: 'Hello there', emotion: 'happy', cancelled: false });
+  });
+
+  it('reports an HTTP reply, which has no text frames, in one piece and acts it out', async () => {
+    riko.reply = async () => ({ text: 'Over HTTP', transport: 'http' });
+    const backend = new RikoWsBackend();
+    const speaking = vi.fn();
+    backend.on('speaking', speaking);
+    const seen: string[] = [];
+
+    const reply = await backend.stream(request, text => seen.push(text));
+
+    expect(seen).toEqual(['Over HTTP']);
+    expect(reply?.text).toBe('Over HTTP');
+    expect(speaking).toHaveBeenCalledWith(expect.objectContaining({ text: 'Over HTTP' }));
+  });
+
+  it('stops reporting text once cancelled', async () => {
+    const backend = new RikoWsBackend();
+    riko.reply = async onText => {
+      onText('Before');
+      backend.cancel();
+      onText('Before and after');
+      return { text: 'Before and after', transport: 'ws' };
+    };
+    const seen: string[] = [];
+
+    const reply = await backend.stream(request, text => seen.push(text));
+
+    expect(seen).toEqual(['Before']);
+    expect(reply?.cancelled).toBe(true);
+  });
+});
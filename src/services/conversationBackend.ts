@@ -0,0 +1,175 @@
+import { ChatMessage, DeliveryStatus, Emotion, Persona, RikoAudioFrame, RikoVisemeFrame } from '../types';
+import { normalizeEmotion, parseEmotionTags } from './emotionTags';
+import { personaStore } from './personas';
+import { memoryStore } from './memoryStore';
+import type { SpeechSink } from './speechInput';
+import { TypedEventEmitter } from './eventEmitter';
+
+/**
+ * connecting: opening a session · ready: can take messages · degraded: connected
+ * but slow or missing heartbeats · reconnecting: lost the connection, retrying ·
+ * offline: replies will fail, fall back or wait in a queue
+ */
+export type BackendState = 'connecting' | 'ready' | 'degraded' | 'reconnecting' | 'offline';
+
+export interface BackendRequest {
+  message: string;
+  /** The conversation so far, ending with `message` */
+  history: ChatMessage[];
+  persona: Persona;
+  /** Long-term memories relevant to the message */
+  memories: string[];
+  /** Stream viewer who wrote the message; absent for the local user */
+  author?: string;
+  /** Told where the message stands, by backends that queue while offline */
+  onDelivery?: (status: DeliveryStatus) => void;
+}
+
+export interface BackendReply {
+  /** Reply text with emotion and gesture tags removed */
+  text: string;
+  emotion: Emotion | null;
+  /** Milliseconds from sending to the first reply text */
+  latency: number;
+  cancelled: boolean;
+}
+
+export interface ConversationBackendEventMap {
+  state: { state: BackendState };
+  /** Measured network round trip, from backends that run heartbeats */
+  latency: { rtt: number };
+  /**
+   * YUMI is saying a reply. `audioUrl` is a clip to play; without one the
+   * avatar mouths for `durationMs` unless audio is streamed separately.
+   * Backends that transcribe as they speak send it again as the text grows.
+   */
+  speaking: { text: string; durationMs?: number; audioUrl?: string; streamedAudio: boolean };
+  /** The reply text so far while streaming */
+  text: { text: string };
+  audio: Pick<RikoAudioFrame, 'data' | 'format' | 'sampleRate'>;
+  viseme: Pick<RikoVisemeFrame, 'visemes'>;
+  emotion: { emotion: Emotion; intensity?: number };
+  gesture: { gesture: string };
+  /** What the user is saying, transcribed by the backend itself */
+  transcript: { text: string };
+  /** A spoken exchange the backend handled without a send() call */
+  turn: { userText: string; replyText: string; latency?: number };
+  /** The user talked over the reply; queued audio should be dropped */
+  interrupted: Record<string, never>;
+}
+
+type ConversationBackendListener<K extends keyof ConversationBackendEventMap> = (data: ConversationBackendEventMap[K]) => void;
+
+/**
+ * One conversation engine behind Chat and Live mode. Implementations live in
+ * `services/backends/` and are listed in its registry.
+ */
+export interface ConversationBackend {
+  readonly id: string;
+  readonly label: string;
+  /** Where mic audio goes while this backend is active; Riko speech-to-text when absent */
+  readonly speechSink?: SpeechSink;
+  connect(): void;
+  disconnect(): void;
+  getState(): BackendState;
+  /** Send a message and resolve with the complete reply, or null if there was none */
+  send(request: BackendRequest): Promise<BackendReply | null>;
+  /** Like send(), reporting the reply text as it grows */
+  stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null>;
+  /** Stop the reply in flight, if the backend can */
+  cancel(): void;
+  /**
+   * Barge-in: the user cut YUMI off. Stop the reply, tell the server where the
+   * protocol allows it, and drop whatever of the turn is still streaming in.
+   */
+  interrupt(): void;
+  on<K extends keyof ConversationBackendEventMap>(event: K, callback: ConversationBackendListener<K>): void;
+  off<K extends keyof ConversationBackendEventMap>(event: K, callback: ConversationBackendListener<K>): void;
+}
+
+// Rough speaking time for replies that arrive without audio (~70ms per character)
+export const estimateSpeechDuration = (text: string) => Math.min(15000, Math.max(1000, text.length * 70));
+
+/** How a viewer's message reads to a model that only sees plain user turns */
+export const attributeMessage = (text: string, author?: string) => author ? `${author} (chat): ${text}` : text;
+
+/**
+ * Gather what every backend needs for a message: the active persona and
+ * relevant memories. Also lets the memory store learn from the message.
+ * Memories are the operator's own, so a stream viewer's message neither
+ * recalls nor feeds them.
+ */
+export async function prepareRequest(
+  message: string,
+  history: ChatMessage[],
+  source: 'chat' | 'live',
+  author?: string
+): Promise<BackendRequest> {
+  if (author) {
+    return { message, history, persona: personaStore.getActive(), memories: [], author };
+  }
+  const memories = await memoryStore.contextFor(message);
+  memoryStore.learnFrom(message, source).catch(error => {
+    console.warn('Could not update memories:', error);
+  });
+  return { message, history, persona: personaStore.getActive(), memories, author };
+}
+
+/** Event plumbing and the shared "say this reply" behaviour for backends */
+export abstract class BackendBase extends TypedEventEmitter<ConversationBackendEventMap> implements ConversationBackend {
+  abstract readonly id: string;
+  abstract readonly label: string;
+  private state: BackendState = 'ready';
+
+  abstract send(request: BackendRequest): Promise<BackendReply | null>;
+
+  connect() {}
+
+  disconnect() {}
+
+  cancel() {}
+
+  interrupt() {
+    this.cancel();
+  }
+
+  async stream(request: BackendRequest, onText: (text: string) => void): Promise<BackendReply | null> {
+    const reply = await this.send(request);
+    if (reply?.text) {
+      onText(reply.text);
+    }
+    return reply;
+  }
+
+  getState(): BackendState {
+    return this.state;
+  }
+
+  protected setState(state: BackendState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('state', { state });
+  }
+
+  /**
+   * Act out a finished reply that carried no avatar frames of its own:
+   * emotion and gesture from its tags (or `emotionLabel`), then speech.
+   */
+  protected perform(rawText: string, emotionLabel?: string, audioUrl?: string): BackendReply['emotion'] {
+    const { text, emotions, gestures } = parseEmotionTags(rawText);
+    const emotion = normalizeEmotion(emotionLabel) ?? emotions[emotions.length - 1] ?? null;
+    this.emit('emotion', { emotion: emotion ?? 'neutral' });
+    if (gestures[0]) {
+      this.emit('gesture', { gesture: gestures[0] });
+    }
+    if (text) {
+      this.emit('speaking', {
+        text,
+        durationMs: audioUrl ? undefined : estimateSpeechDuration(text),
+        audioUrl,
+        streamedAudio: false
+      });
+    }
+    return emotion;
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { ChatMessage } from '../types';
+import { ConversationExport, formatMarkdown, newMessageId, parseJsonExport, parseMarkdown } from './conversationStore';
+
+const message = (role: ChatMessage['role'], content: string, timestamp: number): ChatMessage => ({
+  id: `${role}-${timestamp}`,
+  role,
+  content,
+  timestamp
+});
+
+const exported: ConversationExport['sessions'] = [
+  {
+    id: 'session-a',
+    title: 'Code   help',
+    createdAt: Date.UTC(2026, 0, 1),
+    updatedAt: Date.UTC(2026, 0, 1, 0, 1),
+    messages: [
+      message('user', 'How do I fence code?', Date.UTC(2026, 0, 1)),
+      message('assistant', 'Like this:\n\n```ts\nconst x = 1;\n```\n\n## Not a heading\n# Nor this', Date.UTC(2026, 0, 1, 0, 1))
+    ]
+  },
+  {
+    id: 'session-b',
+    title: 'Backticks',
+    createdAt: Date.UTC(2026, 0, 2),
+    updatedAt: Date.UTC(2026, 0, 2),
+    messages: [message('user', 'A run of ```` four and ``` three', Date.UTC(2026, 0, 2))]
+  }
+];
+
+const contentOf = (sessions: Array<{ messages: ChatMessage[] }>) =>
+  sessions.map(session => session.messages.map(({ role, content, timestamp }) => ({ role, content, timestamp })));
+
+describe('Markdown export', () => {
+  it('reads back the sessions and messages it wrote', () => {
+    const imported = parseMarkdown(formatMarkdown(exported));
+
+    expect(imported.map(session => session.title)).toEqual(['Code help', 'Backticks']);
+    expect(imported.map(session => session.createdAt)).toEqual([Date.UTC(2026, 0, 1), Date.UTC(2026, 0, 2)]);
+    expect(contentOf(imported)).toEqual(contentOf(exported));
+  });
+
+  it('fences each body with more backticks than it contains', () => {
+    const markdown = formatMarkdown([exported[1]]);
+    expect(markdown).toContain('\n`````\nA run of');
+  });
+
+  it('still reads unfenced bodies from older exports', () => {
+    const imported = parseMarkdown('# Old\n\n## User · 2025-05-01T10:00:00.000Z\n\nHello there\n\n## YUMI · 2025-05-01T10:00:05.000Z\n\nHi!\n');
+
+    expect(contentOf(imported)).toEqual([[
+      { role: 'user', content: 'Hello there', timestamp: Date.UTC(2025, 4, 1, 10) },
+      { role: 'assistant', content: 'Hi!', timestamp: Date.UTC(2025, 4, 1, 10, 0, 5) }
+    ]]);
+  });
+
+  it('refuses text without session headings', () => {
+    expect(() => parseMarkdown('just some notes')).toThrow(/No sessions found/);
+  });
+});
+
+describe('JSON export', () => {
+  it('reads back the sessions and messages it wrote', () => {
+    const text = JSON.stringify({ version: 1, exportedAt: 0, sessions: exported } satisfies ConversationExport);
+    const imported = parseJsonExport(text);
+
+    expect(imported.map(session => session.title)).toEqual(['Code   help', 'Backticks']);
+    expect(contentOf(imported)).toEqual(contentOf(exported));
+  });
+
+  it('skips malformed messages and dates undated ones to their session', () => {
+    const imported = parseJsonExport(JSON.stringify({
+      version: 1,
+      sessions: [{
+        title: 'Mixed',
+        createdAt: 1000,
+        messages: [null, { role: 'system', content: 'x' }, { role: 'user', content: 42 }, { role: 'user', content: 'kept' }]
+      }]
+    }));
+
+    expect(contentOf(imported)).toEqual([[{ role: 'user', content: 'kept', timestamp: 1000 }]]);
+  });
+
+  it('refuses files that are not conversation exports', () => {
+    expect(() => parseJsonExport(JSON.stringify({ version: 2, sessions: [] }))).toThrow('Not a YUMI conversation export');
+    expect(() => parseJsonExport('{}')).toThrow('Not a YUMI conversation export');
+  });
+});
+
+describe('newMessageId', () => {
+  it('gives messages made in the same millisecond different IDs', () => {
+    const ids = new Set(Array.from({ length: 50 }, () => newMessageId()));
+    expect(ids.size).toBe(50);
+  });
+});
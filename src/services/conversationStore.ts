@@ -0,0 +1,355 @@
+import { ChatMessage, ChatSession } from '../types';
+import { openDatabase, idbRequest, idbDone } from './idb';
+import { TypedEventEmitter } from './eventEmitter';
+
+const DB_NAME = 'yumi-conversations';
+const SESSIONS = 'sessions';
+const MESSAGES = 'messages';
+const ACTIVE_KEY = 'yumi.conversation.active';
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_LENGTH = 48;
+
+interface StoredMessage extends ChatMessage {
+  sessionId: string;
+}
+
+export interface SearchHit {
+  session: ChatSession;
+  message: ChatMessage;
+  /** Message text around the first match */
+  snippet: string;
+}
+
+export interface ConversationExport {
+  version: 1;
+  exportedAt: number;
+  sessions: Array<ChatSession & { messages: ChatMessage[] }>;
+}
+
+export interface ConversationStoreEventMap {
+  /** Sessions or messages changed; `sessionId` is null when several may have */
+  change: { sessionId: string | null };
+  active: { sessionId: string };
+}
+
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** A message ID that stays unique when several messages are made in the same millisecond */
+export const newMessageId = () => newId('msg');
+
+const toTitle = (text: string) => {
+  const line = text.trim().split('\n')[0];
+  return line.length > TITLE_LENGTH ? `${line.slice(0, TITLE_LENGTH - 1)}…` : line || DEFAULT_TITLE;
+};
+
+const stripSession = ({ sessionId: _sessionId, ...message }: StoredMessage): ChatMessage => message;
+
+// A code fence longer than any run of backticks in the text, so the text cannot close it early
+const fenceFor = (text: string) => '`'.repeat(Math.max(3, ...(text.match(/`+/g) ?? []).map(run => run.length + 1)));
+
+/** A session read from an export, before it is given new IDs and stored */
+export interface ImportedSession {
+  title: string;
+  createdAt: number;
+  messages: ChatMessage[];
+}
+
+/**
+ * Markdown export: one `#` heading per session and one `##` heading per
+ * message, with each message body in a code fence so headings inside
+ * replies stay part of the reply. `parseMarkdown` reads this layout back.
+ */
+export function formatMarkdown(sessions: ConversationExport['sessions']): string {
+  return sessions.map(session => [
+    `# ${session.title.replace(/\s+/g, ' ')}`,
+    '',
+    ...session.messages.flatMap(message => {
+      const fence = fenceFor(message.content);
+      return [
+        `## ${message.role === 'user' ? 'User' : 'YUMI'} · ${new Date(message.timestamp).toISOString()}`,
+        '',
+        fence,
+        message.content,
+        fence,
+        ''
+      ];
+    })
+  ].join('\n')).join('\n');
+}
+
+/** Read the sessions out of a JSON export, skipping messages that are not well formed */
+export function parseJsonExport(text: string): ImportedSession[] {
+  const data = JSON.parse(text) as Partial<ConversationExport>;
+  if (data.version !== 1 || !Array.isArray(data.sessions)) {
+    throw new Error('Not a YUMI conversation export');
+  }
+  return data.sessions.map(session => {
+    const createdAt = Number(session.createdAt) || Date.now();
+    const messages = Array.isArray(session.messages) ? session.messages : [];
+    return {
+      title: String(session.title ?? DEFAULT_TITLE),
+      createdAt,
+      messages: messages
+        .filter(m => m && typeof m.content === 'string' && (m.role === 'user' || m.role === 'assistant'))
+        .map(m => ({ ...m, timestamp: Number.isFinite(m.timestamp) ? m.timestamp : createdAt }))
+    };
+  });
+}
+
+/** Read the sessions out of Markdown in the `formatMarkdown` layout */
+export function parseMarkdown(text: string): ImportedSession[] {
+  const sessions: ImportedSession[] = [];
+  let current: ChatMessage | null = null;
+  // Inside a fenced message body everything is content until the closing fence
+  let fence: string | null = null;
+  let fenced = false;
+
+  text.split('\n').forEach(line => {
+    if (fence !== null) {
+      if (line === fence) {
+        fence = null;
+        fenced = true;
+      } else {
+        current!.content += `${line}\n`;
+      }
+      return;
+    }
+    if (current && !fenced && !current.content.trim() && /^`{3,}$/.test(line)) {
+      fence = line;
+      return;
+    }
+    const sessionHeading = /^# (.+)$/.exec(line);
+    const messageHeading = /^## (User|YUMI) · (\S+)$/.exec(line);
+    if (sessionHeading) {
+      sessions.push({ title: sessionHeading[1].trim(), createdAt: Date.now(), messages: [] });
+      current = null;
+      fenced = false;
+    } else if (messageHeading && sessions.length) {
+      const timestamp = Date.parse(messageHeading[2]) || Date.now();
+      current = { id: '', role: messageHeading[1] === 'User' ? 'user' : 'assistant', content: '', timestamp };
+      fenced = false;
+      const session = sessions[sessions.length - 1];
+      if (!session.messages.length) session.createdAt = timestamp;
+      session.messages.push(current);
+    } else if (current && !fenced) {
+      // Unfenced bodies come from exports made before fencing; read them as before
+      current.content += `${line}\n`;
+    }
+  });
+
+  if (!sessions.length) {
+    throw new Error('No sessions found; expected "# Title" headings');
+  }
+  sessions.forEach(session => session.messages.forEach(message => { message.content = message.content.trim(); }));
+  return sessions;
+}
+
+/**
+ * Conversation history in IndexedDB. Chat and Live mode both append to the
+ * active session, so one transcript covers everything said in either mode.
+ */
+export class ConversationStore extends TypedEventEmitter<ConversationStoreEventMap> {
+  private db: Promise<IDBDatabase> | null = null;
+  private creatingActive: Promise<ChatSession> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        db.createObjectStore(SESSIONS, { keyPath: 'id' });
+        const messages = db.createObjectStore(MESSAGES, { keyPath: 'id' });
+        messages.createIndex('sessionId', 'sessionId');
+      });
+    }
+    return this.db;
+  }
+
+  async listSessions(): Promise<ChatSession[]> {
+    const db = await this.open();
+    const sessions = await idbRequest<ChatSession[]>(db.transaction(SESSIONS).objectStore(SESSIONS).getAll());
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async getSession(id: string): Promise<ChatSession | undefined> {
+    const db = await this.open();
+    return idbRequest<ChatSession | undefined>(db.transaction(SESSIONS).objectStore(SESSIONS).get(id));
+  }
+
+  async createSession(title = DEFAULT_TITLE): Promise<ChatSession> {
+    const now = Date.now();
+    const session: ChatSession = { id: newId('session'), title, createdAt: now, updatedAt: now };
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    tx.objectStore(SESSIONS).put(session);
+    await idbDone(tx);
+    this.emit('change', { sessionId: session.id });
+    return session;
+  }
+
+  async renameSession(id: string, title: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction(SESSIONS, 'readwrite');
+    const store = tx.objectStore(SESSIONS);
+    const session = await idbRequest<ChatSession | undefined>(store.get(id));
+    if (!session) {
+      throw new Error(`Unknown session ${id}`);
+    }
+    store.put({ ...session, title: title.trim() || DEFAULT_TITLE });
+    await idbDone(tx);
+    this.emit('change', { sessionId: id });
+  }
+
+  async deleteSession(id: string): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+    tx.objectStore(SESSIONS).delete(id);
+    const messages = tx.objectStore(MESSAGES);
+    const keys = await idbRequest(messages.index('sessionId').getAllKeys(id));
+    keys.forEach(key => messages.delete(key));
+    await idbDone(tx);
+
+    if (localStorage.getItem(ACTIVE_KEY) === id) {
+      localStorage.removeItem(ACTIVE_KEY);
+    }
+    this.emit('change', { sessionId: id });
+  }
+
+  async getMessages(sessionId: string): Promise<ChatMessage[]> {
+    const db = await this.open();
+    const stored = await idbRequest<StoredMessage[]>(
+      db.transaction(MESSAGES).objectStore(MESSAGES).index('sessionId').getAll(sessionId)
+    );
+    return stored.sort((a, b) => a.timestamp - b.timestamp).map(stripSession);
+  }
+
+  /**
+   * Insert or replace a message and bump the session's `updatedAt`. The first
+   * user message names a session that still has the default title.
+   */
+  async saveMessage(sessionId: string, message: ChatMessage): Promise<void> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+    const sessions = tx.objectStore(SESSIONS);
+    const session = await idbRequest<ChatSession | undefined>(sessions.get(sessionId));
+    if (!session) {
+      tx.abort();
+      throw new Error(`Unknown session ${sessionId}`);
+    }
+
+    tx.objectStore(MESSAGES).put({ ...message, sessionId } satisfies StoredMessage);
+    sessions.put({
+      ...session,
+      title: session.title === DEFAULT_TITLE && message.role === 'user' ? toTitle(message.content) : session.title,
+      updatedAt: Math.max(session.updatedAt, message.timestamp)
+    });
+    await idbDone(tx);
+    this.emit('change', { sessionId });
+  }
+
+  getActiveSessionId(): string | null {
+    return localStorage.getItem(ACTIVE_KEY);
+  }
+
+  setActiveSession(id: string) {
+    localStorage.setItem(ACTIVE_KEY, id);
+    this.emit('active', { sessionId: id });
+  }
+
+  /** The session new messages go to, creating one on first use */
+  async getActiveSession(): Promise<ChatSession> {
+    const id = this.getActiveSessionId();
+    const existing = id ? await this.getSession(id) : undefined;
+    if (existing) return existing;
+
+    // Concurrent callers share one new session instead of each creating their own
+    if (!this.creatingActive) {
+      this.creatingActive = this.createSession().then(session => {
+        this.setActiveSession(session.id);
+        return session;
+      }).finally(() => {
+        this.creatingActive = null;
+      });
+    }
+    return this.creatingActive;
+  }
+
+  /** Append a message to the active session */
+  async append(message: ChatMessage): Promise<void> {
+    const session = await this.getActiveSession();
+    await this.saveMessage(session.id, message);
+  }
+
+  /**
+   * Case-insensitive search over every stored message. All words in the
+   * query must appear; newest matches come first.
+   */
+  async search(query: string, limit = 50): Promise<SearchHit[]> {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (!terms.length) return [];
+
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, MESSAGES]);
+    const [sessions, messages] = await Promise.all([
+      idbRequest<ChatSession[]>(tx.objectStore(SESSIONS).getAll()),
+      idbRequest<StoredMessage[]>(tx.objectStore(MESSAGES).getAll())
+    ]);
+    const sessionsById = new Map(sessions.map(session => [session.id, session]));
+
+    return messages
+      .filter(message => {
+        const haystack = message.content.toLowerCase();
+        return sessionsById.has(message.sessionId) && terms.every(term => haystack.includes(term));
+      })
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit)
+      .map(message => {
+        const at = message.content.toLowerCase().indexOf(terms[0]);
+        const start = Math.max(0, at - 40);
+        const snippet = `${start > 0 ? '…' : ''}${message.content.slice(start, at + terms[0].length + 60)}`;
+        return { session: sessionsById.get(message.sessionId)!, message: stripSession(message), snippet };
+      });
+  }
+
+  /** Export the given sessions (default: all) */
+  async exportJson(sessionIds?: string[]): Promise<string> {
+    const data: ConversationExport = { version: 1, exportedAt: Date.now(), sessions: await this.collect(sessionIds) };
+    return JSON.stringify(data, null, 2);
+  }
+
+  /** Export as Markdown in the `formatMarkdown` layout */
+  async exportMarkdown(sessionIds?: string[]): Promise<string> {
+    return formatMarkdown(await this.collect(sessionIds));
+  }
+
+  private async collect(sessionIds?: string[]): Promise<ConversationExport['sessions']> {
+    const sessions = (await this.listSessions()).filter(session => !sessionIds || sessionIds.includes(session.id));
+    return Promise.all(sessions.map(async session => ({ ...session, messages: await this.getMessages(session.id) })));
+  }
+
+  /** Import a JSON export as new sessions; returns how many were added */
+  async importJson(text: string): Promise<number> {
+    return this.importSessions(parseJsonExport(text));
+  }
+
+  /** Import Markdown in the `exportMarkdown` layout; returns how many sessions were added */
+  async importMarkdown(text: string): Promise<number> {
+    return this.importSessions(parseMarkdown(text));
+  }
+
+  private async importSessions(sessions: ImportedSession[]): Promise<number> {
+    const db = await this.open();
+    const tx = db.transaction([SESSIONS, MESSAGES], 'readwrite');
+    sessions.forEach(({ title, createdAt, messages }) => {
+      const id = newId('session');
+      const updatedAt = messages.reduce((latest, m) => Math.max(latest, m.timestamp), createdAt);
+      tx.objectStore(SESSIONS).put({ id, title, createdAt, updatedAt } satisfies ChatSession);
+      messages.forEach(message => {
+        tx.objectStore(MESSAGES).put({ ...message, id: newId('msg'), sessionId: id } satisfies StoredMessage);
+      });
+    });
+    await idbDone(tx);
+    this.emit('change', { sessionId: null });
+    return sessions.length;
+  }
+}
+
+export const conversationStore = new ConversationStore();
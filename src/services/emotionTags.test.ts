@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeEmotion, normalizeGesture, parseEmotionTags } from './emotionTags';
+
+describe('normalizeEmotion / normalizeGesture', () => {
+  it('maps aliases onto known names, ignoring case and spaces', () => {
+    expect(normalizeEmotion(' Excited ')).toBe('happy');
+    expect(normalizeEmotion('shy')).toBe('embarrassed');
+    expect(normalizeGesture('WAVES')).toBe('wave');
+  });
+
+  it('returns null for unknown, empty and inherited property names', () => {
+    expect(normalizeEmotion('bored')).toBeNull();
+    expect(normalizeEmotion(undefined)).toBeNull();
+    expect(normalizeEmotion('constructor')).toBeNull();
+    expect(normalizeEmotion('__proto__')).toBeNull();
+    expect(normalizeGesture('toString')).toBeNull();
+    expect(normalizeGesture('hasOwnProperty')).toBeNull();
+  });
+});
+
+describe('parseEmotionTags', () => {
+  it('strips emotion and gesture tags and reports them in order', () => {
+    expect(parseEmotionTags('[happy] Hi there! [wave] [sad] Bye.')).toEqual({
+      text: 'Hi there! Bye.',
+      emotions: ['happy', 'sad'],
+      gestures: ['wave']
+    });
+  });
+
+  it('leaves unknown bracketed words, including prototype names, in the text', () => {
+    expect(parseEmotionTags('See [constructor] and [note]').text).toBe('See [constructor] and [note]');
+  });
+
+  it('hides a half-received tag only while streaming', () => {
+    expect(parseEmotionTags('Hello [hap', true).text).toBe('Hello');
+    expect(parseEmotionTags('Hello [hap').text).toBe('Hello [hap');
+  });
+});
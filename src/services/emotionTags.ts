@@ -0,0 +1,70 @@
+import { Emotion, AvatarGesture } from '../types';
+
+// Maps rather than object literals, so labels like 'constructor' don't match inherited keys
+const EMOTION_ALIASES = new Map<string, Emotion>(Object.entries({
+  neutral: 'neutral', calm: 'relaxed', relaxed: 'relaxed', content: 'relaxed',
+  happy: 'happy', joy: 'happy', excited: 'happy', smile: 'happy', laugh: 'happy', fun: 'happy',
+  sad: 'sad', sorrow: 'sad', upset: 'sad', disappointed: 'sad',
+  angry: 'angry', mad: 'angry', annoyed: 'angry', frustrated: 'angry',
+  surprised: 'surprised', shocked: 'surprised', amazed: 'surprised', wow: 'surprised',
+  thinking: 'thinking', curious: 'thinking', hmm: 'thinking', confused: 'thinking',
+  embarrassed: 'embarrassed', shy: 'embarrassed', blush: 'embarrassed', flustered: 'embarrassed'
+} satisfies Record<string, Emotion>));
+
+const GESTURE_ALIASES = new Map<string, AvatarGesture>(Object.entries({
+  wave: 'wave', waves: 'wave',
+  nod: 'nod', nods: 'nod',
+  shrug: 'shrug', shrugs: 'shrug'
+} satisfies Record<string, AvatarGesture>));
+
+const TAG_PATTERN = /\[([a-zA-Z_-]+)\]/g;
+const PARTIAL_TAG_PATTERN = /\[[a-zA-Z_-]*$/;
+
+/** Instruction appended to LLM prompts so replies carry parseable emotion tags */
+export const EMOTION_TAG_INSTRUCTION =
+  'You may prefix a sentence with one emotion tag in square brackets to show how you feel, ' +
+  'chosen from: [happy], [sad], [angry], [surprised], [thinking], [relaxed], [embarrassed], [neutral]. ' +
+  'You may also add a gesture tag where it fits: [wave], [nod] or [shrug]. ' +
+  'Do not use square brackets for anything else.';
+
+/** Map a free-form emotion label (from a server or a tag) onto a known emotion */
+export function normalizeEmotion(label: string | undefined): Emotion | null {
+  if (!label) return null;
+  return EMOTION_ALIASES.get(label.trim().toLowerCase()) ?? null;
+}
+
+export function normalizeGesture(label: string | undefined): AvatarGesture | null {
+  if (!label) return null;
+  return GESTURE_ALIASES.get(label.trim().toLowerCase()) ?? null;
+}
+
+/**
+ * Strip `[emotion]` and `[gesture]` tags out of reply text. Unknown bracketed
+ * words are left in place. With `streaming`, a half-received tag at the end
+ * is hidden too.
+ */
+export function parseEmotionTags(
+  text: string,
+  streaming = false
+): { text: string; emotions: Emotion[]; gestures: AvatarGesture[] } {
+  const emotions: Emotion[] = [];
+  const gestures: AvatarGesture[] = [];
+  let cleaned = text.replace(TAG_PATTERN, (match, label: string) => {
+    const emotion = normalizeEmotion(label);
+    const gesture = normalizeGesture(label);
+    if (emotion) {
+      emotions.push(emotion);
+    } else if (gesture) {
+      gestures.push(gesture);
+    } else {
+      return match;
+    }
+    return '';
+  });
+
+  if (streaming) {
+    cleaned = cleaned.replace(PARTIAL_TAG_PATTERN, '');
+  }
+
+  return { text: cleaned.replace(/[ \t]{2,}/g, ' ').trim(), emotions, gestures };
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TypedEventEmitter } from './eventEmitter';
+
+interface TestEventMap {
+  count: { n: number };
+  reset: Record<string, never>;
+}
+
+class TestEmitter extends TypedEventEmitter<TestEventMap> {
+  fire<K extends keyof TestEventMap>(event: K, data: TestEventMap[K]) {
+    this.emit(event, data);
+  }
+
+  clear() {
+    this.removeAllListeners();
+  }
+}
+
+describe('TypedEventEmitter', () => {
+  it('delivers each event only to its own listeners', () => {
+    const emitter = new TestEmitter();
+    const onCount = vi.fn();
+    const onReset = vi.fn();
+    emitter.on('count', onCount);
+    emitter.on('reset', onReset);
+
+    emitter.fire('count', { n: 1 });
+
+    expect(onCount).toHaveBeenCalledWith({ n: 1 });
+    expect(onReset).not.toHaveBeenCalled();
+  });
+
+  it('stops delivering after off() and removeAllListeners()', () => {
+    const emitter = new TestEmitter();
+    const first = vi.fn();
+    const second = vi.fn();
+    emitter.on('count', first);
+    emitter.on('count', second);
+
+    emitter.off('count', first);
+    emitter.fire('count', { n: 1 });
+    emitter.clear();
+    emitter.fire('count', { n: 2 });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,29 @@
+export type EventListener<EventMap, K extends keyof EventMap> = (data: EventMap[K]) => void;
+
+/**
+ * Listener plumbing shared by the services: `on`/`off` are public, `emit` is
+ * for the service itself. `EventMap` maps each event name to its payload.
+ */
+export class TypedEventEmitter<EventMap> {
+  // Each set only ever holds listeners for its own key, which is what makes the cast in emit() safe
+  private listeners: Map<keyof EventMap, Set<(data: never) => void>> = new Map();
+
+  on<K extends keyof EventMap>(event: K, callback: EventListener<EventMap, K>) {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(callback);
+  }
+
+  off<K extends keyof EventMap>(event: K, callback: EventListener<EventMap, K>) {
+    this.listeners.get(event)?.delete(callback);
+  }
+
+  protected emit<K extends keyof EventMap>(event: K, data: EventMap[K]) {
+    this.listeners.get(event)?.forEach(callback => (callback as EventListener<EventMap, K>)(data));
+  }
+
+  protected removeAllListeners() {
+    this.listeners.clear();
+  }
+}
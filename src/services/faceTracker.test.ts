@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FaceTrackerService } from './faceTracker';
+
+const model = vi.hoisted(() => ({
+  finishLoading: () => {},
+  createFromOptions: vi.fn()
+}));
+
+vi.mock('@mediapipe/tasks-vision', () => ({
+  FilesetResolver: { forVisionTasks: async () => ({}) },
+  FaceLandmarker: { createFromOptions: model.createFromOptions }
+}));
+
+const fakeVideo = (play: () => Promise<void>) => ({
+  play,
+  pause: vi.fn(),
+  removeAttribute: vi.fn(),
+  srcObject: null as unknown,
+  src: ''
+});
+
+describe('FaceTrackerService', () => {
+  let track: { stop: ReturnType<typeof vi.fn> };
+  let video: ReturnType<typeof fakeVideo>;
+
+  const useCamera = (play: () => Promise<void> = async () => {}) => {
+    track = { stop: vi.fn() };
+    video = fakeVideo(play);
+    vi.stubGlobal('navigator', {
+      mediaDevices: { getUserMedia: async () => ({ getTracks: () => [track] }) }
+    });
+    vi.stubGlobal('document', { createElement: () => video });
+  };
+
+  beforeEach(() => {
+    vi.stubGlobal('requestAnimationFrame', () => 0);
+    vi.stubGlobal('cancelAnimationFrame', () => {});
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    model.createFromOptions.mockReset();
+    model.createFromOptions.mockImplementation(
+      () => new Promise(resolve => { model.finishLoading = () => resolve({ detectForVideo: () => ({}) }); })
+    );
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('tracks once both the camera and the model are ready, and releases the camera on stop', async () => {
+    useCamera();
+    const tracker = new FaceTrackerService();
+
+    const starting = tracker.start();
+    await vi.waitFor(() => expect(model.createFromOptions).toHaveBeenCalled());
+    model.finishLoading();
+
+    expect(await starting).toBe(true);
+    expect(tracker.getState()).toBe('tracking');
+    expect(tracker.getVideo()).toBe(video);
+
+    tracker.stop();
+    expect(track.stop).toHaveBeenCalled();
+    expect(tracker.getVideo()).toBeNull();
+  });
+
+  it('closes the camera a run opened when it is stopped while the model loads', async () => {
+    useCamera();
+    const tracker = new FaceTrackerService();
+
+    const starting = tracker.start();
+    await vi.waitFor(() => expect(model.createFromOptions).toHaveBeenCalled());
+    tracker.stop();
+    model.finishLoading();
+
+    expect(await starting).toBe(false);
+    expect(track.stop).toHaveBeenCalled();
+    expect(tracker.getState()).toBe('off');
+    expect(tracker.getVideo()).toBeNull();
+  });
+
+  it('releases the camera and reports an error when the video will not play', async () => {
+    useCamera(() => Promise.reject(new Error('autoplay blocked')));
+    const tracker = new FaceTrackerService();
+    const states: string[] = [];
+    tracker.on('state', ({ state }) => states.push(state));
+
+    expect(await tracker.start()).toBe(false);
+
+    expect(track.stop).toHaveBeenCalled();
+    expect(states).toEqual(['loading', 'error']);
+  });
+});
@@ -0,0 +1,236 @@
+import type { FaceLandmarker } from '@mediapipe/tasks-vision';
+import { FacePose, facePoseFrom, smoothFacePose } from '../avatar/faceTracking';
+import { TypedEventEmitter } from './eventEmitter';
+
+/** off · loading: opening the camera or model · tracking: running · error: could not start */
+export type FaceTrackerState = 'off' | 'loading' | 'tracking' | 'error';
+
+/** Track the webcam, or a recorded video (URL or file) for testing without a camera */
+export type FaceTrackerSource = { kind: 'webcam' } | { kind: 'video'; url: string } | { kind: 'file'; file: File };
+
+export interface FaceTrackerEventMap {
+  state: { state: FaceTrackerState; message?: string };
+  /** Whether a face is in view, on change */
+  face: { found: boolean };
+}
+
+const MEDIAPIPE_VERSION = '0.10.17';
+
+// Both can be served locally (e.g. from public/) for offline use
+const WASM_URL = process.env.FACE_WASM_URL || `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${MEDIAPIPE_VERSION}/wasm`;
+const MODEL_URL = process.env.FACE_MODEL_URL ||
+  'https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task';
+
+/** A video being tracked and what has to be released with it */
+interface TrackedMedia {
+  video: HTMLVideoElement;
+  stream: MediaStream | null;
+  objectUrl: string | null;
+}
+
+function closeMedia({ video, stream, objectUrl }: TrackedMedia) {
+  video.pause();
+  video.srcObject = null;
+  video.removeAttribute('src');
+  stream?.getTracks().forEach(track => track.stop());
+  if (objectUrl) {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+const SMOOTHING = 0.5;
+// Without a detection for this long the face counts as gone and the avatar animates itself again
+const LOST_AFTER_MS = 500;
+
+/**
+ * VTuber-style face capture: MediaPipe's face landmarker runs in the browser
+ * (WASM on the CPU) over the webcam or a video file and produces the
+ * mirrored head rotation, eye direction, blinks and mouth opening that
+ * `Avatar3D` applies in place of its own gaze, blinking and mouth.
+ */
+export class FaceTrackerService extends TypedEventEmitter<FaceTrackerEventMap> {
+  private landmarker: FaceLandmarker | null = null;
+  private loading: Promise<FaceLandmarker> | null = null;
+  private media: TrackedMedia | null = null;
+  private frame = 0;
+  private lastVideoTime = -1;
+  private pose: FacePose | null = null;
+  private lastSeen = 0;
+  private state: FaceTrackerState = 'off';
+  private run = 0;
+
+  get isSupported(): boolean {
+    return typeof window !== 'undefined' && typeof WebAssembly !== 'undefined';
+  }
+
+  getState(): FaceTrackerState {
+    return this.state;
+  }
+
+  /** The video being tracked, for a preview */
+  getVideo(): HTMLVideoElement | null {
+    return this.media?.video ?? null;
+  }
+
+  /** Latest pose, or null when no face is in view */
+  getPose(): FacePose | null {
+    return this.pose && performance.now() - this.lastSeen < LOST_AFTER_MS ? this.pose : null;
+  }
+
+  /** Start tracking; resolves false when the camera, video or model could not be opened */
+  async start(source: FaceTrackerSource = { kind: 'webcam' }): Promise<boolean> {
+    this.stop();
+    const run = ++this.run;
+    this.setState('loading');
+
+    // The camera and model open in parallel; whatever a stopped or superseded run opened is closed again
+    const loading = this.loadLandmarker();
+    loading.catch(() => undefined);
+    let media: TrackedMedia | null = null;
+    try {
+      media = await this.openVideo(source);
+      if (run !== this.run) {
+        closeMedia(media);
+        return false;
+      }
+      const landmarker = await loading;
+      if (run !== this.run) {
+        closeMedia(media);
+        return false;
+      }
+      this.media = media;
+      this.loop(landmarker, run);
+      this.setState('tracking');
+      console.log(`FaceTracker: Tracking ${source.kind === 'webcam' ? 'the webcam' : 'a video'}`);
+      return true;
+    } catch (error) {
+      if (media) {
+        closeMedia(media);
+      }
+      if (run !== this.run) return false;
+      console.warn('FaceTracker: Could not start', error);
+      this.setState('error', error instanceof Error ? error.message : String(error));
+      return false;
+    }
+  }
+
+  stop() {
+    this.run++;
+    this.release();
+    if (this.state !== 'off') {
+      this.setState('off');
+    }
+  }
+
+  private release() {
+    cancelAnimationFrame(this.frame);
+    if (this.media) {
+      closeMedia(this.media);
+      this.media = null;
+    }
+    if (this.pose) {
+      this.pose = null;
+      this.emit('face', { found: false });
+    }
+    this.lastVideoTime = -1;
+  }
+
+  // The model is a few MB, so it is only fetched the first time tracking starts
+  private loadLandmarker(): Promise<FaceLandmarker> {
+    if (this.landmarker) return Promise.resolve(this.landmarker);
+    if (!this.loading) {
+      this.loading = (async () => {
+        const { FaceLandmarker, FilesetResolver } = await import('@mediapipe/tasks-vision');
+        const fileset = await FilesetResolver.forVisionTasks(WASM_URL);
+        const landmarker = await FaceLandmarker.createFromOptions(fileset, {
+          baseOptions: { modelAssetPath: MODEL_URL, delegate: 'CPU' },
+          runningMode: 'VIDEO',
+          numFaces: 1,
+          outputFaceBlendshapes: true,
+          outputFacialTransformationMatrixes: true
+        });
+        this.landmarker = landmarker;
+        return landmarker;
+      })();
+      this.loading.catch(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async openVideo(source: FaceTrackerSource): Promise<TrackedMedia> {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    const media: TrackedMedia = { video, stream: null, objectUrl: null };
+
+    if (source.kind === 'webcam') {
+      media.stream = await navigator.mediaDevices.getUserMedia({ video: { width: 640, height: 480, facingMode: 'user' } });
+      video.srcObject = media.stream;
+    } else {
+      // Recorded clips loop so a test can run as long as needed
+      video.loop = true;
+      video.crossOrigin = 'anonymous';
+      if (source.kind === 'file') {
+        media.objectUrl = URL.createObjectURL(source.file);
+        video.src = media.objectUrl;
+      } else {
+        video.src = source.url;
+      }
+    }
+
+    try {
+      await video.play();
+    } catch (error) {
+      closeMedia(media);
+      throw error;
+    }
+    return media;
+  }
+
+  private loop(landmarker: FaceLandmarker, run: number) {
+    const tick = () => {
+      if (run !== this.run) return;
+      const video = this.media?.video;
+      // Only new video frames are worth a detection
+      if (video && video.readyState >= 2 && video.currentTime !== this.lastVideoTime) {
+        this.lastVideoTime = video.currentTime;
+        this.detect(landmarker, video);
+      }
+      this.frame = requestAnimationFrame(tick);
+    };
+    this.frame = requestAnimationFrame(tick);
+  }
+
+  private detect(landmarker: FaceLandmarker, video: HTMLVideoElement) {
+    const now = performance.now();
+    try {
+      const result = landmarker.detectForVideo(video, now);
+      const blendshapes = result.faceBlendshapes?.[0]?.categories;
+      if (!blendshapes) {
+        if (this.pose && now - this.lastSeen >= LOST_AFTER_MS) {
+          this.pose = null;
+          this.emit('face', { found: false });
+        }
+        return;
+      }
+      const transform = result.facialTransformationMatrixes?.[0]?.data ?? null;
+      const found = !this.pose;
+      this.pose = smoothFacePose(this.pose, facePoseFrom(blendshapes, transform), SMOOTHING);
+      this.lastSeen = now;
+      if (found) {
+        this.emit('face', { found: true });
+      }
+    } catch (error) {
+      console.warn('FaceTracker: Detection failed', error);
+    }
+  }
+
+  private setState(state: FaceTrackerState, message?: string) {
+    this.state = state;
+    this.emit('state', { state, message });
+  }
+}
+
+export const faceTracker = new FaceTrackerService();
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ChatMessage } from '../types';
+import { GeminiChatService } from './gemini';
+
+const message = (role: ChatMessage['role'], content: string): ChatMessage => ({
+  id: `${role}-${content}`,
+  role,
+  content,
+  timestamp: 0
+});
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// One server-sent event in the shape of Gemini's streamGenerateContent?alt=sse
+const chunk = (text: string) =>
+  `data: ${JSON.stringify({ candidates: [{ content: { role: 'model', parts: [{ text }] }, index: 0 }] })}\r\n\r\n`;
+
+type Handler = (res: ServerResponse, req: IncomingMessage) => void | Promise<void>;
+
+/** Stands in for the Gemini streaming endpoint; each test sets how it answers */
+const stub = {
+  server: null as Server | null,
+  baseUrl: '',
+  handler: (async () => {}) as Handler,
+  requests: [] as { url: string; body: any }[],
+  // Resolves when the client hangs up on the current response
+  closed: Promise.resolve()
+};
+
+const streamResponse = (res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+};
+
+describe('GeminiChatService against a local stub server', () => {
+  beforeAll(async () => {
+    stub.server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', data => { raw += data; });
+      req.on('end', () => {
+        stub.requests.push({ url: req.url ?? '', body: JSON.parse(raw || '{}') });
+        stub.closed = new Promise(resolve => res.on('close', () => resolve()));
+        void stub.handler(res, req);
+      });
+    });
+    await new Promise<void>(resolve => stub.server!.listen(0, '127.0.0.1', resolve));
+    stub.baseUrl = `http://127.0.0.1:${(stub.server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    stub.server?.closeAllConnections();
+    await new Promise(resolve => stub.server?.close(resolve));
+  });
+
+  beforeEach(() => {
+    stub.requests = [];
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('streams the reply chunk by chunk from the configured base URL', async () => {
+    stub.handler = async res => {
+      streamResponse(res);
+      for (const text of ['Hel', 'lo', '!']) {
+        res.write(chunk(text));
+        await sleep(5);
+      }
+      res.end();
+    };
+    const service = new GeminiChatService('test-key', { baseUrl: stub.baseUrl, model: 'stub-model' });
+    const seen: string[] = [];
+
+    const result = await service.streamReply([message('user', 'Hi')], text => seen.push(text));
+
+    expect(seen).toEqual(['Hel', 'Hello', 'Hello!']);
+    expect(result).toMatchObject({ text: 'Hello!', cancelled: false });
+    expect(service.isStreaming).toBe(false);
+    expect(stub.requests[0].url).toContain('/models/stub-model:streamGenerateContent');
+  });
+
+  it('sends the history from the first user turn with Gemini roles and the generation settings', async () => {
+    stub.handler = res => {
+      streamResponse(res);
+      res.end(chunk('ok'));
+    };
+    const service = new GeminiChatService('test-key', { baseUrl: stub.baseUrl, temperature: 0.5 });
+
+    await service.streamReply(
+      [message('assistant', 'Greeting'), message('user', 'Hi'), message('assistant', 'Hey'), message('user', 'Again')],
+      () => {},
+      { maxOutputTokens: 64, systemInstruction: 'Be brief.' }
+    );
+
+    const { body } = stub.requests[0];
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'Hi' }] },
+      { role: 'model', parts: [{ text: 'Hey' }] },
+      { role: 'user', parts: [{ text: 'Again' }] }
+    ]);
+    expect(body.generationConfig).toMatchObject({ temperature: 0.5, maxOutputTokens: 64 });
+    expect(body.systemInstruction.parts[0].text).toBe('Be brief.');
+  });
+
+  it('measures latency to the first token, not to the end of the reply', async () => {
+    stub.handler = async res => {
+      streamResponse(res);
+      await sleep(60);
+      res.write(chunk('first'));
+      await sleep(120);
+      res.end(chunk(' last'));
+    };
+    const service = new GeminiChatService('test-key', { baseUrl: stub.baseUrl });
+
+    const startedAt = performance.now();
+    const result = await service.streamReply([message('user', 'Hi')], () => {});
+    const total = performance.now() - startedAt;
+
+    expect(result.text).toBe('first last');
+    expect(result.firstTokenLatency).toBeGreaterThanOrEqual(50);
+    expect(result.firstTokenLatency).toBeLessThanOrEqual(total - 100);
+  });
+
+  it('aborts the HTTP stream on cancel and resolves with the text so far', async () => {
+    stub.handler = res => {
+      streamResponse(res);
+      // The rest of the reply never comes; only the abort can end this request
+      res.write(chunk('partial'));
+    };
+    const service = new GeminiChatService('test-key', { baseUrl: stub.baseUrl });
+
+    const result = await service.streamReply([message('user', 'Hi')], () => service.cancel());
+
+    expect(result).toMatchObject({ text: 'partial', cancelled: true });
+    expect(service.isStreaming).toBe(false);
+    await stub.closed;
+  });
+
+  it('rethrows server errors that were not cancellations', async () => {
+    stub.handler = res => {
+      res.writeHead(429, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: { code: 429, message: 'quota exceeded', status: 'RESOURCE_EXHAUSTED' } }));
+    };
+    const service = new GeminiChatService('test-key', { baseUrl: stub.baseUrl });
+
+    await expect(service.streamReply([message('user', 'Hi')], () => {})).rejects.toThrow(/quota/);
+    expect(service.isStreaming).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+import { GoogleGenAI, Content } from '@google/genai';
+import { ChatMessage } from '../types';
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+export interface GeminiChatOptions {
+  model?: string;
+  // Point at a local stub server to exercise streaming without network access
+  baseUrl?: string;
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+}
+
+export type GenerationOverrides = Pick<GeminiChatOptions, 'systemInstruction' | 'temperature' | 'maxOutputTokens'>;
+
+export interface StreamReplyResult {
+  text: string;
+  firstTokenLatency: number;
+  cancelled: boolean;
+}
+
+export class GeminiChatService {
+  private ai: GoogleGenAI;
+  private model: string;
+  private systemInstruction?: string;
+  private temperature?: number;
+  private maxOutputTokens?: number;
+  private abortController: AbortController | null = null;
+
+  constructor(apiKey: string, options: GeminiChatOptions = {}) {
+    this.model = options.model || DEFAULT_MODEL;
+    this.systemInstruction = options.systemInstruction;
+    this.temperature = options.temperature;
+    this.maxOutputTokens = options.maxOutputTokens;
+    this.ai = new GoogleGenAI({
+      apiKey,
+      httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined
+    });
+  }
+
+  private toContents(history: ChatMessage[]): Content[] {
+    // Gemini expects the conversation to open with a user turn, so the local greeting is dropped
+    const firstUser = history.findIndex(message => message.role === 'user');
+    return history.slice(Math.max(firstUser, 0)).map(message => ({
+      role: message.role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: message.content }]
+    }));
+  }
+
+  /** `overrides` replace the constructor's generation settings for this reply only */
+  async streamReply(
+    history: ChatMessage[],
+    onToken: (text: string) => void,
+    overrides: GenerationOverrides = {}
+  ): Promise<StreamReplyResult> {
+    this.cancel();
+    const controller = new AbortController();
+    this.abortController = controller;
+
+    const startTime = performance.now();
+    let firstTokenLatency = 0;
+    let text = '';
+
+    try {
+      const stream = await this.ai.models.generateContentStream({
+        model: this.model,
+        contents: this.toContents(history),
+        config: {
+          abortSignal: controller.signal,
+          systemInstruction: overrides.systemInstruction ?? this.systemInstruction,
+          temperature: overrides.temperature ?? this.temperature,
+          maxOutputTokens: overrides.maxOutputTokens ?? this.maxOutputTokens
+        }
+      });
+
+      for await (const chunk of stream) {
+        if (controller.signal.aborted) break;
+
+        const delta = chunk.text;
+        if (!delta) continue;
+
+        if (!firstTokenLatency) {
+          firstTokenLatency = Math.round(performance.now() - startTime);
+        }
+        text += delta;
+        onToken(text);
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        throw error;
+      }
+    } finally {
+      if (this.abortController === controller) {
+        this.abortController = null;
+      }
+    }
+
+    return { text, firstTokenLatency, cancelled: controller.signal.aborted };
+  }
+
+  cancel() {
+    if (this.abortController) {
+      console.log('GeminiChatService: Cancelling in-flight stream');
+      this.abortController.abort();
+      this.abortController = null;
+    }
+  }
+
+  get isStreaming(): boolean {
+    return this.abortController !== null;
+  }
+}
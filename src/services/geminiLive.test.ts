@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { LiveCallbacks, LiveConnectConfig, LiveServerMessage } from '@google/genai';
+import { GeminiLiveService, GeminiLiveTransport, GeminiLiveEventMap } from './geminiLive';
+
+/** Connector that hands back a recording transport and keeps the callbacks so tests can play the server */
+const mockConnector = () => {
+  const transport = {
+    sendClientContent: vi.fn(),
+    sendRealtimeInput: vi.fn(),
+    sendToolResponse: vi.fn(),
+    close: vi.fn()
+  } satisfies GeminiLiveTransport;
+  const session: { config?: LiveConnectConfig; callbacks?: LiveCallbacks } = {};
+  const connector = vi.fn(async (config: LiveConnectConfig, callbacks: LiveCallbacks) => {
+    session.config = config;
+    session.callbacks = callbacks;
+    return transport;
+  });
+  const receive = (message: Partial<LiveServerMessage>) => session.callbacks!.onmessage(message as LiveServerMessage);
+  return { connector, transport, session, receive };
+};
+
+const record = <K extends keyof GeminiLiveEventMap>(service: GeminiLiveService, event: K) => {
+  const seen: GeminiLiveEventMap[K][] = [];
+  service.on(event, data => seen.push(data));
+  return seen;
+};
+
+describe('GeminiLiveService', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('opens an audio session with the avatar tools and the persona settings', async () => {
+    const { connector, session } = mockConnector();
+    const service = new GeminiLiveService(connector);
+    const connection = record(service, 'connection');
+
+    await service.connect({ systemInstruction: 'Be YUMI', temperature: 0.7, voice: 'Kore' });
+
+    expect(service.isConnected).toBe(true);
+    expect(connection.map(c => c.status)).toEqual(['connecting', 'connected']);
+    expect(session.config).toMatchObject({
+      systemInstruction: 'Be YUMI',
+      temperature: 0.7,
+      speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+    });
+    expect(session.config!.tools).toEqual([{
+      functionDeclarations: [expect.objectContaining({ name: 'set_emotion' }), expect.objectContaining({ name: 'play_gesture' })]
+    }]);
+  });
+
+  it('shares one session between overlapping connects', async () => {
+    const { connector } = mockConnector();
+    const service = new GeminiLiveService(connector);
+
+    await Promise.all([service.connect(), service.connect()]);
+
+    expect(connector).toHaveBeenCalledTimes(1);
+  });
+
+  it('turns server messages into speaking, audio, transcript and turn events', async () => {
+    const { connector, receive } = mockConnector();
+    const service = new GeminiLiveService(connector);
+    await service.connect();
+    const speaking = record(service, 'speaking');
+    const audio = record(service, 'audio');
+    const output = record(service, 'outputTranscript');
+    const turns = record(service, 'turnComplete');
+
+    service.sendText('Hi');
+    receive({ serverContent: { inputTranscription: { text: 'Hi' } } });
+    const audioPart = { inlineData: { data: 'AAAA', mimeType: 'audio/pcm;rate=16000' } };
+    receive({ serverContent: { modelTurn: { parts: [audioPart] }, outputTranscription: { text: 'Hello ' } } });
+    receive({ serverContent: { modelTurn: { parts: [audioPart] }, outputTranscription: { text: 'there' } } });
+    receive({ serverContent: { turnComplete: true } });
+
+    expect(speaking).toHaveLength(1);
+    expect(audio).toEqual([{ data: 'AAAA', sampleRate: 16000 }, { data: 'AAAA', sampleRate: 16000 }]);
+    expect(output.map(o => o.text)).toEqual(['Hello', 'Hello there']);
+    expect(turns).toEqual([{ userText: 'Hi', text: 'Hello there', interrupted: false }]);
+  });
+
+  it('emits avatar tool calls and answers every call', async () => {
+    const { connector, transport, receive } = mockConnector();
+    const service = new GeminiLiveService(connector);
+    await service.connect();
+    const emotions = record(service, 'emotion');
+    const gestures = record(service, 'gesture');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    receive({
+      toolCall: {
+        functionCalls: [
+          { id: '1', name: 'set_emotion', args: { emotion: 'happy' } },
+          { id: '2', name: 'play_gesture', args: { gesture: 'wave' } },
+          { id: '3', name: 'order_pizza', args: {} }
+        ]
+      }
+    });
+
+    expect(emotions).toEqual([{ emotion: 'happy' }]);
+    expect(gestures).toEqual([{ gesture: 'wave' }]);
+    const responses = transport.sendToolResponse.mock.calls[0][0].functionResponses;
+    expect(responses.map((r: { id?: string }) => r.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('closes a session that finishes opening after disconnect', async () => {
+    const { transport, session } = mockConnector();
+    let finishOpening = () => {};
+    const connector = vi.fn((_config: LiveConnectConfig, callbacks: LiveCallbacks) => {
+      session.callbacks = callbacks;
+      return new Promise<GeminiLiveTransport>(resolve => { finishOpening = () => resolve(transport); });
+    });
+    const service = new GeminiLiveService(connector);
+    const connection = record(service, 'connection');
+
+    const connecting = service.connect();
+    service.disconnect();
+    finishOpening();
+    await connecting;
+    session.callbacks!.onclose!({ code: 1000, reason: '' } as CloseEvent);
+
+    expect(transport.close).toHaveBeenCalled();
+    expect(service.isConnected).toBe(false);
+    expect(connection.map(c => c.status)).toEqual(['connecting', 'disconnected']);
+  });
+
+  it('sends nothing without a session', () => {
+    const { connector } = mockConnector();
+    const service = new GeminiLiveService(connector);
+
+    expect(service.sendText('Hi')).toBe(false);
+    expect(service.sendAudioChunk('AAAA', 16000)).toBe(false);
+  });
+});
@@ -0,0 +1,320 @@
+import {
+  GoogleGenAI,
+  Modality,
+  Type,
+  FunctionCall,
+  FunctionDeclaration,
+  LiveCallbacks,
+  LiveConnectConfig,
+  LiveServerMessage,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters
+} from '@google/genai';
+import { pcmToBase64 } from './audioCapture';
+import type { SpeechSink } from './speechInput';
+import { TypedEventEmitter } from './eventEmitter';
+
+const DEFAULT_LIVE_MODEL = 'gemini-live-2.5-flash-preview';
+const INPUT_MIME_TYPE = 'audio/pcm;rate=';
+const OUTPUT_SAMPLE_RATE = 24000;
+
+/**
+ * The part of a Live session the service talks to. The SDK's `Session`
+ * satisfies it; tests can hand back anything with the same shape.
+ */
+export interface GeminiLiveTransport {
+  sendClientContent(params: LiveSendClientContentParameters): void;
+  sendRealtimeInput(params: LiveSendRealtimeInputParameters): void;
+  sendToolResponse(params: LiveSendToolResponseParameters): void;
+  close(): void;
+}
+
+/** Opens a transport; resolves once the socket is open */
+export type GeminiLiveConnector = (config: LiveConnectConfig, callbacks: LiveCallbacks) => Promise<GeminiLiveTransport>;
+
+/** Speech sink that streams mic utterances into the Live session */
+export function createGeminiLiveSpeechSink(service: GeminiLiveService): SpeechSink {
+  return {
+    open: () => undefined,
+    begin: () => undefined,
+    chunk: (chunk) => service.sendAudioChunk(pcmToBase64(chunk.pcm), chunk.sampleRate),
+    end: () => service.endAudio()
+  };
+}
+
+export interface GeminiLiveConnectorOptions {
+  model?: string;
+  /**
+   * Point the session at another host, e.g. `http://localhost:9000` for a
+   * local mock; the SDK derives the WebSocket URL from it.
+   */
+  baseUrl?: string;
+}
+
+/** Connector backed by `@google/genai` */
+export function createGeminiLiveConnector(apiKey: string, options: GeminiLiveConnectorOptions = {}): GeminiLiveConnector {
+  const ai = new GoogleGenAI({
+    apiKey,
+    httpOptions: options.baseUrl ? { baseUrl: options.baseUrl } : undefined
+  });
+  const model = options.model || DEFAULT_LIVE_MODEL;
+  return (config, callbacks) => ai.live.connect({ model, config, callbacks });
+}
+
+export interface GeminiLiveSessionOptions {
+  systemInstruction?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  /** Prebuilt voice name, e.g. "Kore" */
+  voice?: string;
+}
+
+export interface GeminiLiveEventMap {
+  connection: { status: 'connecting' | 'connected' | 'disconnected'; reason?: string };
+  /** First audio of a reply; `latency` is measured from the end of the user's turn */
+  speaking: { latency: number | null };
+  /** Base64 PCM16 mono */
+  audio: { data: string; sampleRate: number };
+  /** What the user has said so far this turn */
+  inputTranscript: { text: string };
+  /** What YUMI has said so far this turn */
+  outputTranscript: { text: string };
+  emotion: { emotion: string };
+  gesture: { gesture: string };
+  /** The user talked over the reply; queued audio should be dropped */
+  interrupted: Record<string, never>;
+  turnComplete: { userText: string; text: string; interrupted: boolean };
+  error: { message: string };
+}
+
+// Emotions and gestures arrive as tool calls, since the spoken reply can't carry tags
+const AVATAR_TOOLS: FunctionDeclaration[] = [
+  {
+    name: 'set_emotion',
+    description: 'Show an emotion on your avatar face. Call it whenever your mood changes while talking.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        emotion: {
+          type: Type.STRING,
+          enum: ['neutral', 'happy', 'sad', 'angry', 'surprised', 'thinking', 'relaxed', 'embarrassed']
+        }
+      },
+      required: ['emotion']
+    }
+  },
+  {
+    name: 'play_gesture',
+    description: 'Play a body gesture on your avatar where it fits the conversation.',
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        gesture: { type: Type.STRING, enum: ['wave', 'nod', 'shrug'] }
+      },
+      required: ['gesture']
+    }
+  }
+];
+
+const parseSampleRate = (mimeType: string | undefined) => {
+  const match = mimeType?.match(/rate=(\d+)/);
+  return match ? Number(match[1]) : OUTPUT_SAMPLE_RATE;
+};
+
+/**
+ * Realtime voice conversation over the Gemini Live API: mic audio in, speech
+ * audio and transcripts out. Mirrors the Riko service's event style so Live
+ * mode can drive the avatar from either backend.
+ */
+export class GeminiLiveService extends TypedEventEmitter<GeminiLiveEventMap> {
+  private transport: GeminiLiveTransport | null = null;
+  private connecting: Promise<void> | null = null;
+  private inputText = '';
+  private outputText = '';
+  private replyStarted = false;
+  private interrupted = false;
+  private turnEndedAt: number | null = null;
+  // Bumped on disconnect so a session that opens late, or closes late, is ignored
+  private generation = 0;
+
+  constructor(private connector: GeminiLiveConnector) {
+    super();
+  }
+
+  /** Swap how sessions are opened, e.g. for a mock; takes effect on the next connect */
+  setConnector(connector: GeminiLiveConnector) {
+    this.connector = connector;
+  }
+
+  async connect(options: GeminiLiveSessionOptions = {}) {
+    if (this.transport) return;
+    if (!this.connecting) {
+      const connecting = this.open(options).finally(() => {
+        if (this.connecting === connecting) this.connecting = null;
+      });
+      this.connecting = connecting;
+    }
+    await this.connecting;
+  }
+
+  private async open(options: GeminiLiveSessionOptions) {
+    const generation = this.generation;
+    this.emit('connection', { status: 'connecting' });
+    const config: LiveConnectConfig = {
+      responseModalities: [Modality.AUDIO],
+      systemInstruction: options.systemInstruction,
+      temperature: options.temperature,
+      maxOutputTokens: options.maxOutputTokens,
+      inputAudioTranscription: {},
+      outputAudioTranscription: {},
+      tools: [{ functionDeclarations: AVATAR_TOOLS }],
+      speechConfig: options.voice
+        ? { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice } } }
+        : undefined
+    };
+
+    try {
+      const transport = await this.connector(config, {
+        onmessage: this.handleMessage,
+        onerror: (event) => {
+          if (generation !== this.generation) return;
+          console.error('GeminiLive: Socket error', event);
+          this.emit('error', { message: event.message || 'Gemini Live socket error' });
+        },
+        onclose: (event) => {
+          if (generation !== this.generation) return;
+          console.log('GeminiLive: Session closed', event.code, event.reason);
+          this.transport = null;
+          this.resetTurn();
+          this.emit('connection', { status: 'disconnected', reason: event.reason || undefined });
+        }
+      });
+      if (generation !== this.generation) {
+        transport.close();
+        return;
+      }
+      this.transport = transport;
+      console.log('GeminiLive: Session open');
+      this.emit('connection', { status: 'connected' });
+    } catch (error) {
+      if (generation !== this.generation) return;
+      console.error('GeminiLive: Failed to open session', error);
+      this.emit('connection', { status: 'disconnected', reason: error instanceof Error ? error.message : String(error) });
+      throw error;
+    }
+  }
+
+  /** Close the session, or abandon one that is still opening */
+  disconnect() {
+    if (!this.transport && !this.connecting) return;
+    this.generation++;
+    // A connect() right after this must open a new session, not wait on the abandoned one
+    this.connecting = null;
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close();
+    this.resetTurn();
+    this.emit('connection', { status: 'disconnected' });
+  }
+
+  get isConnected(): boolean {
+    return this.transport !== null;
+  }
+
+  /** Send a typed message as a complete user turn */
+  sendText(text: string): boolean {
+    if (!this.transport) return false;
+    this.transport.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+    this.turnEndedAt = performance.now();
+    return true;
+  }
+
+  /** Stream one PCM16 chunk of microphone audio; Gemini finds the turn boundaries itself */
+  sendAudioChunk(data: string, sampleRate: number): boolean {
+    if (!this.transport) return false;
+    this.transport.sendRealtimeInput({ audio: { data, mimeType: `${INPUT_MIME_TYPE}${sampleRate}` } });
+    return true;
+  }
+
+  /** The mic paused; lets the server close the user's turn without waiting for silence */
+  endAudio() {
+    if (!this.transport) return;
+    this.transport.sendRealtimeInput({ audioStreamEnd: true });
+    this.turnEndedAt = performance.now();
+  }
+
+  private handleMessage = (message: LiveServerMessage) => {
+    if (message.toolCall?.functionCalls?.length) {
+      this.handleToolCalls(message.toolCall.functionCalls);
+    }
+
+    const content = message.serverContent;
+    if (!content) return;
+
+    if (content.inputTranscription?.text) {
+      this.inputText += content.inputTranscription.text;
+      this.emit('inputTranscript', { text: this.inputText.trim() });
+    }
+
+    if (content.interrupted) {
+      this.interrupted = true;
+      this.emit('interrupted', {});
+    }
+
+    for (const part of content.modelTurn?.parts ?? []) {
+      const data = part.inlineData?.data;
+      if (!data || !part.inlineData?.mimeType?.startsWith('audio/')) continue;
+      if (!this.replyStarted) {
+        this.replyStarted = true;
+        const latency = this.turnEndedAt === null ? null : Math.round(performance.now() - this.turnEndedAt);
+        this.emit('speaking', { latency });
+      }
+      this.emit('audio', { data, sampleRate: parseSampleRate(part.inlineData.mimeType) });
+    }
+
+    if (content.outputTranscription?.text) {
+      this.outputText += content.outputTranscription.text;
+      this.emit('outputTranscript', { text: this.outputText.trim() });
+    }
+
+    if (content.turnComplete) {
+      this.emit('turnComplete', {
+        userText: this.inputText.trim(),
+        text: this.outputText.trim(),
+        interrupted: this.interrupted
+      });
+      this.resetTurn();
+    }
+  };
+
+  private handleToolCalls(calls: FunctionCall[]) {
+    for (const call of calls) {
+      const args = (call.args ?? {}) as Record<string, unknown>;
+      if (call.name === 'set_emotion' && typeof args.emotion === 'string') {
+        this.emit('emotion', { emotion: args.emotion });
+      } else if (call.name === 'play_gesture' && typeof args.gesture === 'string') {
+        this.emit('gesture', { gesture: args.gesture });
+      } else {
+        console.warn('GeminiLive: Ignoring unknown tool call', call.name);
+      }
+    }
+    // The model waits for a response to every call before it carries on
+    this.transport?.sendToolResponse({
+      functionResponses: calls.map(call => ({ id: call.id, name: call.name, response: { output: 'ok' } }))
+    });
+  }
+
+  private resetTurn() {
+    this.inputText = '';
+    this.outputText = '';
+    this.replyStarted = false;
+    this.interrupted = false;
+    this.turnEndedAt = null;
+  }
+}
+
+export const geminiLive = new GeminiLiveService(createGeminiLiveConnector(process.env.API_KEY || '', {
+  model: process.env.GEMINI_LIVE_MODEL,
+  baseUrl: process.env.GEMINI_LIVE_BASE_URL
+}));
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { extractMemories, tokenize, buildMemoryPrompt } from './memoryStore';
+
+const contents = (text: string) => extractMemories(text).map(memory => memory.content);
+
+describe('extractMemories', () => {
+  it('picks up names, preferences and facts from self-statements', () => {
+    expect(contents("Hi! My name is sam. I really love the synthwave albums of the 80s. I'm 29 years old.")).toEqual([
+      "User's name is Sam",
+      'Likes synthwave albums of the 80s',
+      'Is 29 years old'
+    ]);
+    expect(contents('I live in Osaka, and I work as a nurse')).toEqual(['Lives in Osaka', 'Works as nurse']);
+  });
+
+  it('keys preferences by their object so a later statement replaces an earlier one', () => {
+    const [memory] = extractMemories("I don't like horror movies");
+    expect(memory).toEqual({ kind: 'preference', key: 'preference:horror movies', content: 'Dislikes horror movies' });
+    expect(extractMemories('My favourite colour is teal')[0].key).toBe('favourite:colour');
+  });
+
+  it('keeps only the last statement of each kind within one message', () => {
+    expect(contents('Call me Ann. Actually, my name is Beth.')).toEqual(["User's name is Beth"]);
+  });
+
+  it('ignores vague or unrelated statements', () => {
+    expect(extractMemories('I like it')).toEqual([]);
+    expect(extractMemories('Do you like rain?')).toEqual([]);
+    expect(extractMemories('')).toEqual([]);
+  });
+
+  it('trims long objects to their first few words', () => {
+    expect(contents('I enjoy long walks on the beach at sunset with my dog')).toEqual(['Likes long walks on the beach at']);
+  });
+});
+
+describe('tokenize', () => {
+  it('drops stopwords and short words and strips a plural s from longer words', () => {
+    expect(tokenize('The user LIKES cats and puppies, really!')).toEqual(['cats', 'puppie']);
+    expect(tokenize('classes classes')).toEqual(['classe']);
+    expect(tokenize('glass')).toEqual(['glass']);
+  });
+});
+
+describe('buildMemoryPrompt', () => {
+  it('lists memories, or returns nothing when there are none', () => {
+    expect(buildMemoryPrompt([])).toBe('');
+    expect(buildMemoryPrompt(['Likes tea'])).toMatch(/\n- Likes tea$/);
+  });
+});
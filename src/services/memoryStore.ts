@@ -0,0 +1,286 @@
+import { Memory, MemoryKind } from '../types';
+import { openDatabase, idbRequest, idbDone } from './idb';
+import { TypedEventEmitter } from './eventEmitter';
+
+const DB_NAME = 'yumi-memory';
+const MEMORIES = 'memories';
+// How many memories ride along with each request
+const RECALL_LIMIT = 5;
+// Longest object kept from "I like …" style statements
+const MAX_OBJECT_WORDS = 6;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'are', 'but', 'not', 'you', 'your', 'all', 'any', 'can', 'had', 'her', 'was', 'one',
+  'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'now', 'she', 'that', 'this', 'with',
+  'what', 'when', 'where', 'which', 'who', 'why', 'will', 'would', 'could', 'should', 'about', 'there',
+  'their', 'them', 'they', 'then', 'than', 'been', 'from', 'into', 'just', 'like', 'really', 'very',
+  'some', 'more', 'most', 'also', 'does', 'did', 'doing', 'user', 'likes', 'dislikes', 'yumi'
+]);
+
+// Objects that point back at the conversation rather than at a real preference
+const VAGUE_OBJECTS = new Set(['it', 'that', 'this', 'you', 'them', 'those', 'these', 'him', 'her']);
+
+interface Extracted {
+  kind: MemoryKind;
+  key: string;
+  content: string;
+}
+
+export interface MemoryStoreEventMap {
+  change: { count: number };
+}
+
+const newId = () => `memory-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Lowercased index terms with stopwords dropped and plurals folded */
+export function tokenize(text: string): string[] {
+  const terms = text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !STOPWORDS.has(word))
+    .map(word => (word.length > 4 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+  return [...new Set(terms)];
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/** Trim a captured clause to its first few words, or null if it says nothing concrete */
+const cleanObject = (raw: string): string | null => {
+  const words = raw.trim().replace(/^(?:the|a|an)\s+/i, '').split(/\s+/).slice(0, MAX_OBJECT_WORDS);
+  const object = words.join(' ').replace(/['"]+$/, '');
+  if (!object || VAGUE_OBJECTS.has(words[0].toLowerCase())) return null;
+  return object;
+};
+
+// Each rule maps one kind of self-statement to a memory
+const RULES: Array<{ pattern: RegExp; build: (match: RegExpMatchArray) => Extracted | null }> = [
+  {
+    pattern: /\b(?:my name is|my name's|call me|i'm called|i am called)\s+([a-z][a-z'-]*)/i,
+    build: (m) => ({ kind: 'name', key: 'name', content: `User's name is ${capitalize(m[1])}` })
+  },
+  {
+    pattern: /\bi (?:really |absolutely )?(?:don't like|do not like|hate|dislike|can't stand|cannot stand)\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const object = cleanObject(m[1]);
+      return object ? { kind: 'preference', key: `preference:${object.toLowerCase()}`, content: `Dislikes ${object}` } : null;
+    }
+  },
+  {
+    pattern: /\bi (?:really |absolutely )?(?:like|love|enjoy|adore|prefer)\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const object = cleanObject(m[1]);
+      return object ? { kind: 'preference', key: `preference:${object.toLowerCase()}`, content: `Likes ${object}` } : null;
+    }
+  },
+  {
+    pattern: /\bmy (?:favou?rite)\s+([a-z ]+?)\s+is\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const object = cleanObject(m[2]);
+      return object ? { kind: 'preference', key: `favourite:${m[1].toLowerCase()}`, content: `Favourite ${m[1]} is ${object}` } : null;
+    }
+  },
+  {
+    pattern: /\bi (?:live in|moved to)\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const place = cleanObject(m[1]);
+      return place ? { kind: 'fact', key: 'home', content: `Lives in ${place}` } : null;
+    }
+  },
+  {
+    pattern: /\bi(?:'m| am) from\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const place = cleanObject(m[1]);
+      return place ? { kind: 'fact', key: 'origin', content: `Is from ${place}` } : null;
+    }
+  },
+  {
+    pattern: /\bi work (as|at|for)\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const work = cleanObject(m[2]);
+      return work ? { kind: 'fact', key: `work:${m[1].toLowerCase()}`, content: `Works ${m[1].toLowerCase()} ${work}` } : null;
+    }
+  },
+  {
+    pattern: /\bi(?:'m| am) (\d{1,3}) years? old\b/i,
+    build: (m) => ({ kind: 'fact', key: 'age', content: `Is ${m[1]} years old` })
+  },
+  {
+    pattern: /\bmy birthday is\s+([^.,!?;]+)/i,
+    build: (m) => ({ kind: 'fact', key: 'birthday', content: `Birthday is ${m[1].trim()}` })
+  },
+  {
+    pattern: /\b(?:let's talk about|tell me about|what do you think (?:about|of)|i'm interested in|i am interested in)\s+([^.,!?;]+)/i,
+    build: (m) => {
+      const topic = cleanObject(m[1]);
+      return topic ? { kind: 'topic', key: `topic:${topic.toLowerCase()}`, content: `Talked about ${topic}` } : null;
+    }
+  }
+];
+
+/** Pull facts about the user out of something they said */
+export function extractMemories(text: string): Extracted[] {
+  const found = new Map<string, Extracted>();
+  for (const sentence of text.split(/(?<=[.!?])\s+|\n+/)) {
+    for (const rule of RULES) {
+      const match = sentence.match(rule.pattern);
+      const memory = match ? rule.build(match) : null;
+      if (memory) found.set(memory.key, memory);
+    }
+  }
+  return [...found.values()];
+}
+
+/** Instruction text listing what YUMI remembers, for prompt injection */
+export function buildMemoryPrompt(memories: string[]): string {
+  if (!memories.length) return '';
+  return `Things you remember about the user from earlier conversations (use them naturally, don't recite them):\n${memories.map(m => `- ${m}`).join('\n')}`;
+}
+
+/**
+ * Long-term memory in IndexedDB. Facts are extracted from what the user says
+ * with simple patterns, indexed by keyword, and the most relevant few are
+ * recalled for each new message so both Gemini and Riko can use them.
+ */
+export class MemoryStore extends TypedEventEmitter<MemoryStoreEventMap> {
+  private db: Promise<IDBDatabase> | null = null;
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = openDatabase(DB_NAME, 1, (db) => {
+        const memories = db.createObjectStore(MEMORIES, { keyPath: 'id' });
+        memories.createIndex('key', 'key', { unique: true });
+      });
+    }
+    return this.db;
+  }
+
+  async list(): Promise<Memory[]> {
+    const db = await this.open();
+    const memories = await idbRequest<Memory[]>(db.transaction(MEMORIES).objectStore(MEMORIES).getAll());
+    return memories.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /** Store a memory, replacing any existing one with the same key */
+  async remember(kind: MemoryKind, key: string, content: string, source: Memory['source']): Promise<Memory> {
+    const db = await this.open();
+    const tx = db.transaction(MEMORIES, 'readwrite');
+    const store = tx.objectStore(MEMORIES);
+    const existing = await idbRequest<Memory | undefined>(store.index('key').get(key));
+    const now = Date.now();
+    const memory: Memory = {
+      id: existing?.id ?? newId(),
+      kind,
+      key,
+      content,
+      keywords: tokenize(content),
+      source,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now
+    };
+    store.put(memory);
+    await idbDone(tx);
+    this.emitChange();
+    return memory;
+  }
+
+  /** Extract and store whatever the message reveals about the user */
+  async learnFrom(text: string, source: 'chat' | 'live'): Promise<Memory[]> {
+    const learned: Memory[] = [];
+    for (const { kind, key, content } of extractMemories(text)) {
+      learned.push(await this.remember(kind, key, content, source));
+    }
+    if (learned.length) {
+      console.log('MemoryStore: Learned', learned.map(m => m.content));
+    }
+    return learned;
+  }
+
+  /** Add a memory typed in by the user; manual memories never collide with extracted ones */
+  add(kind: MemoryKind, content: string): Promise<Memory> {
+    return this.remember(kind, `manual:${newId()}`, content.trim(), 'manual');
+  }
+
+  async update(id: string, content: string) {
+    const db = await this.open();
+    const tx = db.transaction(MEMORIES, 'readwrite');
+    const store = tx.objectStore(MEMORIES);
+    const memory = await idbRequest<Memory | undefined>(store.get(id));
+    if (!memory) throw new Error(`Unknown memory ${id}`);
+    store.put({ ...memory, content, keywords: tokenize(content), updatedAt: Date.now() });
+    await idbDone(tx);
+    this.emitChange();
+  }
+
+  async remove(id: string) {
+    const db = await this.open();
+    const tx = db.transaction(MEMORIES, 'readwrite');
+    tx.objectStore(MEMORIES).delete(id);
+    await idbDone(tx);
+    this.emitChange();
+  }
+
+  async clear() {
+    const db = await this.open();
+    const tx = db.transaction(MEMORIES, 'readwrite');
+    tx.objectStore(MEMORIES).clear();
+    await idbDone(tx);
+    this.emitChange();
+  }
+
+  /**
+   * The memories most relevant to a message. Keyword overlap is weighted by
+   * how rare each term is across all memories, with a small boost for recent
+   * ones; the user's name is always included.
+   */
+  async recall(query: string, limit = RECALL_LIMIT): Promise<Memory[]> {
+    const memories = await this.list();
+    if (!memories.length) return [];
+
+    const documentFrequency = new Map<string, number>();
+    for (const memory of memories) {
+      for (const keyword of memory.keywords) {
+        documentFrequency.set(keyword, (documentFrequency.get(keyword) ?? 0) + 1);
+      }
+    }
+
+    const terms = tokenize(query);
+    const newest = memories[0].updatedAt;
+    const scored = memories.map(memory => {
+      const keywords = new Set(memory.keywords);
+      let score = 0;
+      for (const term of terms) {
+        if (keywords.has(term)) {
+          score += Math.log(1 + memories.length / documentFrequency.get(term)!);
+        }
+      }
+      // Recent memories win ties; a day-old memory loses about half the boost
+      const ageDays = (newest - memory.updatedAt) / 86_400_000;
+      const recency = 0.1 / (1 + ageDays);
+      return { memory, score: memory.kind === 'name' ? Infinity : score > 0 ? score + recency : 0 };
+    });
+
+    return scored
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map(entry => entry.memory);
+  }
+
+  /** Recalled memory text for a request; never throws so a broken store can't block a reply */
+  async contextFor(query: string): Promise<string[]> {
+    try {
+      return (await this.recall(query)).map(memory => memory.content);
+    } catch (error) {
+      console.warn('MemoryStore: Recall failed', error);
+      return [];
+    }
+  }
+
+  private async emitChange() {
+    const db = await this.open();
+    const count = await idbRequest<number>(db.transaction(MEMORIES).objectStore(MEMORIES).count());
+    this.emit('change', { count });
+  }
+}
+
+export const memoryStore = new MemoryStore();
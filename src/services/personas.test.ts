@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { DEFAULT_PERSONA, MIN_MAX_TOKENS, PersonaStore, buildSystemPrompt, normalizePersona } from './personas';
+
+const stored = vi.hoisted(() => {
+  const values: Record<string, string> = {};
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values[key] ?? null,
+    setItem: (key: string, value: string) => { values[key] = value; }
+  });
+  return values;
+});
+
+describe('normalizePersona', () => {
+  it('raises max tokens to the minimum and rounds them', () => {
+    expect(normalizePersona({ ...DEFAULT_PERSONA, maxTokens: 3 }).maxTokens).toBe(MIN_MAX_TOKENS);
+    expect(normalizePersona({ ...DEFAULT_PERSONA, maxTokens: 200.6 }).maxTokens).toBe(201);
+  });
+
+  it('falls back to the defaults for blank or non-numeric settings', () => {
+    const persona = normalizePersona({ ...DEFAULT_PERSONA, maxTokens: NaN, temperature: NaN });
+    expect(persona.maxTokens).toBe(DEFAULT_PERSONA.maxTokens);
+    expect(persona.temperature).toBe(DEFAULT_PERSONA.temperature);
+    expect(normalizePersona({ ...DEFAULT_PERSONA, maxTokens: 0 }).maxTokens).toBe(DEFAULT_PERSONA.maxTokens);
+  });
+
+  it('keeps the temperature between 0 and 2', () => {
+    expect(normalizePersona({ ...DEFAULT_PERSONA, temperature: 5 }).temperature).toBe(2);
+    expect(normalizePersona({ ...DEFAULT_PERSONA, temperature: -1 }).temperature).toBe(0);
+  });
+});
+
+describe('PersonaStore', () => {
+  beforeEach(() => {
+    Object.keys(stored).forEach(key => delete stored[key]);
+  });
+
+  it('stores personas with their settings in range', () => {
+    const store = new PersonaStore();
+    const saved = store.save({ ...store.create(), maxTokens: 1 });
+
+    expect(saved.maxTokens).toBe(MIN_MAX_TOKENS);
+    expect(store.list().find(p => p.id === saved.id)?.maxTokens).toBe(MIN_MAX_TOKENS);
+  });
+
+  it('repairs personas saved before the settings were checked', () => {
+    stored['yumi.personas'] = JSON.stringify([{ ...DEFAULT_PERSONA, id: 'old', maxTokens: null }]);
+
+    const store = new PersonaStore();
+
+    expect(store.list().find(p => p.id === 'old')?.maxTokens).toBe(DEFAULT_PERSONA.maxTokens);
+    expect(store.list()[0].id).toBe(DEFAULT_PERSONA.id);
+  });
+});
+
+describe('buildSystemPrompt', () => {
+  it('includes the backstory, style and banned topics', () => {
+    const prompt = buildSystemPrompt({ ...DEFAULT_PERSONA, name: 'Aiko', bannedTopics: [' politics ', ''] });
+    expect(prompt.split('\n')[0]).toBe('You are Aiko.');
+    expect(prompt).toContain('Speaking style:');
+    expect(prompt).toContain('Never discuss these topics: politics.');
+  });
+});
@@ -0,0 +1,139 @@
+import { Persona, RikoPersona } from '../types';
+import { TypedEventEmitter } from './eventEmitter';
+
+const STORAGE_KEY = 'yumi.personas';
+const ACTIVE_KEY = 'yumi.persona.active';
+
+export const DEFAULT_PERSONA: Persona = {
+  id: 'default',
+  name: 'YUMI',
+  backstory: 'A cheerful virtual performer who streams from a neon-lit cyberpunk city and loves chatting with her audience.',
+  speakingStyle: 'Warm, playful and concise. Short sentences that sound natural when spoken aloud.',
+  greeting: 'Hello! I\'m YUMI AI. How can I help you today?',
+  bannedTopics: [],
+  temperature: 0.9,
+  maxTokens: 512
+};
+
+// Lowest reply length a persona may ask for; the editor input uses the same minimum
+export const MIN_MAX_TOKENS = 16;
+
+export interface PersonaStoreEventMap {
+  change: { active: Persona };
+}
+
+/** Compose the system prompt for a persona */
+export function buildSystemPrompt(persona: Persona): string {
+  const lines = [`You are ${persona.name}.`];
+  if (persona.backstory.trim()) lines.push(persona.backstory.trim());
+  if (persona.speakingStyle.trim()) lines.push(`Speaking style: ${persona.speakingStyle.trim()}`);
+  const banned = persona.bannedTopics.map(topic => topic.trim()).filter(Boolean);
+  if (banned.length) {
+    lines.push(`Never discuss these topics: ${banned.join(', ')}. If asked, politely change the subject while staying in character.`);
+  }
+  return lines.join('\n');
+}
+
+/** Bring the generation settings into range; a blank or non-numeric field falls back to the default */
+export function normalizePersona(persona: Persona): Persona {
+  const maxTokens = Number(persona.maxTokens);
+  const temperature = Number(persona.temperature);
+  return {
+    ...persona,
+    maxTokens: Number.isFinite(maxTokens) && maxTokens > 0
+      ? Math.max(MIN_MAX_TOKENS, Math.round(maxTokens))
+      : DEFAULT_PERSONA.maxTokens,
+    temperature: Number.isFinite(temperature) ? Math.min(2, Math.max(0, temperature)) : DEFAULT_PERSONA.temperature
+  };
+}
+
+export function toRikoPersona(persona: Persona): RikoPersona {
+  return {
+    name: persona.name,
+    systemPrompt: buildSystemPrompt(persona),
+    temperature: persona.temperature,
+    maxTokens: persona.maxTokens
+  };
+}
+
+/**
+ * Saved personas and which one is active, kept in localStorage. The default
+ * persona is always available and can be edited but not deleted.
+ */
+export class PersonaStore extends TypedEventEmitter<PersonaStoreEventMap> {
+  private personas: Persona[];
+  private activeId: string;
+
+  constructor() {
+    super();
+    this.personas = this.load();
+    const active = localStorage.getItem(ACTIVE_KEY);
+    this.activeId = active && this.personas.some(p => p.id === active) ? active : DEFAULT_PERSONA.id;
+  }
+
+  private load(): Persona[] {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      const stored: Persona[] = raw ? JSON.parse(raw) : [];
+      // Fill fields added since the persona was saved
+      const personas = stored.map(persona => normalizePersona({ ...DEFAULT_PERSONA, ...persona }));
+      return personas.some(p => p.id === DEFAULT_PERSONA.id) ? personas : [DEFAULT_PERSONA, ...personas];
+    } catch (error) {
+      console.warn('PersonaStore: Ignoring unreadable saved personas', error);
+      return [DEFAULT_PERSONA];
+    }
+  }
+
+  private persist() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.personas));
+    localStorage.setItem(ACTIVE_KEY, this.activeId);
+    this.emit('change', { active: this.getActive() });
+  }
+
+  list(): Persona[] {
+    return [...this.personas];
+  }
+
+  getActive(): Persona {
+    return this.personas.find(p => p.id === this.activeId) ?? DEFAULT_PERSONA;
+  }
+
+  setActive(id: string) {
+    if (!this.personas.some(p => p.id === id)) {
+      throw new Error(`Unknown persona ${id}`);
+    }
+    this.activeId = id;
+    this.persist();
+  }
+
+  /** Insert or replace a persona; returns it as stored, with its settings in range */
+  save(persona: Persona): Persona {
+    persona = normalizePersona(persona);
+    const index = this.personas.findIndex(p => p.id === persona.id);
+    if (index >= 0) {
+      this.personas[index] = persona;
+    } else {
+      this.personas.push(persona);
+    }
+    this.persist();
+    return persona;
+  }
+
+  /** A new unsaved persona, starting from the default */
+  create(): Persona {
+    return { ...DEFAULT_PERSONA, id: `persona-${Date.now().toString(36)}`, name: 'New Persona' };
+  }
+
+  remove(id: string) {
+    if (id === DEFAULT_PERSONA.id) {
+      throw new Error('The default persona cannot be deleted');
+    }
+    this.personas = this.personas.filter(p => p.id !== id);
+    if (this.activeId === id) {
+      this.activeId = DEFAULT_PERSONA.id;
+    }
+    this.persist();
+  }
+}
+
+export const personaStore = new PersonaStore();
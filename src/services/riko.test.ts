@@ -0,0 +1,422 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { DeliveryStatus, RikoClientFrame, RikoConnectionState } from '../types';
+import { DEFAULT_RIKO_CONFIG, RikoConfig } from './rikoConfig';
+import { RikoService } from './riko';
+
+const stored = vi.hoisted(() => {
+  const values: Record<string, string> = {};
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values[key] ?? null,
+    setItem: (key: string, value: string) => { values[key] = value; },
+    removeItem: (key: string) => { delete values[key]; }
+  });
+  return values;
+});
+
+class FakeWebSocket {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  createdAt = Date.now();
+  sent: RikoClientFrame[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: string }) => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(public url: string) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data));
+  }
+
+  close() {
+    if (this.readyState === FakeWebSocket.CLOSED) return;
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(frame: object) {
+    this.onmessage?.({ data: JSON.stringify(frame) });
+  }
+
+  /** Text messages handed to this socket, by request ID */
+  get sentTextIds(): string[] {
+    return this.sent.flatMap(frame => frame.type === 'text' ? [frame.id] : []);
+  }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1];
+
+/** Timestamp of the last heartbeat ping a socket was sent */
+const lastPing = (socket: FakeWebSocket) =>
+  socket.sent.flatMap(frame => frame.type === 'control' && frame.action === 'ping' ? [frame.timestamp] : []).pop();
+
+const testConfig = (fields: Partial<RikoConfig> = {}): RikoConfig => ({
+  ...DEFAULT_RIKO_CONFIG,
+  requestTimeoutMs: 5000,
+  heartbeatIntervalMs: 60000,
+  ...fields
+});
+
+/** A service whose socket has opened and finished the handshake */
+const connectedService = (fields: Partial<RikoConfig> = {}) => {
+  const service = new RikoService(testConfig(fields));
+  service.connect();
+  const socket = latestSocket();
+  socket.open();
+  socket.receive({ type: 'hello', version: 2 });
+  return { service, socket };
+};
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  Object.keys(stored).forEach(key => delete stored[key]);
+  FakeWebSocket.instances = [];
+  vi.stubGlobal('WebSocket', FakeWebSocket);
+  vi.stubGlobal('window', { addEventListener: () => {}, removeEventListener: () => {} });
+  vi.stubGlobal('document', { addEventListener: () => {}, removeEventListener: () => {}, visibilityState: 'visible' });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('fetch', vi.fn(async () => { throw new Error('offline'); }));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('RikoService requests', () => {
+  it('matches replies to their requests when they arrive out of order', async () => {
+    const { service, socket } = connectedService();
+
+    const first = service.sendMessage('first');
+    const second = service.sendMessage('second');
+    const [firstId, secondId] = socket.sentTextIds;
+
+    socket.receive({ type: 'text', text: 'Reply to ', requestId: secondId });
+    socket.receive({ type: 'text', text: 'second', requestId: secondId });
+    socket.receive({ type: 'speaking', requestId: secondId, emotion: 'happy' });
+    socket.receive({ type: 'speaking', text: 'Reply to first', requestId: firstId });
+
+    await expect(second).resolves.toEqual({ text: 'Reply to second', emotion: 'happy', audioUrl: undefined, transport: 'ws' });
+    await expect(first).resolves.toMatchObject({ text: 'Reply to first', transport: 'ws' });
+    expect(service.outboxSize).toBe(0);
+  });
+
+  it('ignores replies for requests it is not waiting on', async () => {
+    const { service, socket } = connectedService();
+
+    const reply = service.sendMessage('hello');
+    socket.receive({ type: 'speaking', text: 'Stray', requestId: 'someone-else' });
+    socket.receive({ type: 'speaking', text: 'Hi!', requestId: socket.sentTextIds[0] });
+
+    await expect(reply).resolves.toMatchObject({ text: 'Hi!' });
+  });
+
+  it("reports each request's reply text as its text frames arrive", async () => {
+    const { service, socket } = connectedService();
+    const first: string[] = [];
+    const second: string[] = [];
+
+    const reply = service.sendMessage('first', [], undefined, undefined, text => first.push(text));
+    service.sendMessage('second', [], undefined, undefined, text => second.push(text));
+    const [firstId] = socket.sentTextIds;
+    socket.receive({ type: 'text', text: 'Hel', requestId: firstId });
+    socket.receive({ type: 'text', text: 'lo', requestId: firstId });
+    socket.receive({ type: 'text', text: 'Hello!', final: true, requestId: firstId });
+    socket.receive({ type: 'speaking', requestId: firstId });
+
+    expect(first).toEqual(['Hel', 'Hello', 'Hello!']);
+    expect(second).toEqual([]);
+    await expect(reply).resolves.toMatchObject({ text: 'Hello!' });
+  });
+
+  it('times out only the request whose own timer ran out', async () => {
+    const { service, socket } = connectedService({ requestTimeoutMs: 5000 });
+    const statuses: DeliveryStatus[] = [];
+
+    const first = service.sendMessage('first', [], status => statuses.push(status));
+    const firstSettled = expect(first).rejects.toThrow(/timed out after 5000ms/);
+    vi.advanceTimersByTime(3000);
+    const second = service.sendMessage('second');
+    vi.advanceTimersByTime(2000);
+
+    await firstSettled;
+    expect(statuses).toEqual(['pending', 'sent', 'failed']);
+
+    socket.receive({ type: 'speaking', text: 'Still here', requestId: socket.sentTextIds[1] });
+    await expect(second).resolves.toMatchObject({ text: 'Still here' });
+  });
+
+  it('rejects a request the server reports an error for, leaving the others waiting', async () => {
+    const { service, socket } = connectedService();
+
+    const failing = service.sendMessage('bad');
+    const fine = service.sendMessage('good');
+    const [badId, goodId] = socket.sentTextIds;
+    socket.receive({ type: 'error', message: 'model overloaded', requestId: badId });
+
+    await expect(failing).rejects.toThrow('model overloaded');
+    socket.receive({ type: 'speaking', text: 'ok', requestId: goodId });
+    await expect(fine).resolves.toMatchObject({ text: 'ok' });
+  });
+
+  it('rejects every request still waiting when disconnected', async () => {
+    const { service, socket } = connectedService();
+
+    const sent = service.sendMessage('on the wire');
+    socket.close();
+    const queued = service.sendMessage('queued while down');
+    await Promise.resolve();
+
+    service.disconnect();
+
+    await expect(sent).rejects.toThrow('RikoService disconnected');
+    await expect(queued).rejects.toThrow('RikoService disconnected');
+    expect(service.outboxSize).toBe(0);
+    expect(service.connectionState).toBe('closed');
+  });
+
+  it('sends an unanswered message again after the socket reconnects, without starting its timeout while down', async () => {
+    // A long connect timeout keeps the reconnect attempt waiting for the server instead of giving up
+    const { service, socket } = connectedService({ requestTimeoutMs: 5000, connectTimeoutMs: 60000 });
+    const statuses: DeliveryStatus[] = [];
+
+    const reply = service.sendMessage('again', [], status => statuses.push(status));
+    const id = socket.sentTextIds[0];
+    socket.close();
+    expect(statuses).toEqual(['pending', 'sent', 'retry']);
+
+    // Far longer than the request timeout passes before the server is back
+    vi.advanceTimersByTime(20000);
+    const reopened = latestSocket();
+    expect(reopened).not.toBe(socket);
+    reopened.open();
+
+    expect(reopened.sentTextIds).toEqual([id]);
+    reopened.receive({ type: 'speaking', text: 'Back', requestId: id });
+    await expect(reply).resolves.toMatchObject({ text: 'Back' });
+  });
+
+  describe('with a message going over HTTP', () => {
+    let post: { resolve: (response: unknown) => void; reject: (error: Error) => void };
+    const fetchMock = () => vi.mocked(fetch);
+
+    beforeEach(() => {
+      vi.stubGlobal('fetch', vi.fn(() => new Promise((resolve, reject) => { post = { resolve, reject }; })));
+    });
+
+    /** Sends one message while the socket is down, then brings the socket up while its POST is still out */
+    const httpThenSocket = async () => {
+      const service = new RikoService(testConfig());
+      const overHttp = service.sendMessage('first');
+      const httpId = JSON.parse(fetchMock().mock.calls[0][1]!.body as string).id as string;
+
+      service.connect();
+      const socket = latestSocket();
+      socket.open();
+      socket.receive({ type: 'hello', version: 2 });
+      const queued = service.sendMessage('second');
+      return { service, socket, overHttp, httpId, queued };
+    };
+
+    it('holds newer messages until the POST settles', async () => {
+      const { socket } = await httpThenSocket();
+
+      expect(socket.sentTextIds).toEqual([]);
+    });
+
+    it('sends a message whose POST failed on the socket ahead of the messages queued behind it', async () => {
+      const { socket, httpId, queued } = await httpThenSocket();
+
+      post.reject(new Error('connection refused'));
+      await vi.waitFor(() => expect(socket.sentTextIds).toHaveLength(2));
+
+      expect(socket.sentTextIds[0]).toBe(httpId);
+      socket.receive({ type: 'speaking', text: 'second reply', requestId: socket.sentTextIds[1] });
+      await expect(queued).resolves.toMatchObject({ text: 'second reply' });
+    });
+
+    it('sends the queued messages once the POST is answered', async () => {
+      const { socket, overHttp, httpId } = await httpThenSocket();
+
+      post.resolve({ ok: true, json: async () => ({ text: 'via HTTP' }) });
+
+      await expect(overHttp).resolves.toEqual({ text: 'via HTTP', transport: 'http' });
+      expect(socket.sentTextIds).toHaveLength(1);
+      expect(socket.sentTextIds[0]).not.toBe(httpId);
+    });
+  });
+});
+
+describe('RikoService connection health', () => {
+  const statesOf = (service: RikoService) => {
+    const states: RikoConnectionState[] = [];
+    service.on('state', ({ state }) => states.push(state));
+    return states;
+  };
+
+  it('degrades after a missed pong and drops the socket after the second, then reconnects', () => {
+    const { service, socket } = connectedService({ heartbeatIntervalMs: 5000 });
+    const states = statesOf(service);
+
+    vi.advanceTimersByTime(5000);
+    expect(service.connectionState).toBe('degraded');
+    expect(socket.readyState).toBe(FakeWebSocket.OPEN);
+
+    vi.advanceTimersByTime(5000);
+    expect(socket.readyState).toBe(FakeWebSocket.CLOSED);
+    expect(states).toEqual(['degraded', 'reconnecting']);
+
+    vi.advanceTimersByTime(1000);
+    expect(latestSocket()).not.toBe(socket);
+  });
+
+  it('counts other frames as signs of life while a pong is late', () => {
+    const { service, socket } = connectedService({ heartbeatIntervalMs: 5000 });
+
+    vi.advanceTimersByTime(4000);
+    socket.receive({ type: 'ping', timestamp: Date.now() });
+    vi.advanceTimersByTime(1000);
+
+    expect(service.connectionState).toBe('open');
+  });
+
+  it('degrades on a slow pong and recovers on a prompt one', () => {
+    const { service, socket } = connectedService({ heartbeatIntervalMs: 5000 });
+    const rtts: number[] = [];
+    service.on('latency', ({ rtt }) => rtts.push(rtt));
+
+    const slow = lastPing(socket);
+    vi.advanceTimersByTime(1500);
+    socket.receive({ type: 'pong', timestamp: slow });
+    expect(service.connectionState).toBe('degraded');
+
+    vi.advanceTimersByTime(3500);
+    socket.receive({ type: 'pong', timestamp: lastPing(socket) });
+    expect(service.connectionState).toBe('open');
+    expect(rtts).toEqual([1500, 0]);
+  });
+
+  it('backs off exponentially without ever waiting longer than maxReconnectDelayMs', () => {
+    // The random half of each delay at its largest
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const { socket } = connectedService({ maxReconnectDelayMs: 4000, connectTimeoutMs: 100 });
+
+    socket.close();
+    vi.advanceTimersByTime(60000);
+
+    // Each failed attempt spends the connect timeout before waiting again
+    const delays = FakeWebSocket.instances.slice(1).map((attempt, index) =>
+      attempt.createdAt - FakeWebSocket.instances[index].createdAt - (index ? 100 : 0));
+    expect(delays.slice(0, 5)).toEqual([1000, 2000, 4000, 4000, 4000]);
+    expect(Math.max(...delays)).toBe(4000);
+  });
+
+  it('waits for the network instead of retrying while the browser is offline', () => {
+    const windowListeners = new Map<string, () => void>();
+    vi.stubGlobal('window', {
+      addEventListener: (type: string, listener: () => void) => windowListeners.set(type, listener),
+      removeEventListener: (type: string) => windowListeners.delete(type)
+    });
+    const { service, socket } = connectedService();
+
+    vi.stubGlobal('navigator', { onLine: false });
+    socket.close();
+    vi.advanceTimersByTime(60000);
+    expect(service.connectionState).toBe('failed');
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    vi.stubGlobal('navigator', { onLine: true });
+    windowListeners.get('online')?.();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    expect(service.connectionState).toBe('connecting');
+  });
+});
+
+describe('RikoService barge-in', () => {
+  const textsOf = (service: RikoService) => {
+    const texts: string[] = [];
+    service.on('text', frame => texts.push(frame.text));
+    return texts;
+  };
+
+  it('cancels the turn on the server and gives up on waiting requests', async () => {
+    const { service, socket } = connectedService();
+    const statuses: DeliveryStatus[] = [];
+    const reply = service.sendMessage('tell me a story', [], status => statuses.push(status));
+
+    service.interrupt();
+
+    expect(socket.sent[socket.sent.length - 1]).toMatchObject({ type: 'control', action: 'cancel' });
+    await expect(reply).resolves.toBeNull();
+    // The server had the message, so it stays "sent" rather than failed
+    expect(statuses).toEqual(['pending', 'sent']);
+    expect(service.outboxSize).toBe(0);
+  });
+
+  it("drops the interrupted turn's late frames, with or without a request ID, until the server goes idle", () => {
+    const { service, socket } = connectedService();
+    const texts = textsOf(service);
+    service.sendMessage('tell me a story');
+    const [storyId] = socket.sentTextIds;
+    socket.receive({ type: 'text', text: 'Once', requestId: storyId });
+
+    service.interrupt();
+    socket.receive({ type: 'text', text: ' upon', requestId: storyId });
+    socket.receive({ type: 'text', text: ' a time' });
+    socket.receive({ type: 'idle' });
+    socket.receive({ type: 'text', text: 'Unprompted' });
+    socket.receive({ type: 'text', text: ' the end', requestId: storyId });
+
+    expect(texts).toEqual(['Once', 'Unprompted']);
+  });
+
+  it('lets the next request through straight away, still dropping the interrupted one', async () => {
+    const { service, socket } = connectedService();
+    const texts = textsOf(service);
+    service.sendMessage('tell me a story');
+    service.interrupt();
+
+    const next = service.sendMessage('never mind');
+    const [storyId, nextId] = socket.sentTextIds;
+    socket.receive({ type: 'text', text: ' upon a time', requestId: storyId });
+    socket.receive({ type: 'text', text: 'Sure' });
+    socket.receive({ type: 'text', text: 'OK', requestId: nextId });
+    socket.receive({ type: 'speaking', requestId: nextId });
+
+    expect(texts).toEqual(['Sure', 'OK']);
+    await expect(next).resolves.toMatchObject({ text: 'OK' });
+  });
+
+  it('forgets the oldest interrupted requests once it has too many', () => {
+    const { service, socket } = connectedService();
+    const texts = textsOf(service);
+    for (let turn = 0; turn < 40; turn++) {
+      service.sendMessage(`turn ${turn}`);
+      service.interrupt();
+    }
+    socket.receive({ type: 'idle' });
+
+    const ids = socket.sentTextIds;
+    socket.receive({ type: 'text', text: 'oldest', requestId: ids[0] });
+    socket.receive({ type: 'text', text: 'newest', requestId: ids[ids.length - 1] });
+
+    expect(texts).toEqual(['oldest']);
+  });
+});
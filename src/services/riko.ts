@@ -1,30 +1,152 @@
-import { RikoMessage, RikoResponse } from '../types';
+import {
+  RikoResponse,
+  RikoServerFrame,
+  RikoClientFrame,
+  RikoControlAction,
+  RikoEventMap,
+  RikoPersona,
+  RikoConnectionState,
+  DeliveryStatus
+} from '../types';
+import { parseRikoFrame, isCompatibleServerVersion, RIKO_PROTOCOL_VERSION, RIKO_HEARTBEAT_VERSION } from './rikoProtocol';
+import { RikoConfig, loadRikoConfig, getRikoWebSocketUrl, getRikoHttpUrl, getRikoAuthHeaders } from './rikoConfig';
+import { RikoOutbox, OutboxEntry } from './rikoOutbox';
+import { TypedEventEmitter } from './eventEmitter';
 
-const RIKO_BASE_URL = 'http://localhost:5000';
+const RECONNECT_BASE_MS = 1000;
 
-export class RikoService {
+// Unanswered pings in a row before a silent socket is treated as half-open and dropped
+const HEARTBEAT_MAX_MISSES = 2;
+
+// Round trips slower than this mark the connection degraded
+const DEGRADED_RTT_MS = 1000;
+
+// Interrupted request IDs remembered so their late frames can be dropped
+const MAX_INTERRUPTED_IDS = 32;
+
+interface PendingRequest {
+  resolve: (response: RikoResponse | null) => void;
+  reject: (error: Error) => void;
+  // Started when the message goes out over the socket, so time spent queued does not count
+  timeout: ReturnType<typeof setTimeout> | null;
+  text: string;
+  emotion?: string;
+  audioUrl?: string;
+  onDelivery?: (status: DeliveryStatus) => void;
+  onText?: (text: string) => void;
+}
+
+export class RikoService extends TypedEventEmitter<RikoEventMap> {
   private ws: WebSocket | null = null;
-  private listeners: Map<string, Set<(data: any) => void>> = new Map();
+  private config: RikoConfig;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectTimer: ReturnType<typeof setTimeout> | null = null;
+  private shouldReconnect = false;
+  private serverVersion: number | null = null;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private requestCounter = 0;
+  private persona: RikoPersona | null = null;
+  private outbox = new RikoOutbox();
+  // Outbox entries whose HTTP POST has not settled; nothing queued after them goes out until it has
+  private httpInFlight: Set<string> = new Set();
+  private watchingNetwork = false;
+  private state: RikoConnectionState = 'closed';
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  // Timestamp of the ping still waiting for its pong
+  private pingSentAt: number | null = null;
+  private missedHeartbeats = 0;
+  private lastFrameAt = 0;
+  private rtt: number | null = null;
+  // The request whose reply is streaming in right now
+  private replyId: string | null = null;
+  private interruptedIds: Set<string> = new Set();
+  // After an interrupt, uncorrelated output frames belong to the dropped turn until the server goes idle
+  private discardOutput = false;
 
-  constructor() {
+  constructor(config: RikoConfig) {
+    super();
+    this.config = config;
+  }
+
+  /** Open the socket if it is not already open or connecting. Safe to call repeatedly. */
+  connect() {
+    this.shouldReconnect = true;
+    this.watchNetwork(true);
+    if (this.ws && (this.ws.readyState === WebSocket.OPEN || this.ws.readyState === WebSocket.CONNECTING)) {
+      return;
+    }
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
     this.initializeConnection();
   }
 
+  get connectionState(): RikoConnectionState {
+    return this.state;
+  }
+
+  /** Latest heartbeat round trip in milliseconds, or null before the first pong */
+  get roundTripMs(): number | null {
+    return this.rtt;
+  }
+
+  private setConnectionState(state: RikoConnectionState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('state', { state });
+  }
+
+  /** Apply new settings, reconnecting if a connection was active, wanted or refused for its server version. */
+  configure(config: RikoConfig) {
+    this.config = config;
+    if (this.shouldReconnect || this.state === 'failed') {
+      this.shouldReconnect = true;
+      console.log('RikoService: Settings changed, reconnecting');
+      this.closeSocket();
+      this.reconnectAttempts = 0;
+      this.initializeConnection();
+    }
+  }
+
+  getConfig(): RikoConfig {
+    return { ...this.config };
+  }
+
+  /** Character settings attached to every message from now on; null sends none */
+  setPersona(persona: RikoPersona | null) {
+    this.persona = persona;
+  }
+
   private initializeConnection() {
     console.log('RikoService: Attempting to connect to Riko server...');
-    
+    this.setConnectionState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+
     try {
-      this.ws = new WebSocket(`ws://localhost:5000/ws`);
+      const socket = new WebSocket(getRikoWebSocketUrl(this.config));
+      this.ws = socket;
+
+      this.connectTimer = setTimeout(() => {
+        if (socket.readyState === WebSocket.CONNECTING) {
+          console.warn(`RikoService: Connection timed out after ${this.config.connectTimeoutMs}ms`);
+          socket.close();
+        }
+      }, this.config.connectTimeoutMs);
       
-      this.ws.onopen = () => {
+      socket.onopen = () => {
+        if (this.ws !== socket) return;
         console.log('RikoService: WebSocket connection established');
+        this.clearConnectTimer();
         this.reconnectAttempts = 0;
+        this.lastFrameAt = Date.now();
+        this.send({ type: 'hello', version: RIKO_PROTOCOL_VERSION, client: 'yumi-web' });
+        this.setConnectionState('open');
         this.emit('connection', { status: 'connected' });
+        this.flushOutbox();
       };
       
-      this.ws.onmessage = (event) => {
+      socket.onmessage = (event) => {
+        if (this.ws !== socket) return;
+        this.lastFrameAt = Date.now();
         try {
           const data = JSON.parse(event.data);
           this.handleMessage(data);
@@ -33,87 +155,564 @@ export class RikoService {
         }
       };
       
-      this.ws.onerror = (error) => {
+      socket.onerror = (error) => {
         console.warn('RikoService: WebSocket error (Riko server may not be running)', error);
       };
       
-      this.ws.onclose = () => {
+      socket.onclose = () => {
+        // A socket replaced by configure() or dropped by the heartbeat must not trigger a second reconnect
+        if (this.ws !== socket) return;
         console.log('RikoService: WebSocket connection closed');
-        this.emit('connection', { status: 'disconnected' });
-        this.attemptReconnect();
+        this.ws = null;
+        this.handleSocketLost();
       };
     } catch (error) {
       console.warn('RikoService: Failed to initialize WebSocket connection', error);
+      this.setConnectionState('failed');
+      this.emit('connection', { status: 'disconnected' });
+    }
+  }
+
+  private handleSocketLost() {
+    this.clearConnectTimer();
+    this.stopHeartbeat();
+    this.requeueInFlight();
+    this.emit('connection', { status: 'disconnected' });
+    if (this.shouldReconnect) {
+      this.attemptReconnect();
+    } else {
+      this.setConnectionState('closed');
+    }
+  }
+
+  // Started once the server's hello shows it answers pings
+  private startHeartbeat() {
+    this.stopHeartbeat();
+    this.heartbeatTimer = setInterval(() => this.heartbeat(), this.config.heartbeatIntervalMs);
+    this.heartbeat();
+  }
+
+  private stopHeartbeat() {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.pingSentAt = null;
+    this.missedHeartbeats = 0;
+    this.rtt = null;
+  }
+
+  /**
+   * Ping the server. A ping still unanswered when the next one is due counts
+   * as a miss unless other frames arrived meanwhile (a busy server is still
+   * alive). Misses degrade the connection; enough of them mean the socket is
+   * half-open, and since the browser may never fire `close` for it, it is
+   * dropped here so reconnecting can start.
+   */
+  private heartbeat() {
+    const now = Date.now();
+    if (this.pingSentAt !== null && this.lastFrameAt <= this.pingSentAt) {
+      this.missedHeartbeats++;
+      if (this.missedHeartbeats >= HEARTBEAT_MAX_MISSES) {
+        console.warn(`RikoService: No answer to ${this.missedHeartbeats} heartbeats, dropping half-open socket`);
+        this.dropSocket();
+        return;
+      }
+      console.warn('RikoService: Heartbeat missed');
+      this.setConnectionState('degraded');
     }
+    this.pingSentAt = now;
+    this.send({ type: 'control', action: 'ping', timestamp: now });
   }
 
+  private handlePong(timestamp: number) {
+    if (timestamp !== this.pingSentAt) return;
+    this.pingSentAt = null;
+    this.missedHeartbeats = 0;
+    this.rtt = Date.now() - timestamp;
+    this.emit('latency', { rtt: this.rtt });
+    this.setConnectionState(this.rtt > DEGRADED_RTT_MS ? 'degraded' : 'open');
+  }
+
+  private dropSocket() {
+    const socket = this.ws;
+    if (!socket) return;
+    this.ws = null;
+    socket.close();
+    this.handleSocketLost();
+  }
+
+  private clearConnectTimer() {
+    if (this.connectTimer) {
+      clearTimeout(this.connectTimer);
+      this.connectTimer = null;
+    }
+  }
+
+  private clearReconnectTimer() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private closeSocket() {
+    this.clearConnectTimer();
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
+    if (this.ws) {
+      const socket = this.ws;
+      this.ws = null;
+      socket.close();
+      this.requeueInFlight();
+      this.emit('connection', { status: 'disconnected' });
+    }
+  }
+
+  /**
+   * Retry forever with exponential backoff capped at `maxReconnectDelayMs`.
+   * Half of each delay is random so many clients do not retry in lockstep.
+   * While the browser reports no network, wait for its `online` event instead.
+   */
   private attemptReconnect() {
-    if (this.reconnectAttempts < this.maxReconnectAttempts) {
-      this.reconnectAttempts++;
-      const delay = Math.min(1000 * Math.pow(2, this.reconnectAttempts), 30000);
-      console.log(`RikoService: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts})`);
-      
-      setTimeout(() => {
-        this.initializeConnection();
-      }, delay);
+    this.clearReconnectTimer();
+    if (!navigator.onLine) {
+      console.log('RikoService: Browser is offline, waiting for the network before reconnecting');
+      this.setConnectionState('failed');
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.setConnectionState('reconnecting');
+    const backoff = Math.min(RECONNECT_BASE_MS * 2 ** (this.reconnectAttempts - 1), this.config.maxReconnectDelayMs);
+    const delay = Math.round(backoff / 2 + Math.random() * (backoff / 2));
+    console.log(`RikoService: Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.initializeConnection();
+    }, delay);
+  }
+
+  // Skip the rest of the backoff when the server has likely become reachable again
+  private reconnectNow() {
+    if (!this.shouldReconnect || this.ws) return;
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.initializeConnection();
+  }
+
+  private watchNetwork(watch: boolean) {
+    if (watch === this.watchingNetwork) return;
+    this.watchingNetwork = watch;
+    if (watch) {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+      document.addEventListener('visibilitychange', this.handleVisibilityChange);
     } else {
-      console.warn('RikoService: Max reconnection attempts reached. Riko server appears to be offline.');
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    }
+  }
+
+  private handleOnline = () => {
+    console.log('RikoService: Network is back');
+    this.reconnectNow();
+  };
+
+  private handleOffline = () => {
+    console.log('RikoService: Network lost');
+    this.clearReconnectTimer();
+    if (this.shouldReconnect && !this.ws) {
+      this.setConnectionState('failed');
+    }
+  };
+
+  // Background tabs get their timers throttled, so a returning user should not wait out the backoff
+  private handleVisibilityChange = () => {
+    if (document.visibilityState === 'visible') {
+      this.reconnectNow();
+    }
+  };
+
+  private handleMessage(data: unknown) {
+    const msg: RikoServerFrame | null = parseRikoFrame(data);
+    if (!msg || this.isInterruptedOutput(msg)) return;
+
+    switch (msg.type) {
+      case 'hello': {
+        const compatible = isCompatibleServerVersion(msg.version);
+        this.serverVersion = msg.version;
+        this.emit('handshake', { serverVersion: msg.version, compatible });
+        if (!compatible) {
+          console.warn(`RikoService: Server protocol v${msg.version} is not supported (client v${RIKO_PROTOCOL_VERSION}), disconnecting`);
+          // Reconnecting would only reach the same server; wait for new settings or an explicit connect()
+          this.shouldReconnect = false;
+          this.closeSocket();
+          this.setConnectionState('failed');
+          break;
+        }
+        if (msg.version >= RIKO_HEARTBEAT_VERSION) {
+          this.startHeartbeat();
+        } else {
+          console.log(`RikoService: Server protocol v${msg.version} has no heartbeats, half-open sockets will go unnoticed`);
+        }
+        break;
+      }
+      case 'ping':
+        this.send({ type: 'control', action: 'pong', timestamp: msg.timestamp });
+        break;
+      case 'pong':
+        this.handlePong(msg.timestamp);
+        break;
+      case 'speaking':
+        this.replyId = msg.requestId ?? this.replyId;
+        this.settleRequest(msg.requestId, msg);
+        // The avatar is driven by whoever shows it, from this event (through the Riko backend in Live mode)
+        this.emit('speaking', msg);
+        break;
+      case 'listening':
+        this.emit('listening', msg);
+        break;
+      case 'idle':
+        this.replyId = null;
+        this.emit('idle', msg);
+        break;
+      case 'text':
+        this.replyId = msg.requestId ?? this.replyId;
+        this.updateRequest(msg.requestId, pending => {
+          pending.text = msg.final ? msg.text : pending.text + msg.text;
+          pending.onText?.(pending.text);
+        });
+        this.emit('text', msg);
+        break;
+      case 'audio':
+        this.emit('audio', msg);
+        break;
+      case 'emotion':
+        this.updateRequest(msg.requestId, pending => { pending.emotion = msg.emotion; });
+        this.emit('emotion', msg);
+        break;
+      case 'gesture':
+        this.emit('gesture', msg);
+        break;
+      case 'viseme':
+        this.emit('viseme', msg);
+        break;
+      case 'transcript':
+        this.emit('transcript', msg);
+        break;
+      case 'error':
+        console.warn('RikoService: Server reported an error', msg.message);
+        if (msg.requestId) {
+          this.rejectRequest(msg.requestId, new Error(msg.message));
+        }
+        this.emit('error', msg);
+        break;
     }
   }
 
-  private handleMessage(data: any) {
-    const msg: RikoMessage = data;
-    
-    if (msg.type === 'speaking') {
-      this.emit('speaking', msg);
-      this.triggerMouthAnimation(msg.duration || 2000);
-    } else if (msg.type === 'listening') {
-      this.emit('listening', msg);
-    } else if (msg.type === 'idle') {
-      this.emit('idle', msg);
-      this.triggerMouthAnimation(0);
+  /** True for output that belongs to a turn the user interrupted */
+  private isInterruptedOutput(msg: RikoServerFrame): boolean {
+    switch (msg.type) {
+      case 'idle':
+      case 'listening':
+        this.discardOutput = false;
+        return false;
+      case 'speaking':
+      case 'text':
+      case 'audio':
+      case 'emotion':
+      case 'gesture':
+      case 'viseme': {
+        const requestId = 'requestId' in msg ? msg.requestId : undefined;
+        if (!requestId) return this.discardOutput;
+        if (this.interruptedIds.has(requestId)) return true;
+        // Output for a request that was not interrupted means a new turn has begun
+        this.discardOutput = false;
+        return false;
+      }
+      default:
+        return false;
+    }
+  }
+
+  private updateRequest(requestId: string | undefined, update: (pending: PendingRequest) => void) {
+    const pending = requestId ? this.pendingRequests.get(requestId) : undefined;
+    if (pending) update(pending);
+  }
+
+  private settleRequest(requestId: string | undefined, frame: RikoEventMap['speaking']) {
+    if (!requestId) return;
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      console.warn('RikoService: Reply for unknown or expired request', requestId);
+      return;
     }
+
+    this.forget(requestId, pending);
+    pending.resolve({
+      text: frame.text ?? pending.text,
+      emotion: frame.emotion ?? pending.emotion,
+      audioUrl: frame.audioUrl ?? pending.audioUrl,
+      transport: 'ws'
+    });
+  }
+
+  private rejectRequest(requestId: string, error: Error) {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return;
+    this.forget(requestId, pending);
+    pending.onDelivery?.('failed');
+    pending.reject(error);
+  }
+
+  // The request is done one way or another: stop its timer and take it out of the outbox
+  private forget(requestId: string, pending: PendingRequest) {
+    if (pending.timeout) {
+      clearTimeout(pending.timeout);
+    }
+    this.pendingRequests.delete(requestId);
+    this.outbox.remove(requestId);
+    this.httpInFlight.delete(requestId);
+  }
+
+  private setDelivery(requestId: string, status: DeliveryStatus) {
+    this.outbox.update(requestId, { status });
+    this.pendingRequests.get(requestId)?.onDelivery?.(status);
+  }
+
+  /**
+   * Send queued messages in the order they were written. Stops at a message
+   * still going over HTTP: if that POST fails it goes out on the socket, and
+   * the messages behind it must follow it.
+   */
+  private flushOutbox() {
+    const blocked = this.outbox.list().findIndex(entry => this.httpInFlight.has(entry.id));
+    const queued = this.outbox.list()
+      .slice(0, blocked === -1 ? undefined : blocked)
+      .filter(entry => entry.status !== 'sent');
+    if (!queued.length) return;
+    console.log(`RikoService: Sending ${queued.length} queued message(s)`);
+    for (const entry of queued) {
+      if (!this.transmit(entry)) break;
+    }
+  }
+
+  private transmit(entry: OutboxEntry): boolean {
+    this.discardOutput = false;
+    const sent = this.send({
+      type: 'text',
+      id: entry.id,
+      content: entry.content,
+      timestamp: entry.createdAt,
+      persona: entry.persona,
+      memories: entry.memories,
+      author: entry.author
+    });
+    if (!sent) return false;
+
+    const pending = this.pendingRequests.get(entry.id);
+    if (!pending) {
+      // Left over from an earlier page load: nobody awaits it, so its reply is only acted out
+      this.outbox.remove(entry.id);
+      return true;
+    }
+
+    this.outbox.update(entry.id, { attempts: entry.attempts + 1 });
+    this.setDelivery(entry.id, 'sent');
+    pending.timeout = setTimeout(() => {
+      this.rejectRequest(entry.id, new Error(`Riko request ${entry.id} timed out after ${this.config.requestTimeoutMs}ms`));
+    }, this.config.requestTimeoutMs);
+    return true;
+  }
+
+  // Messages the socket took but never answered go out again after reconnecting; callers keep waiting
+  private requeueInFlight() {
+    this.pendingRequests.forEach((pending, id) => {
+      if (!pending.timeout) return;
+      clearTimeout(pending.timeout);
+      pending.timeout = null;
+      this.setDelivery(id, 'retry');
+    });
+  }
+
+  private async deliverOverHttp(entry: OutboxEntry) {
+    this.httpInFlight.add(entry.id);
+    this.outbox.update(entry.id, { attempts: entry.attempts + 1 });
+    this.setDelivery(entry.id, 'sent');
+    const response = await this.sendHTTPMessage(entry.content, entry.id, entry.memories ?? [], entry.author);
+    this.httpInFlight.delete(entry.id);
+
+    const pending = this.pendingRequests.get(entry.id);
+    if (pending && response) {
+      this.forget(entry.id, pending);
+      pending.resolve({ ...response, transport: 'http' });
+    } else if (pending) {
+      console.warn('RikoService: HTTP failed, message queued for the socket', entry.id);
+      this.setDelivery(entry.id, 'retry');
+    }
+    // Messages held back behind this one go now if the socket came back meanwhile (this one first if it failed)
+    if (this.isConnected) {
+      this.flushOutbox();
+    }
+  }
+
+  /** Fail every waiting caller; with `keepUnsent`, messages not yet sent stay in the outbox for the next connect */
+  private rejectAllPending(error: Error, keepUnsent = false) {
+    Array.from(this.pendingRequests.entries()).forEach(([id, pending]) => {
+      const entry = this.outbox.get(id);
+      if (!keepUnsent || !entry || entry.status === 'sent') {
+        this.rejectRequest(id, error);
+        return;
+      }
+      if (pending.timeout) {
+        clearTimeout(pending.timeout);
+      }
+      this.pendingRequests.delete(id);
+      pending.reject(error);
+    });
+  }
+
+  private nextRequestId(): string {
+    this.requestCounter++;
+    return `${Date.now().toString(36)}-${this.requestCounter}`;
+  }
+
+  private send(frame: RikoClientFrame): boolean {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) return false;
+    this.ws.send(JSON.stringify(frame));
+    return true;
   }
 
-  async sendMessage(message: string): Promise<RikoResponse | null> {
+  /**
+   * Send a text message and wait for the reply correlated to it.
+   *
+   * The message goes through a durable outbox: when the socket is down it is
+   * tried once over HTTP (unless older messages are still queued, to keep
+   * order) and otherwise waits for the socket to come back, surviving page
+   * reloads. If the socket drops before a reply, the message is sent again on
+   * reconnect. `onDelivery` follows the message through pending/sent/retry/
+   * failed. Rejects on timeout or a server error frame for this request;
+   * resolves null if cancelled. `memories` are recalled facts about the user
+   * for the server to add to the prompt; `author` names the stream viewer
+   * who wrote the message. `onText` gets the reply text so far each time a
+   * `text` frame for this request adds to it.
+   */
+  async sendMessage(
+    message: string,
+    memories: string[] = [],
+    onDelivery?: (status: DeliveryStatus) => void,
+    author?: string,
+    onText?: (text: string) => void
+  ): Promise<RikoResponse | null> {
     console.log('RikoService: Sending message to Riko:', message);
-    
-    if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const payload = {
-        type: 'text',
-        content: message,
-        timestamp: Date.now()
-      };
-      
-      this.ws.send(JSON.stringify(payload));
-      
-      return new Promise((resolve) => {
-        const timeout = setTimeout(() => {
-          resolve(null);
-        }, 10000);
-        
-        const handleResponse = (data: any) => {
-          clearTimeout(timeout);
-          this.off('speaking', handleResponse);
-          resolve({ text: data.text || '', emotion: 'neutral' });
-        };
-        
-        this.on('speaking', handleResponse);
-      });
-    } else {
-      console.warn('RikoService: WebSocket not connected, falling back to HTTP');
-      return this.sendHTTPMessage(message);
+    const entry: OutboxEntry = {
+      id: this.nextRequestId(),
+      content: message,
+      persona: this.persona ?? undefined,
+      memories: memories.length ? memories : undefined,
+      author,
+      createdAt: Date.now(),
+      attempts: 0,
+      status: 'pending'
+    };
+    const queueWasEmpty = this.outbox.size === 0;
+    this.outbox.add(entry);
+
+    return new Promise((resolve, reject) => {
+      this.pendingRequests.set(entry.id, { resolve, reject, timeout: null, text: '', onDelivery, onText });
+      onDelivery?.('pending');
+
+      if (this.isConnected && !this.httpInFlight.size) {
+        this.transmit(entry);
+      } else if (this.isConnected) {
+        console.log('RikoService: Queued behind a message still going over HTTP', entry.id);
+      } else if (queueWasEmpty) {
+        console.warn('RikoService: WebSocket not connected, trying HTTP');
+        this.deliverOverHttp(entry);
+      } else {
+        console.log('RikoService: Queued behind earlier messages until the connection is back', entry.id);
+      }
+    });
+  }
+
+  /** Give up on every message still awaiting a reply; their callers get null */
+  cancelPending() {
+    if (Array.from(this.pendingRequests.values()).some(pending => pending.timeout)) {
+      this.sendControl('cancel');
     }
+    this.dropPending();
   }
 
-  private async sendHTTPMessage(message: string): Promise<RikoResponse | null> {
+  /**
+   * Barge-in: tell the server to stop the current turn, give up on waiting
+   * requests and drop the turn's frames that are still on their way.
+   */
+  interrupt() {
+    const ids = [...this.pendingRequests.keys(), ...(this.replyId ? [this.replyId] : [])];
+    ids.forEach(id => this.interruptedIds.add(id));
+    while (this.interruptedIds.size > MAX_INTERRUPTED_IDS) {
+      this.interruptedIds.delete(this.interruptedIds.values().next().value!);
+    }
+    this.replyId = null;
+    this.discardOutput = true;
+    this.sendControl('cancel');
+    this.dropPending();
+  }
+
+  private dropPending() {
+    Array.from(this.pendingRequests.keys()).forEach(id => {
+      const pending = this.pendingRequests.get(id)!;
+      // Messages the server already has stay "sent"; only undelivered ones failed
+      if (!pending.timeout) {
+        pending.onDelivery?.('failed');
+      }
+      this.forget(id, pending);
+      pending.resolve(null);
+    });
+  }
+
+  /** Number of messages queued or awaiting a reply */
+  get outboxSize(): number {
+    return this.outbox.size;
+  }
+
+  /** Send over HTTP even when the socket is open; resolves null on failure */
+  sendHttpMessage(message: string, memories: string[] = [], author?: string): Promise<RikoResponse | null> {
+    return this.sendHTTPMessage(message, this.nextRequestId(), memories, author);
+  }
+
+  /** Stream one PCM16 chunk of microphone audio; dropped when the socket is not open */
+  sendAudioChunk(data: string, sampleRate: number, seq: number): boolean {
+    return this.send({ type: 'audio', data, format: 'pcm16', sampleRate, seq });
+  }
+
+  sendControl(action: RikoControlAction): boolean {
+    return this.send({ type: 'control', action, timestamp: Date.now() });
+  }
+
+  get isConnected(): boolean {
+    return this.ws !== null && this.ws.readyState === WebSocket.OPEN;
+  }
+
+  private async sendHTTPMessage(message: string, id: string, memories: string[], author?: string): Promise<RikoResponse | null> {
     try {
-      const response = await fetch(`${RIKO_BASE_URL}/chat`, {
+      const response = await fetch(getRikoHttpUrl(this.config, '/chat'), {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...getRikoAuthHeaders(this.config),
         },
-        body: JSON.stringify({ message, timestamp: Date.now() }),
+        body: JSON.stringify({
+          id,
+          message,
+          timestamp: Date.now(),
+          persona: this.persona ?? undefined,
+          memories: memories.length ? memories : undefined,
+          author
+        }),
       });
       
       if (!response.ok) {
@@ -128,40 +727,29 @@ export class RikoService {
     }
   }
 
-  triggerMouthAnimation(duration: number) {
-    if (typeof (window as any).__triggerMouthAnimation === 'function') {
-      (window as any).__triggerMouthAnimation(duration);
-    }
-  }
-
-  on(event: string, callback: (data: any) => void) {
-    if (!this.listeners.has(event)) {
-      this.listeners.set(event, new Set());
-    }
-    this.listeners.get(event)!.add(callback);
+  get protocolVersion(): number | null {
+    return this.serverVersion;
   }
 
-  off(event: string, callback: (data: any) => void) {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.delete(callback);
-    }
-  }
-
-  private emit(event: string, data: any) {
-    const eventListeners = this.listeners.get(event);
-    if (eventListeners) {
-      eventListeners.forEach(callback => callback(data));
-    }
+  /** Close the socket and stop reconnecting, keeping listeners so connect() can pick up again */
+  suspend() {
+    this.shouldReconnect = false;
+    this.watchNetwork(false);
+    // Suspending is routine (leaving Live mode, switching backends), so queued messages survive it
+    this.rejectAllPending(new Error('RikoService suspended'), true);
+    this.closeSocket();
+    this.setConnectionState('closed');
   }
 
   disconnect() {
-    if (this.ws) {
-      this.ws.close();
-      this.ws = null;
-    }
-    this.listeners.clear();
+    this.shouldReconnect = false;
+    this.watchNetwork(false);
+    this.rejectAllPending(new Error('RikoService disconnected'));
+    this.closeSocket();
+    this.setConnectionState('closed');
+    this.removeAllListeners();
   }
 }
 
-export const rikoService = new RikoService();
+// Created idle; components call connect() when they need the server
+export const rikoService = new RikoService(loadRikoConfig());
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_RIKO_CONFIG,
+  RikoConfig,
+  getRikoHttpUrl,
+  getRikoWebSocketUrl,
+  loadRikoConfig,
+  normalizeRikoConfig,
+  saveRikoConfig,
+  validateRikoConfig
+} from './rikoConfig';
+
+const config = (fields: Partial<RikoConfig>): RikoConfig => ({ ...DEFAULT_RIKO_CONFIG, ...fields });
+
+describe('Riko URLs', () => {
+  it('keeps the base path of a server behind a proxy prefix', () => {
+    const proxied = config({ baseUrl: 'https://proxy.example.com/riko/', wsPath: '/ws' });
+    expect(getRikoWebSocketUrl(proxied)).toBe('wss://proxy.example.com/riko/ws');
+    expect(getRikoHttpUrl(proxied, '/chat')).toBe('https://proxy.example.com/riko/chat');
+  });
+
+  it('joins paths with or without slashes on either side', () => {
+    expect(getRikoHttpUrl(config({ baseUrl: 'http://localhost:5000' }), 'chat')).toBe('http://localhost:5000/chat');
+    expect(getRikoHttpUrl(config({ baseUrl: 'http://localhost:5000/api' }), '/chat')).toBe('http://localhost:5000/api/chat');
+  });
+
+  it('keeps a query in the WebSocket path and adds the token', () => {
+    const url = getRikoWebSocketUrl(config({ baseUrl: 'http://localhost:5000', wsPath: '/ws?v=2', authToken: 'secret' }));
+    expect(url).toBe('ws://localhost:5000/ws?v=2&token=secret');
+  });
+});
+
+describe('normalizeRikoConfig', () => {
+  it('uses defaults for blank or non-numeric timings and raises the rest to their minimums', () => {
+    const normalized = normalizeRikoConfig({ connectTimeoutMs: 0, requestTimeoutMs: NaN, heartbeatIntervalMs: 10 });
+    expect(normalized.connectTimeoutMs).toBe(DEFAULT_RIKO_CONFIG.connectTimeoutMs);
+    expect(normalized.requestTimeoutMs).toBe(DEFAULT_RIKO_CONFIG.requestTimeoutMs);
+    expect(normalized.heartbeatIntervalMs).toBe(1000);
+  });
+
+  it('replaces a base URL that is not http(s)', () => {
+    expect(normalizeRikoConfig({ baseUrl: 'riko.local:5000' }).baseUrl).toBe(DEFAULT_RIKO_CONFIG.baseUrl);
+    expect(normalizeRikoConfig({ baseUrl: 'https://riko.local' }).baseUrl).toBe('https://riko.local');
+  });
+});
+
+describe('validateRikoConfig', () => {
+  it('refuses base URLs without an http or https scheme', () => {
+    expect(validateRikoConfig(config({ baseUrl: 'localhost:5000' }))).toMatch(/http/);
+    expect(validateRikoConfig(config({ baseUrl: 'ftp://riko' }))).toMatch(/http/);
+    expect(validateRikoConfig(config({ baseUrl: 'http://localhost:5000' }))).toBeNull();
+  });
+});
+
+describe('stored settings', () => {
+  let stored: Record<string, string>;
+
+  beforeEach(() => {
+    stored = {};
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => stored[key] ?? null,
+      setItem: (key: string, value: string) => { stored[key] = value; }
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('are normalized when saved and when loaded', () => {
+    const saved = saveRikoConfig(config({ connectTimeoutMs: 0 }));
+    expect(saved.connectTimeoutMs).toBe(DEFAULT_RIKO_CONFIG.connectTimeoutMs);
+
+    stored['yumi.riko.config'] = JSON.stringify({ baseUrl: 'nonsense', heartbeatIntervalMs: 1 });
+    expect(loadRikoConfig()).toMatchObject({ baseUrl: DEFAULT_RIKO_CONFIG.baseUrl, heartbeatIntervalMs: 1000 });
+  });
+});
@@ -0,0 +1,138 @@
+export interface RikoConfig {
+  /** HTTP(S) origin of the Riko server, e.g. https://riko.example.com */
+  baseUrl: string;
+  /** WebSocket path appended to baseUrl; the scheme follows baseUrl (http → ws, https → wss) */
+  wsPath: string;
+  /** Optional token sent with every request */
+  authToken: string;
+  /** HTTP header carrying the token; the WebSocket passes it as a `token` query param since browsers cannot set WS headers */
+  authHeader: string;
+  /** Ceiling for the reconnect backoff; reconnecting itself never gives up */
+  maxReconnectDelayMs: number;
+  connectTimeoutMs: number;
+  requestTimeoutMs: number;
+  /** How often to ping the server; two unanswered pings in a row drop the socket */
+  heartbeatIntervalMs: number;
+}
+
+const STORAGE_KEY = 'yumi.riko.config';
+
+const toNumber = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+};
+
+// Build-time defaults come from vite.config.ts `define`
+export const DEFAULT_RIKO_CONFIG: RikoConfig = {
+  baseUrl: process.env.RIKO_BASE_URL || 'http://localhost:5000',
+  wsPath: process.env.RIKO_WS_PATH || '/ws',
+  authToken: process.env.RIKO_AUTH_TOKEN || '',
+  authHeader: process.env.RIKO_AUTH_HEADER || 'Authorization',
+  maxReconnectDelayMs: toNumber(process.env.RIKO_MAX_RECONNECT_DELAY_MS, 30000),
+  connectTimeoutMs: toNumber(process.env.RIKO_CONNECT_TIMEOUT_MS, 5000),
+  requestTimeoutMs: toNumber(process.env.RIKO_REQUEST_TIMEOUT_MS, 10000),
+  heartbeatIntervalMs: toNumber(process.env.RIKO_HEARTBEAT_INTERVAL_MS, 5000)
+};
+
+// Lowest accepted value for each timing; the settings inputs use the same minimums
+export const RIKO_TIMING_MINIMUMS = {
+  maxReconnectDelayMs: 1000,
+  connectTimeoutMs: 500,
+  requestTimeoutMs: 500,
+  heartbeatIntervalMs: 1000
+} as const;
+
+const isHttpUrl = (value: string) => {
+  try {
+    return ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+/** Why a config cannot be used, or null when it can */
+export function validateRikoConfig(config: RikoConfig): string | null {
+  if (!isHttpUrl(config.baseUrl)) {
+    return 'Base URL must start with http:// or https://';
+  }
+  return null;
+}
+
+/**
+ * Fill in anything missing or unusable: an unparseable base URL falls back to
+ * the default, and timings that are empty (0) or not numbers use their
+ * defaults while the rest are raised to their minimums.
+ */
+export function normalizeRikoConfig(config: Partial<RikoConfig>): RikoConfig {
+  const merged = { ...DEFAULT_RIKO_CONFIG, ...config };
+  const timing = (key: keyof typeof RIKO_TIMING_MINIMUMS) => {
+    const value = Number(merged[key]);
+    return Number.isFinite(value) && value > 0 ? Math.max(RIKO_TIMING_MINIMUMS[key], value) : DEFAULT_RIKO_CONFIG[key];
+  };
+  return {
+    baseUrl: isHttpUrl(String(merged.baseUrl)) ? String(merged.baseUrl) : DEFAULT_RIKO_CONFIG.baseUrl,
+    wsPath: String(merged.wsPath ?? ''),
+    authToken: String(merged.authToken ?? ''),
+    authHeader: String(merged.authHeader || DEFAULT_RIKO_CONFIG.authHeader),
+    maxReconnectDelayMs: timing('maxReconnectDelayMs'),
+    connectTimeoutMs: timing('connectTimeoutMs'),
+    requestTimeoutMs: timing('requestTimeoutMs'),
+    heartbeatIntervalMs: timing('heartbeatIntervalMs')
+  };
+}
+
+export function loadRikoConfig(): RikoConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return normalizeRikoConfig(JSON.parse(stored));
+    }
+  } catch (error) {
+    console.warn('RikoConfig: Ignoring unreadable stored settings', error);
+  }
+  return { ...DEFAULT_RIKO_CONFIG };
+}
+
+/** Store the settings, normalized; returns what was stored */
+export function saveRikoConfig(config: RikoConfig): RikoConfig {
+  const normalized = normalizeRikoConfig(config);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(normalized));
+  return normalized;
+}
+
+export function resetRikoConfig(): RikoConfig {
+  localStorage.removeItem(STORAGE_KEY);
+  return { ...DEFAULT_RIKO_CONFIG };
+}
+
+// Append `path` (which may carry a query) to the base URL's own path, so a server behind a proxy prefix keeps it
+function joinRikoUrl(baseUrl: string, path: string): URL {
+  const url = new URL(baseUrl);
+  const [pathname, query] = path.split('?', 2);
+  url.pathname = `${url.pathname.replace(/\/+$/, '')}/${pathname.replace(/^\/+/, '')}`;
+  if (query !== undefined) {
+    new URLSearchParams(query).forEach((value, key) => url.searchParams.set(key, value));
+  }
+  return url;
+}
+
+export function getRikoWebSocketUrl(config: RikoConfig): string {
+  const url = joinRikoUrl(config.baseUrl, config.wsPath);
+  url.protocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  if (config.authToken) {
+    url.searchParams.set('token', config.authToken);
+  }
+  return url.toString();
+}
+
+export function getRikoHttpUrl(config: RikoConfig, path: string): string {
+  return joinRikoUrl(config.baseUrl, path).toString();
+}
+
+export function getRikoAuthHeaders(config: RikoConfig): Record<string, string> {
+  if (!config.authToken) return {};
+  const value = config.authHeader.toLowerCase() === 'authorization'
+    ? `Bearer ${config.authToken}`
+    : config.authToken;
+  return { [config.authHeader]: value };
+}
@@ -0,0 +1,77 @@
+import { DeliveryStatus, RikoPersona } from '../types';
+
+const STORAGE_KEY = 'yumi.riko.outbox';
+
+/** A text message waiting for Riko, with everything needed to send it again */
+export interface OutboxEntry {
+  id: string;
+  content: string;
+  persona?: RikoPersona;
+  memories?: string[];
+  /** Stream viewer who wrote the message */
+  author?: string;
+  createdAt: number;
+  /** How many times the message has been handed to the server */
+  attempts: number;
+  status: DeliveryStatus;
+}
+
+/**
+ * Messages not yet answered by Riko, oldest first. Kept in localStorage so a
+ * reload while the server is down does not lose them.
+ */
+export class RikoOutbox {
+  private entries: OutboxEntry[] = this.load();
+
+  private load(): OutboxEntry[] {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (stored) {
+        // Whatever was on the wire when the page closed has to go again
+        return (JSON.parse(stored) as OutboxEntry[]).map(entry => ({ ...entry, status: 'retry' }));
+      }
+    } catch (error) {
+      console.warn('RikoOutbox: Ignoring unreadable stored outbox', error);
+    }
+    return [];
+  }
+
+  private save() {
+    try {
+      if (this.entries.length) {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+      } else {
+        localStorage.removeItem(STORAGE_KEY);
+      }
+    } catch (error) {
+      console.warn('RikoOutbox: Could not save outbox', error);
+    }
+  }
+
+  list(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  get(id: string): OutboxEntry | undefined {
+    return this.entries.find(entry => entry.id === id);
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  add(entry: OutboxEntry) {
+    this.entries.push(entry);
+    this.save();
+  }
+
+  update(id: string, changes: Partial<Pick<OutboxEntry, 'status' | 'attempts'>>) {
+    this.entries = this.entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry);
+    this.save();
+  }
+
+  remove(id: string) {
+    this.entries = this.entries.filter(entry => entry.id !== id);
+    this.save();
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRikoFrame, isCompatibleServerVersion, RIKO_MIN_SERVER_VERSION } from './rikoProtocol';
+
+describe('parseRikoFrame', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('accepts well-formed frames unchanged', () => {
+    const frames = [
+      { type: 'hello', version: 2 },
+      { type: 'speaking', text: 'Hi', duration: 1200, requestId: 'r1' },
+      { type: 'audio', data: 'AAAA', format: 'pcm16', sampleRate: 24000, seq: 0 },
+      { type: 'viseme', visemes: [{ id: 'aa', time: 0 }, { id: 3, time: 80, weight: 0.5 }] },
+      { type: 'transcript', text: 'hello', final: true },
+      { type: 'idle' }
+    ];
+    frames.forEach(frame => expect(parseRikoFrame(frame)).toBe(frame));
+  });
+
+  it('drops non-objects and unknown types', () => {
+    expect(parseRikoFrame(null)).toBeNull();
+    expect(parseRikoFrame('hello')).toBeNull();
+    expect(parseRikoFrame([{ type: 'idle' }])).toBeNull();
+    expect(parseRikoFrame({ type: 'dance' })).toBeNull();
+    expect(parseRikoFrame({})).toBeNull();
+  });
+
+  it('does not treat inherited property names as frame types', () => {
+    expect(parseRikoFrame({ type: 'constructor' })).toBeNull();
+    expect(parseRikoFrame({ type: 'toString' })).toBeNull();
+    expect(parseRikoFrame({ type: '__proto__' })).toBeNull();
+  });
+
+  it('drops frames with missing or mistyped fields', () => {
+    expect(parseRikoFrame({ type: 'hello', version: '2' })).toBeNull();
+    expect(parseRikoFrame({ type: 'text' })).toBeNull();
+    expect(parseRikoFrame({ type: 'audio', data: 'AAAA', format: 'flac' })).toBeNull();
+    expect(parseRikoFrame({ type: 'viseme', visemes: [{ id: 'aa' }] })).toBeNull();
+    expect(parseRikoFrame({ type: 'viseme', visemes: [null] })).toBeNull();
+    expect(parseRikoFrame({ type: 'ping', timestamp: NaN })).toBeNull();
+  });
+
+  it('checks requestId only on frames that carry one', () => {
+    expect(parseRikoFrame({ type: 'text', text: 'x', requestId: 7 })).toBeNull();
+    expect(parseRikoFrame({ type: 'text', text: 'x', requestId: 'r7' })).not.toBeNull();
+    expect(parseRikoFrame({ type: 'listening', requestId: 7 })).not.toBeNull();
+  });
+});
+
+describe('isCompatibleServerVersion', () => {
+  it('accepts the minimum version and newer', () => {
+    expect(isCompatibleServerVersion(RIKO_MIN_SERVER_VERSION)).toBe(true);
+    expect(isCompatibleServerVersion(RIKO_MIN_SERVER_VERSION + 1)).toBe(true);
+    expect(isCompatibleServerVersion(RIKO_MIN_SERVER_VERSION - 1)).toBe(false);
+  });
+});
@@ -0,0 +1,100 @@
+import { RikoServerFrame } from '../types';
+
+export const RIKO_PROTOCOL_VERSION = 2;
+
+// First server version that answers heartbeat pings
+export const RIKO_HEARTBEAT_VERSION = 2;
+
+// Servers speaking an older major version than this are rejected at handshake
+export const RIKO_MIN_SERVER_VERSION = 1;
+
+type FrameFields = Record<string, unknown>;
+
+type FrameValidator = (frame: FrameFields) => string | null;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is FrameFields => !!value && typeof value === 'object' && !Array.isArray(value);
+const optional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+
+const AUDIO_FORMATS: unknown[] = ['pcm16', 'wav', 'mp3', 'ogg'];
+
+// Frame types that may carry a requestId echoed from the originating client frame
+const CORRELATED_TYPES: string[] = ['speaking', 'text', 'audio', 'emotion', 'gesture', 'error'];
+
+const validators: Record<RikoServerFrame['type'], FrameValidator> = {
+  hello: (f) => isNumber(f.version) ? null : 'hello.version must be a number',
+  speaking: (f) => {
+    if (!optional(f.text, isString)) return 'speaking.text must be a string';
+    if (!optional(f.duration, isNumber)) return 'speaking.duration must be a number';
+    if (!optional(f.emotion, isString)) return 'speaking.emotion must be a string';
+    if (!optional(f.audioUrl, isString)) return 'speaking.audioUrl must be a string';
+    return null;
+  },
+  listening: () => null,
+  idle: () => null,
+  text: (f) => {
+    if (!isString(f.text)) return 'text.text must be a string';
+    if (!optional(f.final, v => typeof v === 'boolean')) return 'text.final must be a boolean';
+    return null;
+  },
+  audio: (f) => {
+    if (!isString(f.data)) return 'audio.data must be a base64 string';
+    if (!optional(f.format, v => AUDIO_FORMATS.includes(v))) return `audio.format must be one of ${AUDIO_FORMATS.join(', ')}`;
+    if (!optional(f.sampleRate, isNumber)) return 'audio.sampleRate must be a number';
+    if (!optional(f.seq, isNumber)) return 'audio.seq must be a number';
+    return null;
+  },
+  emotion: (f) => {
+    if (!isString(f.emotion)) return 'emotion.emotion must be a string';
+    if (!optional(f.intensity, isNumber)) return 'emotion.intensity must be a number';
+    return null;
+  },
+  gesture: (f) => isString(f.gesture) ? null : 'gesture.gesture must be a string',
+  viseme: (f) => {
+    if (!Array.isArray(f.visemes)) return 'viseme.visemes must be an array';
+    const bad = f.visemes.some((v: unknown) =>
+      !isObject(v) || !(isNumber(v.id) || isString(v.id)) || !isNumber(v.time) || !optional(v.weight, isNumber)
+    );
+    return bad ? 'viseme.visemes entries need an id and a numeric time' : null;
+  },
+  transcript: (f) => {
+    if (!isString(f.text)) return 'transcript.text must be a string';
+    if (typeof f.final !== 'boolean') return 'transcript.final must be a boolean';
+    return null;
+  },
+  ping: (f) => isNumber(f.timestamp) ? null : 'ping.timestamp must be a number',
+  pong: (f) => isNumber(f.timestamp) ? null : 'pong.timestamp must be a number',
+  error: (f) => isString(f.message) ? null : 'error.message must be a string'
+};
+
+/**
+ * Validate a decoded JSON value against the Riko server frame schema.
+ * Returns the typed frame, or null (with a warning) when it is malformed.
+ */
+export function parseRikoFrame(data: unknown): RikoServerFrame | null {
+  if (!isObject(data)) {
+    console.warn('RikoProtocol: Dropping non-object frame', data);
+    return null;
+  }
+
+  const frame = data;
+  if (!isString(frame.type) || !Object.hasOwn(validators, frame.type)) {
+    console.warn('RikoProtocol: Dropping frame with unknown type', frame.type);
+    return null;
+  }
+
+  const problem = CORRELATED_TYPES.includes(frame.type) && !optional(frame.requestId, isString)
+    ? `${frame.type}.requestId must be a string`
+    : validators[frame.type as RikoServerFrame['type']](frame);
+  if (problem) {
+    console.warn(`RikoProtocol: Dropping malformed frame (${problem})`, frame);
+    return null;
+  }
+
+  return frame as unknown as RikoServerFrame;
+}
+
+export function isCompatibleServerVersion(version: number): boolean {
+  return version >= RIKO_MIN_SERVER_VERSION;
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { broadcastLink } from './broadcastLink';
+import type { ConversationBackend } from './conversationBackend';
+import { SessionEvent, SessionLog, SessionRecorder, parseSessionLog } from './sessionRecorder';
+
+/** A backend that only records who listens to it, so tests can fire its events */
+const fakeBackend = (id: string) => {
+  const listeners = new Map<string, Set<(data: unknown) => void>>();
+  const backend = {
+    id,
+    on: (event: string, listener: (data: unknown) => void) => {
+      listeners.set(event, (listeners.get(event) ?? new Set()).add(listener));
+    },
+    off: (event: string, listener: (data: unknown) => void) => listeners.get(event)?.delete(listener)
+  };
+  const fire = (event: string, data: unknown) => listeners.get(event)?.forEach(listener => listener(data));
+  return { backend: backend as unknown as ConversationBackend, fire };
+};
+
+const logWith = (events: unknown[]) => JSON.stringify({ version: 1, backend: 'riko', startedAt: 0, durationMs: 1000, events });
+
+describe('SessionRecorder', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date', 'performance'] });
+    vi.stubGlobal('BroadcastChannel', class { postMessage() {} });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('logs avatar commands, messages and backend events with their time since the start', async () => {
+    const recorder = new SessionRecorder();
+    const { backend, fire } = fakeBackend('riko');
+
+    recorder.start(null, backend);
+    vi.advanceTimersByTime(120);
+    recorder.logMessage({ role: 'user', content: 'Hi YUMI' });
+    fire('speaking', { text: 'Hello!' });
+    fire('audio', { data: 'AAAA' });
+    broadcastLink.post({ type: 'hello', viewId: 'view-1' });
+    vi.advanceTimersByTime(80);
+    broadcastLink.post({ type: 'speak', durationMs: 900 });
+    vi.advanceTimersByTime(1000);
+    const recording = await recorder.stop();
+
+    expect(recording?.video).toBeNull();
+    expect(recording?.log).toMatchObject({ version: 1, backend: 'riko', durationMs: 1200 });
+    expect(recording?.log.events).toEqual<SessionEvent[]>([
+      { kind: 'message', role: 'user', content: 'Hi YUMI', author: undefined, latency: undefined, t: 120 },
+      { kind: 'backend', event: 'speaking', data: { text: 'Hello!' }, t: 120 },
+      { kind: 'avatar', message: { type: 'speak', durationMs: 900 }, t: 200 }
+    ]);
+  });
+
+  it('stops listening once stopped, and follows a backend switch while recording', async () => {
+    const recorder = new SessionRecorder();
+    const first = fakeBackend('gemini');
+    const second = fakeBackend('riko');
+
+    recorder.start(null, first.backend);
+    recorder.follow(second.backend);
+    first.fire('turn', {});
+    second.fire('turn', { id: 'second' });
+    const recording = await recorder.stop();
+    second.fire('turn', { id: 'late' });
+    broadcastLink.post({ type: 'stop' });
+
+    expect(recording?.log.backend).toBe('gemini');
+    expect(recording?.log.events.map(event => event.kind === 'backend' && event.data)).toEqual([{ id: 'second' }]);
+  });
+
+  it('writes logs that parse back unchanged', async () => {
+    const recorder = new SessionRecorder();
+    recorder.start(null, fakeBackend('riko').backend);
+    broadcastLink.post({ type: 'emotion', emotion: 'happy', intensity: 0.8, holdMs: null });
+    vi.advanceTimersByTime(40);
+    broadcastLink.post({ type: 'frame', level: 0.3, captionProgress: 0.5, playbackTime: 0.04 });
+    recorder.logMessage({ role: 'assistant', content: 'Hello!', latency: 350 });
+    const { log } = (await recorder.stop())!;
+
+    expect(parseSessionLog(JSON.stringify(log))).toEqual(JSON.parse(JSON.stringify(log)));
+  });
+});
+
+describe('parseSessionLog', () => {
+  it('accepts a well-formed log, including frames recorded before playbackTime existed', () => {
+    const log: SessionLog = parseSessionLog(logWith([
+      { t: 0, kind: 'avatar', message: { type: 'scene', avatarId: 'yumi', subtitles: true, listening: false } },
+      { t: 0, kind: 'avatar', message: { type: 'frame', level: null, captionProgress: 0 } },
+      { t: 10, kind: 'avatar', message: { type: 'visemes', cues: [{ time: 0, viseme: 'aa', weight: 1 }] } },
+      { t: 20, kind: 'avatar', message: { type: 'lookAt', point: { x: 0.5, y: -0.2 } } },
+      { t: 20, kind: 'message', role: 'assistant', content: 'Hi', author: 'YUMI' },
+      { t: 30, kind: 'backend', event: 'state', data: { status: 'idle' } }
+    ]));
+
+    expect(log.events).toHaveLength(6);
+  });
+
+  it('refuses files that are not session logs', () => {
+    expect(() => parseSessionLog('{"version":2,"events":[]}')).toThrow('Not a YUMI session log');
+    expect(() => parseSessionLog('[]')).toThrow('Not a YUMI session log');
+    expect(() => parseSessionLog('{"version":1,"events":[]}')).toThrow(/needs a backend, startedAt and durationMs/);
+  });
+
+  it('names the first event whose time is missing or goes backwards', () => {
+    expect(() => parseSessionLog(logWith([{ kind: 'avatar', message: { type: 'stop' } }])))
+      .toThrow('Session log event 0 is malformed: t must be a number');
+    expect(() => parseSessionLog(logWith([
+      { t: 50, kind: 'avatar', message: { type: 'stop' } },
+      { t: 40, kind: 'avatar', message: { type: 'stop' } }
+    ]))).toThrow('Session log event 1 is malformed: t goes back from 50 to 40');
+  });
+
+  it('rejects unknown kinds, backend events and avatar commands', () => {
+    expect(() => parseSessionLog(logWith([{ t: 0, kind: 'note' }]))).toThrow(/unknown kind note/);
+    expect(() => parseSessionLog(logWith([{ t: 0, kind: 'backend', event: 'audio', data: {} }])))
+      .toThrow(/unknown backend event audio/);
+    expect(() => parseSessionLog(logWith([{ t: 0, kind: 'avatar', message: { type: 'hello', viewId: 'x' } }])))
+      .toThrow(/avatar.message must be an avatar command/);
+    expect(() => parseSessionLog(logWith([{ t: 0, kind: 'avatar', message: { type: 'constructor' } }])))
+      .toThrow(/avatar.message must be an avatar command/);
+  });
+
+  it('rejects malformed message and avatar payloads', () => {
+    const problemWith = (event: object) => () => parseSessionLog(logWith([{ t: 0, ...event }]));
+
+    expect(problemWith({ kind: 'message', role: 'system', content: 'x' })).toThrow(/message.role must be user or assistant/);
+    expect(problemWith({ kind: 'message', role: 'user', content: 42 })).toThrow(/message.content must be a string/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'speak' } })).toThrow(/speak.durationMs must be a number/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'emotion', emotion: 'joy' } })).toThrow(/known emotion/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'emotion', emotion: 'sad', holdMs: 'forever' } }))
+      .toThrow(/emotion.holdMs must be a number or null/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'visemes', cues: [{ time: 0, viseme: 'zz', weight: 1 }] } }))
+      .toThrow(/known viseme/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'frame', level: 0.5 } })).toThrow(/captionProgress must be a number/);
+    expect(problemWith({ kind: 'avatar', message: { type: 'lookAt', point: { x: 1 } } })).toThrow(/lookAt.point/);
+  });
+});
@@ -0,0 +1,269 @@
+import { ChatMessage } from '../types';
+import { VISEMES } from '../avatar/visemes';
+import { audioPlayer } from './audioPlayer';
+import { broadcastLink, BroadcastMessage } from './broadcastLink';
+import type { ConversationBackend, ConversationBackendEventMap } from './conversationBackend';
+import { TypedEventEmitter } from './eventEmitter';
+import { normalizeEmotion } from './emotionTags';
+
+type SessionEntry =
+  | { kind: 'avatar'; message: BroadcastMessage }
+  | { kind: 'message'; role: ChatMessage['role']; content: string; author?: string; latency?: number }
+  | { kind: 'backend'; event: LoggedBackendEvent; data: unknown };
+
+/**
+ * One entry in a session log, `t` milliseconds after recording started.
+ * `avatar` entries are the same commands a broadcast view receives, so
+ * replaying them reproduces the performance; the rest are context for
+ * working out what happened.
+ */
+export type SessionEvent = SessionEntry & { t: number };
+
+export interface SessionLog {
+  version: 1;
+  /** Backend that was active when recording started */
+  backend: string;
+  startedAt: number;
+  durationMs: number;
+  events: SessionEvent[];
+}
+
+export interface SessionRecording {
+  log: SessionLog;
+  /** Canvas and speech as WebM, or null if the browser cannot record them */
+  video: Blob | null;
+}
+
+export interface SessionRecorderEventMap {
+  state: { recording: boolean };
+}
+
+// Raw audio and growing reply text would swamp the log; speaking, transcript and turn events carry the text
+const LOGGED_BACKEND_EVENTS = [
+  'state', 'latency', 'speaking', 'viseme', 'emotion', 'gesture', 'transcript', 'interrupted', 'turn'
+] as const satisfies readonly (keyof ConversationBackendEventMap)[];
+
+type LoggedBackendEvent = typeof LOGGED_BACKEND_EVENTS[number];
+
+const VIDEO_FPS = 30;
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+type Fields = Record<string, unknown>;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isObject = (value: unknown): value is Fields => !!value && typeof value === 'object' && !Array.isArray(value);
+const optional = (value: unknown, check: (v: unknown) => boolean) => value === undefined || check(value);
+const isPoint = (value: unknown) => isObject(value) && isNumber(value.x) && isNumber(value.y);
+
+const MESSAGE_ROLES: unknown[] = ['user', 'assistant'];
+
+// The avatar commands the recorder logs; view presence messages never make it into a log
+const avatarValidators: Record<Exclude<BroadcastMessage['type'], 'hello' | 'bye' | 'alive'>, (f: Fields) => string | null> = {
+  scene: (f) => isString(f.avatarId) && typeof f.subtitles === 'boolean' && typeof f.listening === 'boolean'
+    ? null : 'scene needs an avatarId and subtitles/listening flags',
+  speak: (f) => isNumber(f.durationMs) ? null : 'speak.durationMs must be a number',
+  stop: () => null,
+  visemes: (f) => Array.isArray(f.cues) && f.cues.every(cue =>
+    isObject(cue) && isNumber(cue.time) && isNumber(cue.weight) && VISEMES.includes(cue.viseme as typeof VISEMES[number])
+  ) ? null : 'visemes.cues entries need a time, a known viseme and a weight',
+  emotion: (f) => {
+    if (!isString(f.emotion) || normalizeEmotion(f.emotion) !== f.emotion) return 'emotion.emotion must be a known emotion';
+    if (!optional(f.intensity, isNumber)) return 'emotion.intensity must be a number';
+    if (!optional(f.holdMs, v => v === null || isNumber(v))) return 'emotion.holdMs must be a number or null';
+    return null;
+  },
+  gesture: (f) => isString(f.name) ? null : 'gesture.name must be a string',
+  lookAt: (f) => f.point === null || isPoint(f.point) ? null : 'lookAt.point must be {x, y} or null',
+  caption: (f) => f.text === null || isString(f.text) ? null : 'caption.text must be a string or null',
+  frame: (f) => {
+    if (!(f.level === null || isNumber(f.level))) return 'frame.level must be a number or null';
+    if (!isNumber(f.captionProgress)) return 'frame.captionProgress must be a number';
+    if (!optional(f.playbackTime, v => v === null || isNumber(v))) return 'frame.playbackTime must be a number or null';
+    return null;
+  }
+};
+
+/** What is wrong with one logged entry, or null when it is well formed */
+function entryProblem(event: Fields): string | null {
+  switch (event.kind) {
+    case 'avatar': {
+      const message = event.message;
+      if (!isObject(message) || !isString(message.type) || !Object.hasOwn(avatarValidators, message.type)) {
+        return 'avatar.message must be an avatar command';
+      }
+      return avatarValidators[message.type as keyof typeof avatarValidators](message);
+    }
+    case 'message':
+      if (!MESSAGE_ROLES.includes(event.role)) return 'message.role must be user or assistant';
+      if (!isString(event.content)) return 'message.content must be a string';
+      if (!optional(event.author, isString)) return 'message.author must be a string';
+      if (!optional(event.latency, isNumber)) return 'message.latency must be a number';
+      return null;
+    case 'backend':
+      return (LOGGED_BACKEND_EVENTS as readonly unknown[]).includes(event.event) ? null : `unknown backend event ${String(event.event)}`;
+    default:
+      return `unknown kind ${String(event.kind)}`;
+  }
+}
+
+/**
+ * Check that parsed JSON is a session log before replaying it: every event
+ * needs a known kind, a well-formed payload and a time no earlier than the
+ * one before it. Throws naming the first bad event.
+ */
+export function parseSessionLog(text: string): SessionLog {
+  const log: unknown = JSON.parse(text);
+  if (!isObject(log) || log.version !== 1 || !Array.isArray(log.events)) {
+    throw new Error('Not a YUMI session log');
+  }
+  if (!isString(log.backend) || !isNumber(log.startedAt) || !isNumber(log.durationMs)) {
+    throw new Error('Session log needs a backend, startedAt and durationMs');
+  }
+
+  let previous = 0;
+  log.events.forEach((event: unknown, index) => {
+    const problem = !isObject(event) ? 'not an object'
+      : !isNumber(event.t) ? 't must be a number'
+      : event.t < previous ? `t goes back from ${previous} to ${event.t}`
+      : entryProblem(event);
+    if (problem) {
+      throw new Error(`Session log event ${index} is malformed: ${problem}`);
+    }
+    previous = (event as SessionEvent).t;
+  });
+  return log as unknown as SessionLog;
+}
+
+/**
+ * Records a Live performance: the avatar canvas plus YUMI's speech into a
+ * WebM through MediaRecorder, and alongside it a timed log of avatar
+ * commands, messages and backend events.
+ */
+export class SessionRecorder extends TypedEventEmitter<SessionRecorderEventMap> {
+  private recorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private events: SessionEvent[] = [];
+  private startedAt = 0;
+  private startTime = 0;
+  private backend: ConversationBackend | null = null;
+  private backendId = '';
+  private backendHandlers: Array<[LoggedBackendEvent, (data: unknown) => void]> = [];
+  private recording = false;
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  /** Start recording `canvas` with YUMI's audio, logging events from `backend` */
+  start(canvas: HTMLCanvasElement | null, backend: ConversationBackend) {
+    if (this.recording) return;
+    this.recording = true;
+    this.events = [];
+    this.chunks = [];
+    this.startedAt = Date.now();
+    this.startTime = performance.now();
+
+    broadcastLink.on('sent', this.handleAvatarMessage);
+    this.backendId = backend.id;
+    this.attach(backend);
+
+    this.recorder = this.createRecorder(canvas);
+    this.recorder?.start(1000);
+    console.log('SessionRecorder: Recording started', this.recorder ? `(${this.recorder.mimeType})` : '(log only)');
+    this.emit('state', { recording: true });
+  }
+
+  /** Stop and hand back the log and video */
+  async stop(): Promise<SessionRecording | null> {
+    if (!this.recording) return null;
+    this.recording = false;
+
+    broadcastLink.off('sent', this.handleAvatarMessage);
+    this.detach();
+
+    const video = await this.stopRecorder();
+    const log: SessionLog = {
+      version: 1,
+      backend: this.backendId,
+      startedAt: this.startedAt,
+      durationMs: Math.round(performance.now() - this.startTime),
+      events: this.events
+    };
+    console.log(`SessionRecorder: Recorded ${log.events.length} events over ${log.durationMs}ms`);
+    this.emit('state', { recording: false });
+    return { log, video };
+  }
+
+  /** Keep logging when the user switches backends mid-recording */
+  follow(backend: ConversationBackend) {
+    if (!this.recording || backend === this.backend) return;
+    this.detach();
+    this.attach(backend);
+  }
+
+  private attach(backend: ConversationBackend) {
+    this.backend = backend;
+    this.backendHandlers = LOGGED_BACKEND_EVENTS.map(event => {
+      const handler = (data: unknown) => this.log({ kind: 'backend', event, data });
+      backend.on(event, handler);
+      return [event, handler];
+    });
+  }
+
+  private detach() {
+    this.backendHandlers.forEach(([event, handler]) => this.backend?.off(event, handler));
+    this.backendHandlers = [];
+    this.backend = null;
+  }
+
+  /** Log a transcript message; Live mode calls this as it records them */
+  logMessage(message: Pick<ChatMessage, 'role' | 'content' | 'author' | 'latency'>) {
+    if (!this.recording) return;
+    this.log({ kind: 'message', role: message.role, content: message.content, author: message.author, latency: message.latency });
+  }
+
+  private createRecorder(canvas: HTMLCanvasElement | null): MediaRecorder | null {
+    if (!canvas || typeof MediaRecorder === 'undefined') return null;
+    try {
+      const stream = canvas.captureStream(VIDEO_FPS);
+      audioPlayer.captureStream().getAudioTracks().forEach(track => stream.addTrack(track));
+      const mimeType = VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type));
+      const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+      return recorder;
+    } catch (error) {
+      console.warn('SessionRecorder: Cannot record video, keeping the event log only', error);
+      return null;
+    }
+  }
+
+  private stopRecorder(): Promise<Blob | null> {
+    const recorder = this.recorder;
+    this.recorder = null;
+    if (!recorder || recorder.state === 'inactive') return Promise.resolve(null);
+    return new Promise(resolve => {
+      recorder.onstop = () => {
+        recorder.stream.getVideoTracks().forEach(track => track.stop());
+        resolve(this.chunks.length ? new Blob(this.chunks, { type: recorder.mimeType || 'video/webm' }) : null);
+      };
+      recorder.stop();
+    });
+  }
+
+  private handleAvatarMessage = (message: BroadcastMessage) => {
+    if (message.type === 'hello' || message.type === 'alive' || message.type === 'bye') return;
+    this.log({ kind: 'avatar', message });
+  };
+
+  private log(entry: SessionEntry) {
+    this.events.push({ ...entry, t: Math.round(performance.now() - this.startTime) });
+  }
+}
+
+export const sessionRecorder = new SessionRecorder();
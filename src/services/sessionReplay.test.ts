@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BroadcastMessage } from './broadcastLink';
+import { parseSessionLog } from './sessionRecorder';
+import { SessionReplay } from './sessionReplay';
+
+const log = parseSessionLog(JSON.stringify({
+  version: 1,
+  backend: 'riko',
+  startedAt: 0,
+  durationMs: 500,
+  events: [
+    { t: 0, kind: 'message', role: 'user', content: 'Hi' },
+    { t: 100, kind: 'avatar', message: { type: 'emotion', emotion: 'happy', holdMs: null } },
+    { t: 100, kind: 'backend', event: 'speaking', data: { text: 'Hello!' } },
+    { t: 300, kind: 'avatar', message: { type: 'speak', durationMs: 200 } }
+  ]
+}));
+
+describe('SessionReplay', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval', 'performance'] });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('replays only the avatar commands, each on its original timing', () => {
+    const replay = new SessionReplay();
+    const played: Array<{ at: number; message: BroadcastMessage }> = [];
+    replay.on('avatar', message => played.push({ at: performance.now(), message }));
+    const start = performance.now();
+
+    replay.play(log);
+    vi.advanceTimersByTime(400);
+
+    expect(played.map(({ at, message }) => ({ at: at - start, type: message.type }))).toEqual([
+      { at: 112, type: 'emotion' },
+      { at: 304, type: 'speak' }
+    ]);
+    expect(replay.isPlaying).toBe(true);
+  });
+
+  it('stops once the log has run its length', () => {
+    const replay = new SessionReplay();
+    const states: boolean[] = [];
+    replay.on('state', ({ playing }) => states.push(playing));
+
+    replay.play(log);
+    vi.advanceTimersByTime(520);
+
+    expect(replay.isPlaying).toBe(false);
+    expect(states).toEqual([true, false]);
+  });
+});
@@ -0,0 +1,69 @@
+import { BroadcastMessage } from './broadcastLink';
+import { SessionLog } from './sessionRecorder';
+import { TypedEventEmitter } from './eventEmitter';
+
+export interface SessionReplayEventMap {
+  /** An avatar command from the log, due now */
+  avatar: BroadcastMessage;
+  state: { playing: boolean; positionMs: number; durationMs: number };
+}
+
+const TICK_MS = 16;
+
+/**
+ * Plays a recorded session log back on its original timing. Only the avatar
+ * commands are replayed; no backend is involved, so the same log always
+ * produces the same performance.
+ */
+export class SessionReplay extends TypedEventEmitter<SessionReplayEventMap> {
+  private log: SessionLog | null = null;
+  private cursor = 0;
+  private startTime = 0;
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  get isPlaying(): boolean {
+    return this.timer !== null;
+  }
+
+  play(log: SessionLog) {
+    this.stop();
+    this.log = log;
+    this.cursor = 0;
+    this.startTime = performance.now();
+    console.log(`SessionReplay: Replaying ${log.events.length} events over ${log.durationMs}ms`);
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    this.emitState();
+  }
+
+  stop() {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+    this.emitState();
+  }
+
+  private tick() {
+    const log = this.log!;
+    const position = performance.now() - this.startTime;
+    while (this.cursor < log.events.length && log.events[this.cursor].t <= position) {
+      const event = log.events[this.cursor++];
+      if (event.kind === 'avatar') {
+        this.emit('avatar', event.message);
+      }
+    }
+    if (this.cursor >= log.events.length && position >= log.durationMs) {
+      console.log('SessionReplay: Finished');
+      this.stop();
+    }
+  }
+
+  private emitState() {
+    this.emit('state', {
+      playing: this.isPlaying,
+      positionMs: this.timer ? Math.round(performance.now() - this.startTime) : 0,
+      durationMs: this.log?.durationMs ?? 0
+    });
+  }
+}
+
+export const sessionReplay = new SessionReplay();
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { PcmChunk } from './audioCapture';
+import { SpeechInputService, SpeechSink } from './speechInput';
+
+const capture = vi.hoisted(() => ({
+  feed: (_chunk: PcmChunk) => {},
+  start: vi.fn(async (_stream?: MediaStream) => {}),
+  stop: vi.fn(async () => {})
+}));
+
+vi.mock('./audioCapture', () => ({
+  AudioCapture: class {
+    constructor(onChunk: (chunk: PcmChunk) => void) {
+      capture.feed = onChunk;
+    }
+    start = capture.start;
+    stop = capture.stop;
+  },
+  pcmToBase64: () => ''
+}));
+
+vi.mock('./riko', () => ({
+  rikoService: { on: () => {}, connect: () => {}, sendControl: () => {}, sendAudioChunk: () => {} }
+}));
+
+const chunk = (rms: number): PcmChunk => ({ pcm: new Int16Array(4), sampleRate: 16000, rms, peak: rms });
+
+const recordingSink = () => {
+  const calls: string[] = [];
+  const sink: SpeechSink = {
+    open: () => calls.push('open'),
+    begin: () => calls.push('begin'),
+    chunk: (c, seq) => calls.push(`chunk ${seq} ${c.rms}`),
+    end: () => calls.push('end')
+  };
+  return { sink, calls };
+};
+
+describe('SpeechInputService', () => {
+  let now = 0;
+
+  beforeEach(() => {
+    capture.start.mockClear();
+    capture.stop.mockClear();
+    now = 0;
+    vi.spyOn(performance, 'now').mockImplementation(() => now);
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('push-to-talk streams only between press and release', async () => {
+    const service = new SpeechInputService();
+    const { sink, calls } = recordingSink();
+    service.setSink(sink);
+
+    capture.feed(chunk(0.5));
+    await service.press();
+    capture.feed(chunk(0.01));
+    capture.feed(chunk(0.02));
+    await service.release();
+    capture.feed(chunk(0.5));
+
+    expect(calls).toEqual(['open', 'begin', 'chunk 0 0.01', 'chunk 1 0.02', 'end']);
+    expect(capture.stop).toHaveBeenCalled();
+    expect(service.getState()).toBe('off');
+  });
+
+  it('VAD begins after consecutive loud chunks, replaying the pre-roll', async () => {
+    const service = new SpeechInputService();
+    const { sink, calls } = recordingSink();
+    service.setSink(sink);
+    service.setMode('vad');
+    await service.start();
+
+    [0.001, 0.002, 0.003, 0.1, 0.2].forEach(rms => capture.feed(chunk(rms)));
+
+    expect(service.getState()).toBe('capturing');
+    // Only the last three chunks before the start are kept
+    expect(calls).toEqual(['open', 'begin', 'chunk 0 0.003', 'chunk 1 0.1', 'chunk 2 0.2']);
+  });
+
+  it('VAD ends the utterance once the voice has been quiet for the hangover', async () => {
+    const service = new SpeechInputService();
+    const { sink, calls } = recordingSink();
+    service.setSink(sink);
+    service.setMode('vad');
+    await service.start();
+    capture.feed(chunk(0.1));
+    capture.feed(chunk(0.1));
+
+    now = 500;
+    capture.feed(chunk(0));
+    expect(service.getState()).toBe('capturing');
+
+    now = 1000;
+    capture.feed(chunk(0));
+    expect(service.getState()).toBe('armed');
+    expect(calls.at(-1)).toBe('end');
+  });
+
+  it('a release that races a slow start still closes the mic', async () => {
+    let finishStart = () => {};
+    capture.start.mockImplementationOnce(() => new Promise<void>(resolve => { finishStart = resolve; }));
+    const service = new SpeechInputService();
+    service.setSink(recordingSink().sink);
+
+    const pressing = service.press();
+    const releasing = service.release();
+    await vi.waitFor(() => expect(capture.start).toHaveBeenCalled());
+    finishStart();
+    await Promise.all([pressing, releasing]);
+
+    expect(capture.stop).toHaveBeenCalled();
+    expect(service.getState()).toBe('off');
+  });
+});
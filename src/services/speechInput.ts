@@ -0,0 +1,198 @@
+import { AudioCapture, PcmChunk, pcmToBase64 } from './audioCapture';
+import { rikoService } from './riko';
+import { RikoEventMap } from '../types';
+import { TypedEventEmitter } from './eventEmitter';
+
+export type SpeechInputMode = 'push-to-talk' | 'vad';
+
+/** off: mic closed · armed: mic open, waiting for speech · capturing: streaming an utterance */
+export type SpeechInputState = 'off' | 'armed' | 'capturing';
+
+export interface SpeechInputEventMap {
+  state: { state: SpeechInputState };
+  level: { rms: number; peak: number };
+  transcript: { text: string; final: boolean };
+}
+
+/** Where utterances go: a speech-to-text backend that takes streamed PCM16 */
+export interface SpeechSink {
+  /** Called when the mic opens, before any utterance */
+  open(): void;
+  begin(): void;
+  chunk(chunk: PcmChunk, seq: number): void;
+  end(): void;
+}
+
+// Riko transcribes utterances bracketed by audio_start / audio_end controls
+const rikoSink: SpeechSink = {
+  open: () => rikoService.connect(),
+  begin: () => rikoService.sendControl('audio_start'),
+  chunk: (chunk, seq) => rikoService.sendAudioChunk(pcmToBase64(chunk.pcm), chunk.sampleRate, seq),
+  end: () => rikoService.sendControl('audio_end')
+};
+
+const VAD_THRESHOLD = 0.02;
+const VAD_START_CHUNKS = 2;
+const VAD_HANGOVER_MS = 800;
+const PRE_ROLL_CHUNKS = 3;
+
+/**
+ * Microphone → speech backend pipeline.
+ *
+ * In push-to-talk mode an utterance spans press() → release(). In VAD mode
+ * the mic stays open and utterances are cut by a simple energy detector.
+ * By default audio goes to Riko as PCM16 `audio` frames between
+ * `audio_start` and `audio_end` controls, and the server answers with
+ * `transcript` frames; `setSink` routes it elsewhere.
+ */
+export class SpeechInputService extends TypedEventEmitter<SpeechInputEventMap> {
+  private capture = new AudioCapture(chunk => this.handleChunk(chunk));
+  private sink: SpeechSink = rikoSink;
+  private mode: SpeechInputMode = 'push-to-talk';
+  private state: SpeechInputState = 'off';
+  private seq = 0;
+  private preRoll: PcmChunk[] = [];
+  private loudChunks = 0;
+  private lastVoiceTime = 0;
+  private streamSource: () => Promise<MediaStream | undefined> = async () => undefined;
+  private starting: Promise<void> | null = null;
+
+  constructor() {
+    super();
+    rikoService.on('transcript', this.handleTranscript);
+  }
+
+  setMode(mode: SpeechInputMode) {
+    if (this.mode === mode) return;
+    this.mode = mode;
+    if (this.state !== 'off') {
+      this.stop();
+    }
+  }
+
+  getMode(): SpeechInputMode {
+    return this.mode;
+  }
+
+  /**
+   * Override where audio comes from, e.g. `() => createWavMediaStream('/sample.wav')`.
+   * Resolving undefined falls back to the microphone.
+   */
+  setStreamSource(source: () => Promise<MediaStream | undefined>) {
+    this.streamSource = source;
+  }
+
+  /** Route utterances to another backend; null restores Riko. Closes the mic if it was open. */
+  setSink(sink: SpeechSink | null) {
+    const next = sink ?? rikoSink;
+    if (this.sink === next) return;
+    if (this.state !== 'off') {
+      this.stop();
+    }
+    this.sink = next;
+  }
+
+  /** Open the mic. In VAD mode this starts listening for speech immediately. */
+  async start() {
+    if (this.state !== 'off') return;
+    if (!this.starting) {
+      this.starting = (async () => {
+        this.sink.open();
+        await this.capture.start(await this.streamSource());
+        this.setState('armed');
+      })().finally(() => { this.starting = null; });
+    }
+    await this.starting;
+  }
+
+  async stop() {
+    // A release that races a slow getUserMedia must still close the mic
+    if (this.starting) {
+      await this.starting.catch(() => undefined);
+    }
+    if (this.state === 'capturing') {
+      this.endUtterance();
+    }
+    await this.capture.stop();
+    this.preRoll = [];
+    this.loudChunks = 0;
+    this.setState('off');
+  }
+
+  /** Push-to-talk: begin an utterance, opening the mic if needed */
+  async press() {
+    await this.start();
+    if (this.state === 'armed') {
+      this.beginUtterance();
+    }
+  }
+
+  /** Push-to-talk: end the utterance and close the mic */
+  async release() {
+    await this.stop();
+  }
+
+  private beginUtterance() {
+    this.seq = 0;
+    this.sink.begin();
+    this.setState('capturing');
+    this.preRoll.forEach(chunk => this.sendChunk(chunk));
+    this.preRoll = [];
+  }
+
+  private endUtterance() {
+    this.sink.end();
+    this.setState('armed');
+  }
+
+  private handleChunk(chunk: PcmChunk) {
+    this.emit('level', { rms: chunk.rms, peak: chunk.peak });
+
+    if (this.state === 'capturing') {
+      this.sendChunk(chunk);
+    }
+
+    if (this.mode !== 'vad') return;
+
+    const now = performance.now();
+    const isLoud = chunk.rms > VAD_THRESHOLD;
+
+    if (this.state === 'armed') {
+      this.preRoll.push(chunk);
+      if (this.preRoll.length > PRE_ROLL_CHUNKS) this.preRoll.shift();
+
+      this.loudChunks = isLoud ? this.loudChunks + 1 : 0;
+      if (this.loudChunks >= VAD_START_CHUNKS) {
+        this.lastVoiceTime = now;
+        this.beginUtterance();
+      }
+    } else if (this.state === 'capturing') {
+      if (isLoud) {
+        this.lastVoiceTime = now;
+      } else if (now - this.lastVoiceTime > VAD_HANGOVER_MS) {
+        this.loudChunks = 0;
+        this.endUtterance();
+      }
+    }
+  }
+
+  private sendChunk(chunk: PcmChunk) {
+    this.sink.chunk(chunk, this.seq++);
+  }
+
+  private handleTranscript = (frame: RikoEventMap['transcript']) => {
+    this.emit('transcript', { text: frame.text, final: frame.final });
+  };
+
+  private setState(state: SpeechInputState) {
+    if (this.state === state) return;
+    this.state = state;
+    this.emit('state', { state });
+  }
+
+  getState(): SpeechInputState {
+    return this.state;
+  }
+}
+
+export const speechInput = new SpeechInputService();
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ViewerMessage } from '../types';
+import {
+  DEFAULT_STREAM_CHAT_CONFIG,
+  SelectionRules,
+  mentionsName,
+  moderateViewerMessage,
+  selectViewerMessage
+} from './streamChat';
+
+vi.mock('./personas', () => ({
+  personaStore: { getActive: () => ({ name: 'YUMI' }) }
+}));
+
+vi.hoisted(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+});
+
+const rules: SelectionRules = { ...DEFAULT_STREAM_CHAT_CONFIG.rules, minDonation: 100, cooldownMs: 60000 };
+
+let counter = 0;
+const viewer = (user: string, fields: Partial<ViewerMessage> = {}): ViewerMessage => ({
+  id: `m${++counter}`,
+  user,
+  displayName: user,
+  text: 'hello',
+  receivedAt: counter,
+  mention: false,
+  status: 'approved',
+  ...fields
+});
+
+describe('selectViewerMessage', () => {
+  const never = new Map<string, number>();
+
+  it('answers the largest donation at or above the minimum first, oldest on a tie', () => {
+    const small = viewer('small', { donation: 50, mention: true });
+    const first = viewer('first', { donation: 500 });
+    const second = viewer('second', { donation: 500 });
+    expect(selectViewerMessage([small, second, first], rules, never, 0)).toBe(first);
+  });
+
+  it('then the oldest mention', () => {
+    const plain = viewer('plain');
+    const older = viewer('older', { mention: true });
+    const newer = viewer('newer', { mention: true });
+    expect(selectViewerMessage([newer, plain, older], rules, never, 0)).toBe(older);
+  });
+
+  it('otherwise picks at random, or nothing when random picks are off', () => {
+    const a = viewer('a');
+    const b = viewer('b');
+    expect(selectViewerMessage([a, b], rules, never, 0, () => 0.9)).toBe(b);
+    expect(selectViewerMessage([a, b], { ...rules, random: false }, never, 0)).toBeNull();
+  });
+
+  it('skips messages that are not approved and viewers still cooling down', () => {
+    const pending = viewer('pending', { status: 'pending', mention: true });
+    const recent = viewer('recent', { mention: true });
+    const ready = viewer('ready');
+    const answered = new Map([['recent', 1000]]);
+
+    expect(selectViewerMessage([pending, recent, ready], rules, answered, 30000, () => 0)).toBe(ready);
+    expect(selectViewerMessage([recent], rules, answered, 61000)).toBe(recent);
+  });
+});
+
+describe('moderateViewerMessage', () => {
+  const settings = { ...DEFAULT_STREAM_CHAT_CONFIG.moderation, blockedWords: ['spoiler'], blockedUsers: ['Troll'] };
+  const chat = (text: string, user = 'viewer') => ({ id: 'x', user, displayName: user, text });
+
+  it('names the first filter a message fails', () => {
+    expect(moderateViewerMessage(chat('  '), settings)).toBe('empty');
+    expect(moderateViewerMessage(chat('hi', 'troll'), settings)).toBe('blocked user');
+    expect(moderateViewerMessage(chat('x'.repeat(301)), settings)).toBe('too long');
+    expect(moderateViewerMessage(chat('see example.com'), settings)).toBe('link');
+    expect(moderateViewerMessage(chat('big SPOILER ahead'), settings)).toBe('blocked word');
+    expect(moderateViewerMessage(chat('hi YUMI!'), settings)).toBeNull();
+  });
+});
+
+describe('mentionsName', () => {
+  it('matches the name as a word or @mention, in any case', () => {
+    expect(mentionsName('hey @yumi', 'YUMI')).toBe(true);
+    expect(mentionsName('Yumi, hi', 'YUMI')).toBe(true);
+    expect(mentionsName('yumiko is here', 'YUMI')).toBe(false);
+    expect(mentionsName('anything', ' ')).toBe(false);
+  });
+});
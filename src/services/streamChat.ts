@@ -0,0 +1,341 @@
+import { ViewerMessage } from '../types';
+import { personaStore } from './personas';
+import { TypedEventEmitter } from './eventEmitter';
+
+export type ChatSourceStatus = 'disconnected' | 'connecting' | 'connected';
+
+/** A chat line as a source delivers it, before moderation */
+export type IncomingChat = Pick<ViewerMessage, 'id' | 'user' | 'displayName' | 'text' | 'donation'>;
+
+export interface ChatSourceEventMap {
+  status: { status: ChatSourceStatus };
+  message: IncomingChat;
+  /** Moderators on the platform deleted a message, or every message from a user (neither: the whole chat) */
+  removed: { messageId?: string; user?: string };
+  error: { message: string };
+}
+
+type ChatSourceListener<K extends keyof ChatSourceEventMap> = (data: ChatSourceEventMap[K]) => void;
+
+/**
+ * Where viewer messages come from. Implementations live in
+ * `services/chatSources/`; the IRC one covers Twitch.
+ */
+export interface ChatSource {
+  readonly id: string;
+  readonly label: string;
+  connect(): void;
+  disconnect(): void;
+  getStatus(): ChatSourceStatus;
+  on<K extends keyof ChatSourceEventMap>(event: K, callback: ChatSourceListener<K>): void;
+  off<K extends keyof ChatSourceEventMap>(event: K, callback: ChatSourceListener<K>): void;
+}
+
+export interface ModerationSettings {
+  /** auto: messages that pass the filters may be answered · manual: a moderator approves each one */
+  mode: 'auto' | 'manual';
+  blockedWords: string[];
+  blockedUsers: string[];
+  allowLinks: boolean;
+  maxLength: number;
+}
+
+/** How the next message for YUMI is chosen among approved ones */
+export interface SelectionRules {
+  /** Messages that name YUMI go first */
+  mentions: boolean;
+  /** Donations of at least `minDonation` go before anything else, largest first */
+  donations: boolean;
+  minDonation: number;
+  /** Otherwise pick at random; when off only mentions and donations are answered */
+  random: boolean;
+  /** A viewer who was just answered waits this long before being picked again */
+  cooldownMs: number;
+  /** Pause between answers */
+  intervalMs: number;
+}
+
+export interface StreamChatConfig {
+  moderation: ModerationSettings;
+  rules: SelectionRules;
+  /** Answer selected messages automatically while YUMI is free */
+  autoRespond: boolean;
+}
+
+export interface StreamChatEventMap {
+  status: { status: ChatSourceStatus };
+  queue: { messages: ViewerMessage[] };
+  error: { message: string };
+}
+
+/** Who answers selected messages; Live mode registers itself while it is open */
+export interface StreamResponder {
+  respond(message: ViewerMessage): Promise<void>;
+  /** True while YUMI is thinking or talking, so the next message waits */
+  isBusy(): boolean;
+}
+
+const STORAGE_KEY = 'yumi.stream.config';
+
+const MAX_QUEUE = 200;
+
+// Chat moves on quickly; an unanswered message older than this is no longer worth answering
+const MAX_MESSAGE_AGE_MS = 3 * 60 * 1000;
+
+export const DEFAULT_STREAM_CHAT_CONFIG: StreamChatConfig = {
+  moderation: { mode: 'auto', blockedWords: [], blockedUsers: [], allowLinks: false, maxLength: 300 },
+  rules: { mentions: true, donations: true, minDonation: 100, random: true, cooldownMs: 60000, intervalMs: 8000 },
+  autoRespond: false
+};
+
+function loadConfig(): StreamChatConfig {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const parsed = JSON.parse(stored) as Partial<StreamChatConfig>;
+      return {
+        moderation: { ...DEFAULT_STREAM_CHAT_CONFIG.moderation, ...parsed.moderation },
+        rules: { ...DEFAULT_STREAM_CHAT_CONFIG.rules, ...parsed.rules },
+        autoRespond: parsed.autoRespond ?? DEFAULT_STREAM_CHAT_CONFIG.autoRespond
+      };
+    }
+  } catch (error) {
+    console.warn('StreamChat: Ignoring unreadable stored settings', error);
+  }
+  return structuredClone(DEFAULT_STREAM_CHAT_CONFIG);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Whether `text` addresses `name`, as a word or an @mention */
+export function mentionsName(text: string, name: string): boolean {
+  if (!name.trim()) return false;
+  return new RegExp(`(^|[^\\w])@?${escapeRegExp(name.trim())}(?!\\w)`, 'i').test(text);
+}
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[\w-]+\.(com|net|org|io|gg|tv|ly|me)\b/i;
+
+/** Why the filters refuse a message, or null if it passes */
+export function moderateViewerMessage(message: IncomingChat, settings: ModerationSettings): string | null {
+  const text = message.text.trim();
+  if (!text) return 'empty';
+  if (settings.blockedUsers.some(user => user.toLowerCase() === message.user.toLowerCase())) return 'blocked user';
+  if (text.length > settings.maxLength) return 'too long';
+  if (!settings.allowLinks && LINK_PATTERN.test(text)) return 'link';
+  const lower = text.toLowerCase();
+  const word = settings.blockedWords.find(blocked => blocked && lower.includes(blocked.toLowerCase()));
+  return word ? 'blocked word' : null;
+}
+
+/**
+ * Pick the next message to answer: donations first (largest, then oldest),
+ * then mentions (oldest), then a random one. Viewers answered within the
+ * cooldown are skipped.
+ */
+export function selectViewerMessage(
+  queue: ViewerMessage[],
+  rules: SelectionRules,
+  lastAnswered: Map<string, number>,
+  now: number,
+  random: () => number = Math.random
+): ViewerMessage | null {
+  const candidates = queue
+    .filter(message => message.status === 'approved')
+    .filter(message => now - (lastAnswered.get(message.user) ?? -Infinity) >= rules.cooldownMs)
+    .sort((a, b) => a.receivedAt - b.receivedAt);
+  if (!candidates.length) return null;
+
+  if (rules.donations) {
+    const donors = candidates.filter(message => (message.donation ?? 0) > 0 && message.donation! >= rules.minDonation);
+    if (donors.length) {
+      return donors.reduce((best, message) => (message.donation! > best.donation! ? message : best));
+    }
+  }
+  if (rules.mentions) {
+    const mention = candidates.find(message => message.mention);
+    if (mention) return mention;
+  }
+  if (rules.random) {
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+  return null;
+}
+
+/**
+ * Viewer chat for the live show. Messages from the current source go through
+ * moderation into a queue; while a responder is registered and auto-respond
+ * is on, one approved message at a time is selected by the rules and handed
+ * to YUMI.
+ */
+export class StreamChatService extends TypedEventEmitter<StreamChatEventMap> {
+  private config: StreamChatConfig = loadConfig();
+  private source: ChatSource | null = null;
+  private queue: ViewerMessage[] = [];
+  private lastAnswered: Map<string, number> = new Map();
+  private responder: StreamResponder | null = null;
+  private responding = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  getConfig(): StreamChatConfig {
+    return structuredClone(this.config);
+  }
+
+  configure(config: StreamChatConfig) {
+    this.config = structuredClone(config);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.config));
+    this.schedule();
+  }
+
+  /** Swap the chat source; the previous one is disconnected */
+  setSource(source: ChatSource | null) {
+    if (this.source) {
+      this.source.off('status', this.handleStatus);
+      this.source.off('message', this.handleIncoming);
+      this.source.off('removed', this.handleRemoved);
+      this.source.off('error', this.handleError);
+      this.source.disconnect();
+    }
+    this.source = source;
+    if (source) {
+      source.on('status', this.handleStatus);
+      source.on('message', this.handleIncoming);
+      source.on('removed', this.handleRemoved);
+      source.on('error', this.handleError);
+    }
+    this.emit('status', { status: this.getStatus() });
+  }
+
+  getStatus(): ChatSourceStatus {
+    return this.source?.getStatus() ?? 'disconnected';
+  }
+
+  connect() {
+    this.source?.connect();
+  }
+
+  disconnect() {
+    this.source?.disconnect();
+  }
+
+  getQueue(): ViewerMessage[] {
+    return [...this.queue];
+  }
+
+  /** Add a message as if a source had delivered it */
+  ingest(chat: IncomingChat) {
+    if (this.queue.some(message => message.id === chat.id)) return;
+    const reason = moderateViewerMessage(chat, this.config.moderation);
+    const message: ViewerMessage = {
+      ...chat,
+      text: chat.text.trim(),
+      receivedAt: Date.now(),
+      mention: mentionsName(chat.text, personaStore.getActive().name),
+      status: reason ? 'rejected' : this.config.moderation.mode === 'auto' ? 'approved' : 'pending',
+      reason: reason ?? undefined
+    };
+    this.queue = [...this.queue, message].slice(-MAX_QUEUE);
+    this.emitQueue();
+  }
+
+  approve(id: string) {
+    this.update(id, { status: 'approved', reason: undefined });
+  }
+
+  reject(id: string) {
+    this.update(id, { status: 'rejected', reason: 'moderator' });
+  }
+
+  /** Answer a message now, skipping the rules but not a reply in progress */
+  async respondNow(id: string) {
+    const message = this.queue.find(m => m.id === id);
+    if (!message || !this.responder || this.responding) return;
+    await this.answer(message);
+  }
+
+  clearQueue() {
+    this.queue = [];
+    this.emitQueue();
+  }
+
+  setResponder(responder: StreamResponder | null) {
+    this.responder = responder;
+    this.schedule();
+  }
+
+  private update(id: string, changes: Partial<ViewerMessage>) {
+    this.queue = this.queue.map(message => message.id === id ? { ...message, ...changes } : message);
+    this.emitQueue();
+  }
+
+  private schedule() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (!this.responder || !this.config.autoRespond) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.tick();
+    }, this.config.rules.intervalMs);
+  }
+
+  private async tick() {
+    this.pruneStale();
+    if (this.responder && !this.responding && !this.responder.isBusy()) {
+      const next = selectViewerMessage(this.queue, this.config.rules, this.lastAnswered, Date.now());
+      if (next) {
+        await this.answer(next);
+      }
+    }
+    this.schedule();
+  }
+
+  private async answer(message: ViewerMessage) {
+    this.responding = true;
+    this.lastAnswered.set(message.user, Date.now());
+    this.update(message.id, { status: 'answered' });
+    console.log(`StreamChat: Answering ${message.displayName}:`, message.text);
+    try {
+      await this.responder!.respond(message);
+    } catch (error) {
+      console.warn('StreamChat: Responder failed', error);
+    } finally {
+      this.responding = false;
+    }
+  }
+
+  private pruneStale() {
+    const cutoff = Date.now() - MAX_MESSAGE_AGE_MS;
+    const fresh = this.queue.filter(message => message.status === 'answered' || message.receivedAt >= cutoff);
+    if (fresh.length !== this.queue.length) {
+      this.queue = fresh;
+      this.emitQueue();
+    }
+  }
+
+  private handleStatus = ({ status }: ChatSourceEventMap['status']) => {
+    this.emit('status', { status });
+  };
+
+  private handleIncoming = (chat: ChatSourceEventMap['message']) => {
+    this.ingest(chat);
+  };
+
+  private handleRemoved = ({ messageId, user }: ChatSourceEventMap['removed']) => {
+    this.queue = this.queue.filter(message =>
+      message.status === 'answered' || (messageId ? message.id !== messageId : user ? message.user !== user : false)
+    );
+    this.emitQueue();
+  };
+
+  private handleError = ({ message }: ChatSourceEventMap['error']) => {
+    console.warn('StreamChat: Source error', message);
+    this.emit('error', { message });
+  };
+
+  private emitQueue() {
+    this.emit('queue', { messages: this.getQueue() });
+  }
+}
+
+export const streamChat = new StreamChatService();
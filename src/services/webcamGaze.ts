@@ -0,0 +1,131 @@
+// Shape Detection API; only shipped in Chromium-based browsers so far
+interface DetectedFace {
+  boundingBox: DOMRectReadOnly;
+}
+
+interface FaceDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedFace[]>;
+}
+
+type FaceDetectorConstructor = new (options?: { fastMode?: boolean; maxDetectedFaces?: number }) => FaceDetectorInstance;
+
+const DETECT_INTERVAL_MS = 200;
+const SMOOTHING = 0.4;
+
+/**
+ * Follows the viewer's face through the webcam so the avatar can look at
+ * them. Positions are normalised to -1..1 like a pointer, mirrored so that
+ * moving right makes the avatar look right from the viewer's side.
+ */
+export class WebcamGazeService {
+  private stream: MediaStream | null = null;
+  private video: HTMLVideoElement | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private point: { x: number; y: number } | null = null;
+  private detecting = false;
+  // Bumped by stop() and each start(), so a start still waiting on the camera knows it was superseded
+  private run = 0;
+
+  get isSupported(): boolean {
+    return typeof window !== 'undefined' && 'FaceDetector' in window && !!navigator.mediaDevices?.getUserMedia;
+  }
+
+  get isActive(): boolean {
+    return this.stream !== null;
+  }
+
+  /** Open the webcam and start tracking; resolves false when unavailable or denied */
+  async start(): Promise<boolean> {
+    if (this.stream) return true;
+    if (!this.isSupported) {
+      console.warn('WebcamGaze: FaceDetector is not available in this browser');
+      return false;
+    }
+
+    const run = ++this.run;
+    let stream: MediaStream;
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ video: { width: 320, height: 240 } });
+    } catch (error) {
+      console.warn('WebcamGaze: Could not open the webcam', error);
+      return false;
+    }
+    const release = () => {
+      stream.getTracks().forEach(track => track.stop());
+      video.srcObject = null;
+    };
+    if (run !== this.run) {
+      release();
+      return false;
+    }
+
+    video.srcObject = stream;
+    try {
+      await video.play();
+    } catch (error) {
+      console.warn('WebcamGaze: Could not play the webcam', error);
+      release();
+      return false;
+    }
+    if (run !== this.run) {
+      release();
+      return false;
+    }
+    this.stream = stream;
+    this.video = video;
+
+    const Detector = (window as unknown as { FaceDetector: FaceDetectorConstructor }).FaceDetector;
+    const detector = new Detector({ fastMode: true, maxDetectedFaces: 1 });
+    this.timer = setInterval(() => this.detect(detector), DETECT_INTERVAL_MS);
+    return true;
+  }
+
+  private async detect(detector: FaceDetectorInstance) {
+    const video = this.video;
+    if (!video || this.detecting || !video.videoWidth) return;
+
+    this.detecting = true;
+    try {
+      const [face] = await detector.detect(video);
+      if (!face) {
+        this.point = null;
+        return;
+      }
+      const box = face.boundingBox;
+      const x = -(((box.x + box.width / 2) / video.videoWidth) * 2 - 1);
+      const y = -(((box.y + box.height / 2) / video.videoHeight) * 2 - 1);
+      this.point = this.point
+        ? { x: this.point.x + (x - this.point.x) * SMOOTHING, y: this.point.y + (y - this.point.y) * SMOOTHING }
+        : { x, y };
+    } catch (error) {
+      console.warn('WebcamGaze: Face detection failed', error);
+    } finally {
+      this.detecting = false;
+    }
+  }
+
+  /** Latest face position, or null when no face is in view */
+  getPoint(): { x: number; y: number } | null {
+    return this.point;
+  }
+
+  stop() {
+    this.run++;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stream?.getTracks().forEach(track => track.stop());
+    this.stream = null;
+    if (this.video) {
+      this.video.srcObject = null;
+      this.video = null;
+    }
+    this.point = null;
+  }
+}
+
+export const webcamGaze = new WebcamGazeService();
@@ -3,20 +3,312 @@ export enum AppMode {
   LIVE = 'LIVE'
 }
 
+export type Emotion =
+  | 'neutral'
+  | 'happy'
+  | 'sad'
+  | 'angry'
+  | 'surprised'
+  | 'thinking'
+  | 'relaxed'
+  | 'embarrassed';
+
+/** Gestures every avatar can perform, with a clip when the model has one or procedurally otherwise */
+export type AvatarGesture = 'wave' | 'nod' | 'shrug';
+
 export interface SystemStats {
   latency: number;
   videoStatus: 'ONLINE' | 'OFFLINE';
   audioQuality: 'OPTIMAL' | 'PEAKING' | 'N/A';
 }
 
-export interface RikoMessage {
-  type: 'speaking' | 'listening' | 'idle';
+/**
+ * Riko wire protocol (v2).
+ *
+ * Every frame is a JSON object with a `type` discriminator. The client opens
+ * with a `hello` frame carrying its protocol version; the server answers with
+ * its own `hello`. Unknown fields are ignored so newer servers can add data
+ * without breaking older clients.
+ *
+ * Client `text` frames carry an `id`; the server echoes it back as
+ * `requestId` on every frame produced in reply, so responses can be matched
+ * to the request that caused them.
+ *
+ * v2 adds heartbeats: the client sends `control` frames with action `ping`
+ * and the server answers with a `pong` frame echoing the ping's `timestamp`.
+ * Servers may ping too; the client answers with a `pong` control frame.
+ * v1 servers are still accepted but get no heartbeats.
+ */
+export type RikoServerFrame =
+  | RikoHelloFrame
+  | RikoSpeakingFrame
+  | RikoListeningFrame
+  | RikoIdleFrame
+  | RikoTextFrame
+  | RikoAudioFrame
+  | RikoEmotionFrame
+  | RikoGestureFrame
+  | RikoVisemeFrame
+  | RikoTranscriptFrame
+  | RikoPingFrame
+  | RikoPongFrame
+  | RikoErrorFrame;
+
+export interface RikoHelloFrame {
+  type: 'hello';
+  version: number;
+  server?: string;
+}
+
+export interface RikoSpeakingFrame {
+  type: 'speaking';
+  requestId?: string;
   text?: string;
   duration?: number;
+  emotion?: string;
+  audioUrl?: string;
+}
+
+export interface RikoListeningFrame {
+  type: 'listening';
+}
+
+export interface RikoIdleFrame {
+  type: 'idle';
+}
+
+/** Incremental reply text; a frame with `final: true` carries the complete reply */
+export interface RikoTextFrame {
+  type: 'text';
+  requestId?: string;
+  text: string;
+  final?: boolean;
+}
+
+export interface RikoAudioFrame {
+  type: 'audio';
+  requestId?: string;
+  /** Base64-encoded audio payload */
+  data: string;
+  format?: 'pcm16' | 'wav' | 'mp3' | 'ogg';
+  sampleRate?: number;
+  seq?: number;
+}
+
+export interface RikoEmotionFrame {
+  type: 'emotion';
+  requestId?: string;
+  emotion: string;
+  intensity?: number;
+}
+
+/** Play a gesture; `gesture` is a built-in gesture or the name of one of the model's clips */
+export interface RikoGestureFrame {
+  type: 'gesture';
+  requestId?: string;
+  gesture: string;
+}
+
+export interface RikoVisemeFrame {
+  type: 'viseme';
+  visemes: Array<{ id: number | string; time: number; weight?: number }>;
+}
+
+/** Speech-to-text result for audio streamed by the client */
+export interface RikoTranscriptFrame {
+  type: 'transcript';
+  text: string;
+  final: boolean;
+}
+
+export interface RikoPingFrame {
+  type: 'ping';
+  timestamp: number;
+}
+
+/** Answer to a client `ping`; `timestamp` is the ping's, so the round trip is now − timestamp */
+export interface RikoPongFrame {
+  type: 'pong';
+  timestamp: number;
+}
+
+export interface RikoErrorFrame {
+  type: 'error';
+  requestId?: string;
+  message: string;
+  code?: string;
+}
+
+/** Character settings sent with each message so the server can shape the reply */
+export interface RikoPersona {
+  name: string;
+  systemPrompt: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export type RikoClientFrame =
+  | { type: 'hello'; version: number; client: string }
+  | { type: 'text'; id: string; content: string; timestamp: number; persona?: RikoPersona; memories?: string[]; author?: string }
+  | { type: 'audio'; data: string; format: 'pcm16'; sampleRate: number; seq: number }
+  | { type: 'control'; action: RikoControlAction; timestamp: number };
+
+/** `audio_start` / `audio_end` bracket one spoken utterance of streamed `audio` frames */
+export type RikoControlAction = 'cancel' | 'ping' | 'pong' | 'audio_start' | 'audio_end';
+
+export type RikoConnectionStatus = 'connected' | 'disconnected';
+
+/**
+ * The socket's health as the heartbeat sees it.
+ * closed: not wanted · connecting: first attempt · open: heartbeats answered
+ * promptly · degraded: a heartbeat went unanswered or round trips are slow ·
+ * reconnecting: lost, retrying with backoff · failed: cannot retry until the
+ * browser is back online or the settings change
+ */
+export type RikoConnectionState = 'closed' | 'connecting' | 'open' | 'degraded' | 'reconnecting' | 'failed';
+
+/**
+ * Where an outgoing message stands: queued (`pending`), handed to the server
+ * (`sent`), waiting for the connection after a failed attempt (`retry`), or
+ * given up on (`failed`).
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'retry' | 'failed';
+
+export interface RikoEventMap {
+  connection: { status: RikoConnectionStatus };
+  state: { state: RikoConnectionState };
+  /** Heartbeat round trip in milliseconds */
+  latency: { rtt: number };
+  handshake: { serverVersion: number; compatible: boolean };
+  speaking: RikoSpeakingFrame;
+  listening: RikoListeningFrame;
+  idle: RikoIdleFrame;
+  text: RikoTextFrame;
+  audio: RikoAudioFrame;
+  emotion: RikoEmotionFrame;
+  gesture: RikoGestureFrame;
+  viseme: RikoVisemeFrame;
+  transcript: RikoTranscriptFrame;
+  error: RikoErrorFrame;
 }
 
 export interface RikoResponse {
   text: string;
   emotion?: string;
   audioUrl?: string;
+  /** How the reply arrived; socket replies were already acted out through their frames */
+  transport?: 'ws' | 'http';
+}
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: number;
+  /** Which interface produced the message; both write to the same session */
+  source?: 'chat' | 'live';
+  /** For replies: milliseconds from sending the user's message to the reply */
+  latency?: number;
+  /** For user messages sent through a backend that queues while offline */
+  delivery?: DeliveryStatus;
+  /** Stream viewer who wrote the message; absent for the local user */
+  author?: string;
+}
+
+/** A named conversation; its messages are stored separately, keyed by session ID */
+export interface ChatSession {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type AvatarBone =
+  | 'hips'
+  | 'spine'
+  | 'chest'
+  | 'neck'
+  | 'head'
+  | 'leftEye'
+  | 'rightEye'
+  | 'leftShoulder'
+  | 'rightShoulder'
+  | 'leftUpperArm'
+  | 'rightUpperArm'
+  | 'leftLowerArm'
+  | 'rightLowerArm'
+  | 'leftHand'
+  | 'rightHand';
+
+/**
+ * Optional per-model description of where the face and skeleton live.
+ * Anything declared here wins over VRM metadata and name guessing.
+ */
+export interface AvatarManifest {
+  /** Mesh names squashed for blinking when the model has no blink shapes */
+  eyes?: string[];
+  /** Mesh name scaled for the mouth when the model has no mouth shapes */
+  mouth?: string;
+  /** Node names for humanoid bones */
+  bones?: Partial<Record<AvatarBone, string>>;
+  /** Standard shape name (ARKit, viseme_*, VRM preset) → this model's morph target name */
+  shapes?: Record<string, string>;
+  /** Extra animation clips: clip name → URL of a GLB whose first animation is used. `idle` loops by default */
+  animations?: Record<string, string>;
+}
+
+export interface AvatarModel {
+  id: string;
+  name: string;
+  url: string;
+  format: 'glb' | 'vrm';
+  builtIn: boolean;
+  manifest?: AvatarManifest;
+}
+
+/** Who YUMI is: the character both the Gemini and Riko paths play */
+export interface Persona {
+  id: string;
+  name: string;
+  backstory: string;
+  speakingStyle: string;
+  greeting: string;
+  /** Subjects the character declines to discuss */
+  bannedTopics: string[];
+  temperature: number;
+  maxTokens: number;
+}
+
+export type MemoryKind = 'name' | 'preference' | 'fact' | 'topic';
+
+/** Something YUMI remembers about the user across sessions */
+export interface Memory {
+  id: string;
+  kind: MemoryKind;
+  /** Dedupe key: a newer memory with the same key replaces the old one */
+  key: string;
+  content: string;
+  /** Index terms used to find the memory again */
+  keywords: string[];
+  source: 'chat' | 'live' | 'manual';
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** A message from a live stream's chat, as it moves through moderation */
+export interface ViewerMessage {
+  id: string;
+  /** Login name, used for cooldowns and blocking */
+  user: string;
+  displayName: string;
+  text: string;
+  receivedAt: number;
+  /** Cheered bits or another donation amount, in the platform's units */
+  donation?: number;
+  /** Addressed to YUMI by name or @mention */
+  mention: boolean;
+  /** pending: awaiting a moderator · approved: may be answered · rejected: filtered or refused · answered: sent to YUMI */
+  status: 'pending' | 'approved' | 'rejected' | 'answered';
+  /** Why the filters rejected it */
+  reason?: string;
 }
@@ -12,7 +12,22 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GEMINI_MODEL': JSON.stringify(env.GEMINI_MODEL || ''),
+        'process.env.GEMINI_BASE_URL': JSON.stringify(env.GEMINI_BASE_URL || ''),
+        'process.env.GEMINI_LIVE_MODEL': JSON.stringify(env.GEMINI_LIVE_MODEL || ''),
+        'process.env.GEMINI_LIVE_BASE_URL': JSON.stringify(env.GEMINI_LIVE_BASE_URL || ''),
+        'process.env.RIKO_BASE_URL': JSON.stringify(env.RIKO_BASE_URL || ''),
+        'process.env.RIKO_WS_PATH': JSON.stringify(env.RIKO_WS_PATH || ''),
+        'process.env.RIKO_AUTH_TOKEN': JSON.stringify(env.RIKO_AUTH_TOKEN || ''),
+        'process.env.RIKO_AUTH_HEADER': JSON.stringify(env.RIKO_AUTH_HEADER || ''),
+        'process.env.RIKO_MAX_RECONNECT_DELAY_MS': JSON.stringify(env.RIKO_MAX_RECONNECT_DELAY_MS || ''),
+        'process.env.RIKO_CONNECT_TIMEOUT_MS': JSON.stringify(env.RIKO_CONNECT_TIMEOUT_MS || ''),
+        'process.env.RIKO_REQUEST_TIMEOUT_MS': JSON.stringify(env.RIKO_REQUEST_TIMEOUT_MS || ''),
+        'process.env.RIKO_HEARTBEAT_INTERVAL_MS': JSON.stringify(env.RIKO_HEARTBEAT_INTERVAL_MS || ''),
+        'process.env.BROADCAST_RELAY_URL': JSON.stringify(env.BROADCAST_RELAY_URL || ''),
+        'process.env.FACE_WASM_URL': JSON.stringify(env.FACE_WASM_URL || ''),
+        'process.env.FACE_MODEL_URL': JSON.stringify(env.FACE_MODEL_URL || '')
       },
       resolve: {
         alias: {